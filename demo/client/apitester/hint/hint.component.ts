@@ -19,6 +19,7 @@ import {OnInit} from '@angular/core';
 import {MdSnackBar} from '@angular/material';
 
 import {openyolo} from '../../../../ts/api/api';
+import {decodeIdToken} from '../../../../ts/api/id_token';
 import {AUTHENTICATION_METHODS, OpenYoloCredential as Credential, OpenYoloCredentialHintOptions as CredentialHintOptions, TokenProvider} from '../../../../ts/protocol/data';
 import {OpenYoloError} from '../../../../ts/protocol/errors';
 import {SettingsService} from '../app/settings.service';
@@ -64,13 +65,11 @@ export class HintComponent implements OnInit {
       this.credential = await openyolo.hint(this.buildHintOptions());
 
       if (this.credential.idToken) {
-        let tokenParts = this.credential.idToken.split('.');
-        if (tokenParts.length === 3) {
-          let claimsStr = String(atob(tokenParts[1]));
-          this.decodedIdToken = JSON.stringify(JSON.parse(claimsStr), null, 2)
-                                    .replace(/ /g, '&nbsp;')
-                                    .replace(/\n/g, '<br/>');
-        }
+        const claims = this.credential.idTokenClaims ||
+            decodeIdToken(this.credential.idToken);
+        this.decodedIdToken = JSON.stringify(claims, null, 2)
+                                  .replace(/ /g, '&nbsp;')
+                                  .replace(/\n/g, '<br/>');
       }
     } catch (err) {
       this.error = err;
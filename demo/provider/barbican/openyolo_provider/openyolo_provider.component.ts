@@ -160,6 +160,12 @@ export class OpenYoloProviderComponent implements OnInit, OnDestroy,
     return false;
   }
 
+  async showDeleteConfirmation(
+      credential: Credential,
+      displayCallbacks: DisplayCallbacks): Promise<boolean> {
+    return false;
+  }
+
   async showAutoSignIn(
       credential: Credential,
       displayCallbacks: DisplayCallbacks,
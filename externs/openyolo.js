@@ -15,6 +15,7 @@
  *   profilePicture: (string|undefined),
  *   exchangeToken: (string|undefined),
  *   idToken: (string|undefined),
+ *   idTokenClaims: (!Object<string, *>|undefined),
  *   generatedPassword: (string|undefined),
  *   proxiedAuthRequired: (boolean|undefined),
  *   newGrant: (boolean|undefined)
@@ -35,7 +36,7 @@ let RequiredCharacterSet;
  *   minLength: number,
  *   maxLength: number,
  *   requiredCharSets: !Array<!RequiredCharacterSet>,
- *   allowsChars: string
+ *   allowedChars: string
  * }}
  */
 let PasswordSpecification;
@@ -75,6 +76,186 @@ let CredentialHintOptions;
  */
 let ProxyLoginResponse;
 
+/**
+ * @typedef {{
+ *   durationMs: number,
+ *   easing: (string|undefined),
+ *   transform: (string|undefined)
+ * }}
+ */
+let FrameAnimation;
+
+/**
+ * @typedef {{
+ *   top: (string|undefined),
+ *   bottom: (string|undefined),
+ *   left: (string|undefined),
+ *   right: (string|undefined),
+ *   width: (string|undefined),
+ *   height: (string|undefined),
+ *   maxWidth: (string|undefined),
+ *   zIndex: (number|undefined),
+ *   backdrop: (string|undefined),
+ *   animation: (!FrameAnimation|undefined),
+ *   safeAreaInsets: (boolean|undefined)
+ * }}
+ */
+let FrameStyle;
+
+/**
+ * A map of render mode to the style of the provider frame in that mode.
+ * @typedef {!Object<string, !FrameStyle>}
+ */
+let FrameStyleConfig;
+
+/**
+ * @typedef {{
+ *   initialization: (number|undefined),
+ *   request: (number|undefined)
+ * }}
+ */
+let TimeoutBudget;
+
+/**
+ * The subset of the AbortSignal interface used to abort a call.
+ * @typedef {{
+ *   aborted: boolean,
+ *   addEventListener: function(string, function()),
+ *   removeEventListener: function(string, function())
+ * }}
+ */
+let AbortSignalLike;
+
+/**
+ * @typedef {{
+ *   timeouts: (number|!TimeoutBudget|undefined),
+ *   signal: (!AbortSignalLike|undefined)
+ * }}
+ */
+let CallOptions;
+
+/**
+ * The type is one of 'hint' or 'retrieve', with the options of that request.
+ * @typedef {{
+ *   type: string,
+ *   options: (!CredentialHintOptions|!CredentialRequestOptions)
+ * }}
+ */
+let PreloadRequest;
+
+/**
+ * @typedef {{
+ *   preloadRequest: (!PreloadRequest|undefined),
+ *   timeout: (number|undefined),
+ *   signal: (!AbortSignalLike|undefined)
+ * }}
+ */
+let PrepareOptions;
+
+/**
+ * @typedef {{
+ *   urlBase: string,
+ *   features: (!Array<string>|undefined)
+ * }}
+ */
+let ProviderEndpoint;
+
+/**
+ * The mode is one of 'concurrent' or 'queue'.
+ * @typedef {{
+ *   mode: string,
+ *   maxQueueDepth: (number|undefined)
+ * }}
+ */
+let CallQueueingPolicy;
+
+/**
+ * The retryable errors are internal error codes.
+ * @typedef {{
+ *   maxAttempts: number,
+ *   initialDelayMs: (number|undefined),
+ *   multiplier: (number|undefined),
+ *   maxDelayMs: (number|undefined),
+ *   jitter: (number|undefined),
+ *   attemptTimeoutMs: (number|undefined),
+ *   retryableErrors: (!Array<string>|undefined)
+ * }}
+ */
+let RetryPolicy;
+
+/**
+ * @typedef {{
+ *   generateNonces: (boolean|undefined),
+ *   clockSkewSeconds: (number|undefined),
+ *   verifySignature: ((function(string, !Object<string, *>): *)|undefined)
+ * }}
+ */
+let IdTokenPolicy;
+
+/**
+ * @typedef {{
+ *   type: string,
+ *   timestamp: number,
+ *   operation: (string|undefined),
+ *   requestId: (string|undefined),
+ *   provider: (string|undefined),
+ *   attempt: (number|undefined),
+ *   retryDelay: (number|undefined),
+ *   duration: (number|undefined),
+ *   errorType: (string|undefined)
+ * }}
+ */
+let LifecycleEvent;
+
+/**
+ * @typedef {{
+ *   beforeRetrieve: ((function(!CredentialRequestOptions): *)|undefined),
+ *   onCredential: ((function(!Credential): *)|undefined),
+ *   beforeHint: ((function(!CredentialHintOptions): *)|undefined),
+ *   onHint: ((function(!Credential): *)|undefined),
+ *   beforeProxyLogin: ((function(!Credential): *)|undefined),
+ *   onProxyLogin: ((function(!ProxyLoginResponse): *)|undefined)
+ * }}
+ */
+let SignInHooks;
+
+/**
+ * @typedef {{
+ *   supportedAuthMethods: !Array<string>,
+ *   supportedIdTokenProviders: (!Array<!TokenProvider>|undefined),
+ *   context: (string|undefined),
+ *   hint: (boolean|undefined),
+ *   passwordSpec: (!PasswordSpecification|undefined),
+ *   showAddAccount: (boolean|undefined),
+ *   proxyLogin: (boolean|undefined),
+ *   callOptions: (!CallOptions|undefined),
+ *   hooks: (!SignInHooks|undefined)
+ * }}
+ */
+let SignInOptions;
+
+/**
+ * The type is one of 'credential', 'hint', 'proxyLogin' or 'none'.
+ * @typedef {{
+ *   type: string,
+ *   credential: (!Credential|undefined),
+ *   response: (!ProxyLoginResponse|undefined),
+ *   reason: (string|undefined)
+ * }}
+ */
+let SignInResult;
+
+/**
+ * @typedef {{
+ *   usernameField: (!HTMLInputElement|undefined),
+ *   passwordField: (!HTMLInputElement|undefined),
+ *   context: (string|undefined),
+ *   passwordSpec: (!PasswordSpecification|undefined),
+ *   callOptions: (!CallOptions|undefined)
+ * }}
+ */
+let FormBinderOptions;
+
 /**
  * @typedef {{
  *   code: string,
@@ -140,6 +321,34 @@ let AffiliationProvider = function() {};
  */
 AffiliationProvider.prototype.getEquivalentDomains = function(authDomain) {};
 
+/**
+ * @typedef {{
+ *   fetcher: ((function(string): !Promise<!HttpResponse>)|undefined),
+ *   androidAppStatementsFetcher:
+ *       ((function(string, string): !Promise<*>)|undefined),
+ *   maxIncludes: (number|undefined),
+ *   maxDomains: (number|undefined),
+ *   cacheTtlMs: (number|undefined)
+ * }}
+ */
+let AssetLinksAffiliationOptions;
+
+/**
+ * @param {!AssetLinksAffiliationOptions=} options
+ * @constructor
+ * @implements {AffiliationProvider}
+ * @export
+ */
+let AssetLinksAffiliationProvider = function(options) {};
+
+/**
+ * @param {string} authDomain
+ * @return {!Promise<!Array<string>>}
+ * @export
+ */
+AssetLinksAffiliationProvider.prototype.getEquivalentDomains = function(
+    authDomain) {};
+
 // -----------------------------------------------------------------------------
 
 /**
@@ -170,6 +379,35 @@ ClientConfigurationProvider.prototype.getConfiguration = function(authDomain) {
 
 // -----------------------------------------------------------------------------
 
+/**
+ * @typedef {{
+ *   affiliationProvider: AffiliationProvider,
+ *   fetcher: ((function(string): !Promise<!HttpResponse>)|undefined),
+ *   maxReferenceDepth: (number|undefined),
+ *   cacheTtlMs: (number|undefined),
+ *   negativeCacheTtlMs: (number|undefined)
+ * }}
+ */
+let WellKnownClientConfigurationOptions;
+
+/**
+ * @param {!WellKnownClientConfigurationOptions} options
+ * @constructor
+ * @implements {ClientConfigurationProvider}
+ * @export
+ */
+let WellKnownClientConfigurationProvider = function(options) {};
+
+/**
+ * @param {string} authDomain
+ * @return {!Promise<!PrimaryClientConfiguration>}
+ * @export
+ */
+WellKnownClientConfigurationProvider.prototype.getConfiguration = function(
+    authDomain) {};
+
+// -----------------------------------------------------------------------------
+
 /**
  * @interface
  * @export
@@ -278,6 +516,13 @@ InteractionProvider.prototype.showHintPicker = function(
  */
 InteractionProvider.prototype.showSaveConfirmation = function(credential) {};
 
+/**
+ * @param {!Credential} credential
+ * @return {!Promise<boolean>}
+ * @export
+ */
+InteractionProvider.prototype.showDeleteConfirmation = function(credential) {};
+
 /**
  * @return {void}
  * @export
@@ -326,6 +571,42 @@ LocalStateProvider.prototype.getRetainedCredential = function(authDomain) {};
 
 // -----------------------------------------------------------------------------
 
+/**
+ * @typedef {{
+ *   statusCode: number,
+ *   responseText: string
+ * }}
+ */
+let HttpResponse;
+
+/**
+ * @interface
+ * @export
+ */
+let HttpTransport = function() {};
+
+/**
+ * @param {string} url
+ * @param {string} body
+ * @param {!Object<string, string>} headers
+ * @return {!Promise<!HttpResponse>}
+ * @export
+ */
+HttpTransport.prototype.post = function(url, body, headers) {};
+
+// -----------------------------------------------------------------------------
+
+/**
+ * The mode is one of 'reject', 'queue' or 'concurrentNonInteractive'.
+ * @typedef {{
+ *   mode: string,
+ *   maxQueueDepth: (number|undefined)
+ * }}
+ */
+let RequestQueueingPolicy;
+
+// -----------------------------------------------------------------------------
+
 /**
  * @typedef {{
  *   clientAuthDomain: string,
@@ -336,7 +617,9 @@ LocalStateProvider.prototype.getRetainedCredential = function(authDomain) {};
  *   credentialDataProvider: CredentialDataProvider,
  *   interactionProvider: InteractionProvider,
  *   localStateProvider: LocalStateProvider,
- *   allowDirectAuth: boolean
+ *   allowDirectAuth: boolean,
+ *   httpTransport: (HttpTransport|undefined),
+ *   requestQueueingPolicy: (RequestQueueingPolicy|undefined)
  * }}
  */
 let ProviderConfig;
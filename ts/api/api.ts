@@ -15,22 +15,33 @@
  */
 
 import {OpenYoloCredential, OpenYoloCredentialHintOptions, OpenYoloCredentialRequestOptions, OpenYoloProxyLoginResponse} from '../protocol/data';
-import {RenderMode} from '../protocol/data';
-import {OpenYoloErrorType, OpenYoloInternalError} from '../protocol/errors';
+import {RENDER_MODES, RenderMode} from '../protocol/data';
+import {InternalErrorCode, OpenYoloError, OpenYoloErrorType, OpenYoloInternalError} from '../protocol/errors';
 import {FeatureConfig} from '../protocol/feature_config';
 import {PreloadRequest, PreloadRequestType} from '../protocol/preload_request';
 import {SecureChannel} from '../protocol/secure_channel';
 import {generateId, sha256, startTimeoutRacer, TimeoutRacer} from '../protocol/utils';
 
+import {AbortSignalLike} from './base_request';
+import {CallQueue, CallQueueingPolicy, checkCallQueueingPolicy, DEFAULT_CALL_QUEUEING_POLICY} from './call_queue';
 import {CancelLastOperationRequest} from './cancel_last_operation_request';
+import {CredentialDelete} from './credential_delete';
 import {CredentialRequest} from './credential_request';
 import {CredentialSave} from './credential_save';
 import {DisableAutoSignIn} from './disable_auto_sign_in';
+import {FormBinder, FormBinderOptions} from './form_binder';
+import {checkFrameStyleConfig, FrameStyleConfig} from './frame_style';
 import {HintAvailableRequest} from './hint_available_request';
 import {HintRequest} from './hint_request';
+import {addNonces, attachIdTokenClaims, checkIdTokenPolicy, IdTokenPolicy} from './id_token';
+import {LifecycleEventEmitter, LifecycleEventListener, LifecycleEventType, RequestEventContext} from './lifecycle_events';
 import {createNavigatorCredentialsApi} from './navigator_credentials';
-import {ProviderFrameElement} from './provider_frame_elem';
+import {addPreconnectHints} from './preconnect';
+import {ProviderContainer, ProviderFrameElement} from './provider_frame_elem';
+import {ProviderPopupElement} from './provider_popup_elem';
 import {ProxyLogin} from './proxy_login';
+import {checkRetryPolicy, computeRetryDelay, DEFAULT_RETRY_POLICY, getRetryableErrors, RetryPolicy} from './retry_policy';
+import {signIn, SignInOptions, SignInResult, signOut} from './sign_in';
 import {respondToHandshake} from './verify';
 
 const MOBILE_USER_AGENT_REGEX = /android|iphone|ipod|iemobile/i;
@@ -38,6 +49,9 @@ const MOBILE_USER_AGENT_REGEX = /android|iphone|ipod|iemobile/i;
 /**
  * Provides a mechanism for credential exchange between the current origin and
  * the user's credential provider (e.g. Smart Lock for Passwords).
+ *
+ * Every method accepts optional {@link CallOptions}, applying to that call
+ * only.
  */
 export interface OpenYoloApi {
   /**
@@ -51,7 +65,9 @@ export interface OpenYoloApi {
    *     and resolves with false if none are available. The promise will not
    *     reject: if an error happen, it should resolve with false.
    */
-  hintsAvailable(options: OpenYoloCredentialHintOptions): Promise<boolean>;
+  hintsAvailable(
+      options: OpenYoloCredentialHintOptions,
+      callOptions?: CallOptions): Promise<boolean>;
 
   /**
    * Attempts to retrieve a sign-up hint that can be used to create a new
@@ -65,7 +81,8 @@ export interface OpenYoloApi {
    *     A promise for a credential hint. The promise will be rejected if the
    *     user cancels the hint selection process.
    */
-  hint(options: OpenYoloCredentialHintOptions): Promise<OpenYoloCredential>;
+  hint(options: OpenYoloCredentialHintOptions, callOptions?: CallOptions):
+      Promise<OpenYoloCredential>;
 
   /**
    * Attempts to retrieve a credential for the current origin.
@@ -78,8 +95,9 @@ export interface OpenYoloApi {
    *     Otherwise, the promise will resolve with a credential that the app
    *     can use.
    */
-  retrieve(options: OpenYoloCredentialRequestOptions):
-      Promise<OpenYoloCredential>;
+  retrieve(
+      options: OpenYoloCredentialRequestOptions,
+      callOptions?: CallOptions): Promise<OpenYoloCredential>;
 
   /**
    * Attempts to save the provided credential, which will update or create
@@ -92,7 +110,23 @@ export interface OpenYoloApi {
    *     resolve, and does not indicate whether the credential was actually
    *     saved.
    */
-  save(credential: OpenYoloCredential): Promise<void>;
+  save(credential: OpenYoloCredential, callOptions?: CallOptions):
+      Promise<void>;
+
+  /**
+   * Attempts to delete the provided credential from the credential provider.
+   * The user is asked to confirm the deletion.
+   *
+   * @param credential
+   *     The credential to be deleted. Only its identifier and authentication
+   *     method are used to find the stored credential.
+   * @return
+   *     A promise for the completion of the operation. The promise will be
+   *     rejected if the user refuses the deletion, or if the credential cannot
+   *     be deleted.
+   */
+  deleteCredential(credential: OpenYoloCredential, callOptions?: CallOptions):
+      Promise<void>;
 
   /**
    * Prevents the automatic release of a credential from the retrieve operation.
@@ -103,7 +137,7 @@ export interface OpenYoloApi {
    *     A promise for the completion of notifying the provider to disable
    *     automatic sign-in.
    */
-  disableAutoSignIn(): Promise<void>;
+  disableAutoSignIn(callOptions?: CallOptions): Promise<void>;
 
   /**
    * Dispatches a credential to the origin's declared authentication system,
@@ -117,42 +151,167 @@ export interface OpenYoloApi {
    * @return
    *    A promise for the response data from the authentication system.
    */
-  proxyLogin(credential: OpenYoloCredential):
+  proxyLogin(credential: OpenYoloCredential, callOptions?: CallOptions):
       Promise<OpenYoloProxyLoginResponse>;
 
   /**
    * Cancels the last pending OpenYOLO request.
    */
-  cancelLastOperation(): Promise<void>;
+  cancelLastOperation(callOptions?: CallOptions): Promise<void>;
+}
+
+/**
+ * The timeouts, in milliseconds, of the two phases of a call. A timeout of 0
+ * disables the timeout of the phase.
+ */
+export interface TimeoutBudget {
+  /**
+   * The loading of the provider frame and the establishment of the secure
+   * channel. Only applies when the API is not yet initialized.
+   */
+  initialization?: number;
+
+  /**
+   * The request itself, once the API is initialized. The timeout is cleared
+   * once the provider displays its UI, to let the user proceed at their pace.
+   */
+  request?: number;
+}
+
+/**
+ * Custom timeouts of the operations of the API. A number applies to both the
+ * initialization and the request.
+ */
+export type OperationTimeouts = {
+  [key in keyof OpenYoloApi]?: number | TimeoutBudget
+};
+
+/**
+ * Options applying to a single call of the API.
+ */
+export interface CallOptions {
+  /**
+   * Overrides the configured timeouts for this call.
+   */
+  timeouts?: number|TimeoutBudget;
+
+  /**
+   * Cancels this call once aborted, such as the signal of an AbortController.
+   * The call is then rejected with an `operationCanceled` error, and any UI
+   * displayed by the provider for it is torn down.
+   */
+  signal?: AbortSignalLike;
+}
+
+/**
+ * Options of the preparation of the API ahead of its first call.
+ */
+export interface PrepareOptions {
+  /**
+   * The request expected first, letting the provider preload its data.
+   */
+  preloadRequest?: PreloadRequest;
+
+  /**
+   * Overrides the initialization timeout, in milliseconds. Default: the
+   * configured initialization timeout of the request expected first, or the
+   * longest one of all the operations when none is provided.
+   */
+  timeout?: number;
+
+  /**
+   * Cancels the preparation once aborted. The initialization still completes
+   * for the next calls.
+   */
+  signal?: AbortSignalLike;
 }
 
 /**
- * A variant of the OpenYoloApi interface, with support for operation timeouts.
+ * The operations initializing the API.
+ */
+type InitializingOperation = keyof OpenYoloApi|'prepare';
+
+/**
+ * A variant of the OpenYoloApi interface, with support for operation timeouts
+ * and abort signals.
  */
 export interface OpenYoloWithTimeoutApi {
   hintsAvailable(
       options: OpenYoloCredentialHintOptions,
-      timeoutRacer: TimeoutRacer): Promise<boolean>;
-  hint(options: OpenYoloCredentialHintOptions, timeoutRacer: TimeoutRacer):
-      Promise<OpenYoloCredential>;
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<boolean>;
+  hint(
+      options: OpenYoloCredentialHintOptions,
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<OpenYoloCredential>;
   retrieve(
       options: OpenYoloCredentialRequestOptions,
-      timeoutRacer: TimeoutRacer): Promise<OpenYoloCredential>;
-  save(credential: OpenYoloCredential, timeoutRacer: TimeoutRacer):
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<OpenYoloCredential>;
+  save(
+      credential: OpenYoloCredential,
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<void>;
+  deleteCredential(
+      credential: OpenYoloCredential,
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<void>;
+  disableAutoSignIn(timeoutRacer: TimeoutRacer, signal?: AbortSignalLike):
+      Promise<void>;
+  proxyLogin(
+      credential: OpenYoloCredential,
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<OpenYoloProxyLoginResponse>;
+  cancelLastOperation(timeoutRacer: TimeoutRacer, signal?: AbortSignalLike):
       Promise<void>;
-  disableAutoSignIn(timeoutRacer: TimeoutRacer): Promise<void>;
-  proxyLogin(credential: OpenYoloCredential, timeoutRacer: TimeoutRacer):
-      Promise<OpenYoloProxyLoginResponse>;
-  cancelLastOperation(timeoutRacer: TimeoutRacer): Promise<void>;
   dispose(): Promise<void>;
 }
 
 /**
- * Defines the different timeouts for every request.
+ * A provider the API can be initialized with.
+ */
+export interface ProviderEndpoint {
+  /**
+   * The URL of the provider frame.
+   */
+  urlBase: string;
+
+  /**
+   * The features to enable with this provider. Defaults to the feature config
+   * of the API.
+   */
+  features?: string[];
+}
+
+const DEFAULT_PROVIDER_URL_BASE = 'https://provider.openyolo.org';
+
+/**
+ * The failures of the initialization after which the next provider is tried.
+ */
+const PROVIDER_FALLBACK_ERROR_CODES: InternalErrorCode[] = [
+  InternalErrorCode.apiDisabled,
+  InternalErrorCode.providerInitializationFailed,
+  InternalErrorCode.initializationTimeout
+];
+
+/**
+ * The session storage key of the provider chosen in the session.
+ */
+const PROVIDER_STORAGE_KEY = 'openyolo.provider';
+
+/**
+ * Defines the default timeout of the initialization of the API.
+ */
+const DEFAULT_INITIALIZATION_TIMEOUT_MS = 3000;
+
+/**
+ * Defines the different timeouts for every request, once the API is
+ * initialized.
  */
 const DEFAULT_TIMEOUTS: {[key in keyof OpenYoloApi]: number} = {
   retrieve: 3000,
   save: 3000,
+  deleteCredential: 3000,
   disableAutoSignIn: 3000,
   hintsAvailable: 3000,
   hint: 3000,
@@ -160,9 +319,11 @@ const DEFAULT_TIMEOUTS: {[key in keyof OpenYoloApi]: number} = {
   cancelLastOperation: 3000
 };
 
-// This is a hack to be able to list the values of a "const enum"
-const RENDER_MODES: RenderMode[] =
-    [RenderMode.bottomSheet, RenderMode.navPopout, RenderMode.fullScreen];
+/**
+ * The operations which do not display any UI.
+ */
+const NON_INTERACTIVE_OPERATIONS: Array<keyof OpenYoloApi> =
+    ['hintsAvailable', 'disableAutoSignIn'];
 
 /**
  * Sanitzes the input for renderMode, selecting the default one if invalid.
@@ -183,6 +344,167 @@ function verifyOrDetectRenderMode(renderMode: RenderMode|null): RenderMode {
   }
 }
 
+/**
+ * Returns the inline container element, looking it up if given as a selector.
+ */
+function resolveInlineContainer(container: HTMLElement|string): HTMLElement {
+  if (typeof container !== 'string') {
+    return container;
+  }
+  const element = document.querySelector(container);
+  if (!element) {
+    throw OpenYoloInternalError.containerNotFound(container).toExposedError();
+  }
+  return element as HTMLElement;
+}
+
+/**
+ * The timeouts of a call, once the custom and default ones are applied.
+ */
+interface ResolvedTimeouts {
+  initialization: number;
+  request: number;
+}
+
+/**
+ * Ensures the timeout provided by the developer is valid.
+ */
+function checkTimeout(timeoutMs: any) {
+  if (typeof timeoutMs !== 'number' || timeoutMs < 0) {
+    throw new Error(
+        'Invalid timeout. It must be a number greater than or equal to 0. ' +
+        'Setting it to 0 disable timeouts.');
+  }
+}
+
+/**
+ * Ensures the timeout or timeout budget provided by the developer is valid.
+ */
+function checkTimeoutOrBudget(timeouts: any) {
+  if (typeof timeouts === 'number') {
+    checkTimeout(timeouts);
+    return;
+  }
+  if (!timeouts || typeof timeouts !== 'object') {
+    throw new Error(
+        'Invalid timeouts. It must be a number, or an object with ' +
+        'initialization and request timeouts.');
+  }
+  if (timeouts['initialization'] !== undefined) {
+    checkTimeout(timeouts['initialization']);
+  }
+  if (timeouts['request'] !== undefined) {
+    checkTimeout(timeouts['request']);
+  }
+}
+
+function toTimeoutBudget(timeouts: number|TimeoutBudget): TimeoutBudget {
+  if (typeof timeouts === 'number') {
+    return {initialization: timeouts, request: timeouts};
+  }
+  return timeouts;
+}
+
+function firstDefined(...values: Array<number|undefined>): number {
+  const value = values.find((v) => v !== undefined);
+  return value === undefined ? 0 : value;
+}
+
+/**
+ * Whether the given error is an exposed error with one of the internal error
+ * codes.
+ */
+function hasErrorCode(error: any, codes: InternalErrorCode[]): boolean {
+  return error instanceof OpenYoloError && error.code !== undefined &&
+      codes.indexOf(error.code) !== -1;
+}
+
+/**
+ * Whether the failure of the initialization has one of the given codes. No
+ * request is sent while initializing, so a requestTimeout error is a timeout
+ * of the initialization, and matches the initializationTimeout code.
+ */
+function hasInitializationErrorCode(
+    error: any, codes: InternalErrorCode[]): boolean {
+  if (codes.indexOf(InternalErrorCode.initializationTimeout) !== -1 &&
+      hasErrorCode(error, [InternalErrorCode.requestTimeout])) {
+    return true;
+  }
+  return hasErrorCode(error, codes);
+}
+
+/**
+ * Returns the timeout of an attempt of the initialization, given the time
+ * remaining before the deadline, or 0 to disable it.
+ */
+function getAttemptTimeout(policy: RetryPolicy, remainingMs: number): number {
+  const attemptTimeoutMs = policy.attemptTimeoutMs || Infinity;
+  const timeoutMs = Math.min(attemptTimeoutMs, remainingMs);
+  // The deadline is checked before every retry, so the timeout is positive.
+  return timeoutMs === Infinity ? 0 : timeoutMs;
+}
+
+function wait(delayMs: number): Promise<void> {
+  return new Promise<void>((resolve) => {
+    window.setTimeout(resolve, delayMs);
+  });
+}
+
+function getRememberedProvider(): string|null {
+  try {
+    return window.sessionStorage.getItem(PROVIDER_STORAGE_KEY);
+  } catch (e) {
+    // The storage may not be accessible, e.g. when cookies are blocked.
+    return null;
+  }
+}
+
+function rememberProvider(provider: string) {
+  try {
+    window.sessionStorage.setItem(PROVIDER_STORAGE_KEY, provider);
+  } catch (e) {
+    // The providers are then tried in order on every initialization.
+  }
+}
+
+/**
+ * Returns a promise rejected once the user closes the container.
+ */
+function whenContainerClosed(container: ProviderContainer): Promise<never> {
+  return new Promise<never>((resolve, reject) => {
+    container.addCloseListener(() => {
+      reject(OpenYoloInternalError.userCanceled().toExposedError());
+    });
+  });
+}
+
+/**
+ * Races the promise against the abortion of the signal, if any, rejecting with
+ * an operationCanceled error once aborted.
+ */
+function raceAbortSignal<T>(
+    promise: Promise<T>, signal?: AbortSignalLike): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const abortListener = () => {
+      signal.removeEventListener('abort', abortListener);
+      reject(OpenYoloInternalError.operationCanceled().toExposedError());
+    };
+    signal.addEventListener('abort', abortListener);
+    promise.then(
+        (result) => {
+          signal.removeEventListener('abort', abortListener);
+          resolve(result);
+        },
+        (error) => {
+          signal.removeEventListener('abort', abortListener);
+          reject(error);
+        });
+  });
+}
+
 /**
  * Provides access to the user's preferred credential provider, in order to
  * retrieve credentials.
@@ -193,19 +515,23 @@ export class OpenYoloApiImpl implements OpenYoloWithTimeoutApi {
   private navigatorCredentials: OpenYoloApi;
 
   constructor(
-      private frameManager: ProviderFrameElement,
+      private frameManager: ProviderContainer,
       private channel: SecureChannel,
-      fallbackApi?: OpenYoloApi) {
+      fallbackApi?: OpenYoloApi,
+      private events?: LifecycleEventEmitter,
+      private provider?: string) {
     this.navigatorCredentials = fallbackApi || createNavigatorCredentialsApi();
   }
 
   async hintsAvailable(
       options: OpenYoloCredentialHintOptions,
-      timeoutRacer: TimeoutRacer): Promise<boolean> {
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<boolean> {
     this.checkNotDisposed();
-    const request = new HintAvailableRequest(this.frameManager, this.channel);
+    const request = new HintAvailableRequest(
+        this.frameManager, this.channel, this.eventContext('hintsAvailable'));
     try {
-      return await request.dispatch(options, timeoutRacer);
+      return await request.dispatch(options, timeoutRacer, signal);
     } catch (e) {
       if (timeoutRacer.hasTimedOut()) {
         // Cancel last operation so it doesn't remain pending.
@@ -219,11 +545,13 @@ export class OpenYoloApiImpl implements OpenYoloWithTimeoutApi {
 
   async hint(
       options: OpenYoloCredentialHintOptions,
-      timeoutRacer: TimeoutRacer): Promise<OpenYoloCredential> {
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<OpenYoloCredential> {
     this.checkNotDisposed();
-    const request = new HintRequest(this.frameManager, this.channel);
+    const request = new HintRequest(
+        this.frameManager, this.channel, this.eventContext('hint'));
     try {
-      return await request.dispatch(options, timeoutRacer);
+      return await request.dispatch(options, timeoutRacer, signal);
     } catch (e) {
       if (timeoutRacer.hasTimedOut()) {
         // Cancel last operation so it doesn't remain pending.
@@ -237,11 +565,13 @@ export class OpenYoloApiImpl implements OpenYoloWithTimeoutApi {
 
   async retrieve(
       options: OpenYoloCredentialRequestOptions,
-      timeoutRacer: TimeoutRacer): Promise<OpenYoloCredential> {
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<OpenYoloCredential> {
     this.checkNotDisposed();
-    const request = new CredentialRequest(this.frameManager, this.channel);
+    const request = new CredentialRequest(
+        this.frameManager, this.channel, this.eventContext('retrieve'));
     try {
-      return await request.dispatch(options, timeoutRacer);
+      return await request.dispatch(options, timeoutRacer, signal);
     } catch (e) {
       if (timeoutRacer.hasTimedOut()) {
         // Cancel last operation so it doesn't remain pending.
@@ -253,11 +583,15 @@ export class OpenYoloApiImpl implements OpenYoloWithTimeoutApi {
     }
   }
 
-  async save(credential: OpenYoloCredential, timeoutRacer: TimeoutRacer) {
+  async save(
+      credential: OpenYoloCredential,
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike) {
     this.checkNotDisposed();
-    const request = new CredentialSave(this.frameManager, this.channel);
+    const request = new CredentialSave(
+        this.frameManager, this.channel, this.eventContext('save'));
     try {
-      return await request.dispatch(credential, timeoutRacer);
+      return await request.dispatch(credential, timeoutRacer, signal);
     } catch (e) {
       if (timeoutRacer.hasTimedOut()) {
         // Cancel last operation so it doesn't remain pending.
@@ -269,12 +603,35 @@ export class OpenYoloApiImpl implements OpenYoloWithTimeoutApi {
     }
   }
 
-  async proxyLogin(credential: OpenYoloCredential, timeoutRacer: TimeoutRacer):
-      Promise<OpenYoloProxyLoginResponse> {
+  async deleteCredential(
+      credential: OpenYoloCredential,
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike) {
+    this.checkNotDisposed();
+    const request = new CredentialDelete(
+        this.frameManager, this.channel, this.eventContext('deleteCredential'));
+    try {
+      return await request.dispatch(credential, timeoutRacer, signal);
+    } catch (e) {
+      if (timeoutRacer.hasTimedOut()) {
+        // Cancel last operation so it doesn't remain pending.
+        this.cancelLastOperationWithoutTimeout();
+      } else if (e['type'] === OpenYoloErrorType.browserWrappingRequired) {
+        return this.navigatorCredentials.deleteCredential(credential);
+      }
+      throw e;
+    }
+  }
+
+  async proxyLogin(
+      credential: OpenYoloCredential,
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<OpenYoloProxyLoginResponse> {
     this.checkNotDisposed();
-    const request = new ProxyLogin(this.frameManager, this.channel);
+    const request = new ProxyLogin(
+        this.frameManager, this.channel, this.eventContext('proxyLogin'));
     try {
-      return await request.dispatch(credential, timeoutRacer);
+      return await request.dispatch(credential, timeoutRacer, signal);
     } catch (e) {
       if (timeoutRacer.hasTimedOut()) {
         // Cancel last operation so it doesn't remain pending.
@@ -286,14 +643,19 @@ export class OpenYoloApiImpl implements OpenYoloWithTimeoutApi {
     }
   }
 
-  async disableAutoSignIn(timeoutRacer: TimeoutRacer) {
+  async disableAutoSignIn(
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike) {
     this.checkNotDisposed();
-    const request = new DisableAutoSignIn(this.frameManager, this.channel);
+    const request = new DisableAutoSignIn(
+        this.frameManager,
+        this.channel,
+        this.eventContext('disableAutoSignIn'));
     // Disable both navigator.credentials and provider as it is not known
     // whichever will be used in the next retrieve.
     try {
       const providerDisableAutoSignIn =
-          request.dispatch(undefined, timeoutRacer);
+          request.dispatch(undefined, timeoutRacer, signal);
       const browserDisableAutoSignIn =
           this.navigatorCredentials.disableAutoSignIn();
       await Promise.all([providerDisableAutoSignIn, browserDisableAutoSignIn]);
@@ -306,12 +668,16 @@ export class OpenYoloApiImpl implements OpenYoloWithTimeoutApi {
     }
   }
 
-  async cancelLastOperation(timeoutRacer: TimeoutRacer) {
+  async cancelLastOperation(
+      timeoutRacer: TimeoutRacer,
+      signal?: AbortSignalLike) {
     this.checkNotDisposed();
-    const request =
-        new CancelLastOperationRequest(this.frameManager, this.channel);
+    const request = new CancelLastOperationRequest(
+        this.frameManager,
+        this.channel,
+        this.eventContext('cancelLastOperation'));
     try {
-      return await request.dispatch(undefined, timeoutRacer);
+      return await request.dispatch(undefined, timeoutRacer, signal);
     } catch (e) {
       if (e['type'] === OpenYoloErrorType.browserWrappingRequired) {
         return this.navigatorCredentials.cancelLastOperation();
@@ -322,8 +688,10 @@ export class OpenYoloApiImpl implements OpenYoloWithTimeoutApi {
 
   private async cancelLastOperationWithoutTimeout() {
     this.checkNotDisposed();
-    const request =
-        new CancelLastOperationRequest(this.frameManager, this.channel);
+    const request = new CancelLastOperationRequest(
+        this.frameManager,
+        this.channel,
+        this.eventContext('cancelLastOperation'));
     try {
       return await request.dispatch(undefined, undefined);
     } catch (e) {
@@ -349,6 +717,12 @@ export class OpenYoloApiImpl implements OpenYoloWithTimeoutApi {
       throw OpenYoloInternalError.clientDisposed().toExposedError();
     }
   }
+
+  private eventContext(operation: keyof OpenYoloApi): RequestEventContext|null {
+    return this.events ?
+        {emitter: this.events, operation, provider: this.provider} :
+        null;
+  }
 }
 
 export interface OnDemandOpenYoloApi extends OpenYoloApi {
@@ -361,17 +735,79 @@ export interface OnDemandOpenYoloApi extends OpenYoloApi {
    */
   setFeatureConfig(featuresToEnable: string[]): void;
   /**
-   * Sets the render mode, or null if the default one should be used.
+   * Sets the ordered list of providers to fall back on, replacing the provider
+   * URL.
+   */
+  setProviders(providers: ProviderEndpoint[]): void;
+  /**
+   * Sets the render mode, or null if the default one should be used. The
+   * inline render mode requires the element, or a selector of the element, in
+   * which the provider frame is rendered.
    */
-  setRenderMode(renderMode: RenderMode|null): void;
+  setRenderMode(renderMode: RenderMode|null, container?: HTMLElement|string):
+      void;
   /**
-   * Sets a custom timeouts, or 0 to disable timeouts.
+   * Sets the presentation of the provider frame in each render mode, or null
+   * to restore the default one.
    */
-  setTimeouts(timeoutMs: number|null): void;
+  setFrameStyle(config: FrameStyleConfig|null): void;
+  /**
+   * Sets custom timeouts, or 0 to disable timeouts, or null to restore the
+   * default ones.
+   */
+  setTimeouts(timeouts: number|OperationTimeouts|null): void;
+  /**
+   * Sets how the calls made while another one is pending are handled, or null
+   * to restore the default policy.
+   */
+  setCallQueueingPolicy(policy: CallQueueingPolicy|null): void;
+  /**
+   * Sets how the initialization is attempted again after a transient failure,
+   * or null to restore the default policy.
+   */
+  setRetryPolicy(policy: RetryPolicy|null): void;
+  /**
+   * Sets how the ID tokens returned by the retrieve and hint requests are
+   * inspected, or null to return them as is.
+   */
+  setIdTokenPolicy(policy: IdTokenPolicy|null): void;
   /**
    * Resets the current instantiation of the API.
    */
   reset(): void;
+  /**
+   * Returns the URL base of the provider serving the API, chosen among the
+   * configured providers, or null until the API is initialized.
+   */
+  getProvider(): string|null;
+  /**
+   * Initializes the provider frame and the secure channel ahead of the first
+   * call, resolving once they are ready.
+   */
+  prepare(options?: PrepareOptions): Promise<void>;
+  /**
+   * Signs the user in: retrieves an existing credential, dispatching it with
+   * proxyLogin if required, or falls back to requesting a hint.
+   */
+  signIn(options: SignInOptions): Promise<SignInResult>;
+  /**
+   * Signs the user out: disables the automatic sign-in.
+   */
+  signOut(callOptions?: CallOptions): Promise<void>;
+  /**
+   * Binds a sign-in or sign-up form: fills it with a credential or a hint,
+   * and saves the submitted credential once the app confirms its success.
+   */
+  bindForm(form: HTMLFormElement, options?: FormBinderOptions): FormBinder;
+  /**
+   * Registers a listener of the lifecycle events of the API, such as the
+   * connection to the provider or the completion of the requests.
+   */
+  addEventListener(listener: LifecycleEventListener): void;
+  /**
+   * Unregisters a listener of the lifecycle events of the API.
+   */
+  removeEventListener(listener: LifecycleEventListener): void;
 }
 
 /**
@@ -381,15 +817,23 @@ export interface OnDemandOpenYoloApi extends OpenYoloApi {
  * immediate instantiation when the module is loaded.
  */
 export class InitializeOnDemandApi implements OnDemandOpenYoloApi {
-  private providerUrlBase: string = 'https://provider.openyolo.org';
+  private providers: ProviderEndpoint[] =
+      [{urlBase: DEFAULT_PROVIDER_URL_BASE}];
   private featuresToEnable: string[] = [];
   private implPromise: Promise<OpenYoloWithTimeoutApi>|null = null;
   private renderMode: RenderMode|null = null;
+  private inlineContainer: HTMLElement|string|null = null;
+  private frameStyleConfig: FrameStyleConfig|null = null;
   /**
    * Custom timeouts defined by the client. When null, the predefined timeouts
    * are used.
    */
-  private customTimeoutsMs: number|null = null;
+  private customTimeouts: number|OperationTimeouts|null = null;
+  private events = new LifecycleEventEmitter();
+  private callQueue = new CallQueue();
+  private retryPolicy = DEFAULT_RETRY_POLICY;
+  private idTokenPolicy: IdTokenPolicy|null = null;
+  private provider: string|null = null;
 
   constructor() {
     // Register the handler for ping verification automatically on module load.
@@ -400,14 +844,26 @@ export class InitializeOnDemandApi implements OnDemandOpenYoloApi {
    * Create the open yolo API based on the parameters given. It will always open
    * the provider page to check the user's configuration, and initialize the
    * correct implementation of OpenYolo based on the result.
+   *
+   * The optional onContainerClose callback is invoked if the user closes the
+   * provider container, after which the returned implementation is unusable.
+   * The lifecycle events of the container and the requests are emitted through
+   * the optional events emitter. The inline container is required by the
+   * inline render mode. The frame is presented according to the style
+   * configured for its render mode, if any.
    */
   static createOpenYoloApi(
       timeoutRacer: TimeoutRacer,
       providerUrlBase: string,
       featuresToEnable: string[],
       renderMode: RenderMode|null,
-      preloadRequest?: PreloadRequest): Promise<OpenYoloWithTimeoutApi> {
-    let frameManager: ProviderFrameElement|null = null;
+      preloadRequest?: PreloadRequest,
+      onContainerClose?: () => void,
+      events?: LifecycleEventEmitter,
+      inlineContainer?: HTMLElement|string|null,
+      frameStyleConfig?: FrameStyleConfig|
+      null): Promise<OpenYoloWithTimeoutApi> {
+    let frameManager: ProviderContainer|null = null;
     // Sanitize input.
     const renderModeSanitized = verifyOrDetectRenderMode(renderMode);
     const instanceId = generateId();
@@ -425,23 +881,55 @@ export class InitializeOnDemandApi implements OnDemandOpenYoloApi {
           if (featuresToEnable.length > 0) {
             featureConfig = {'feature': featuresToEnable};
           }
-          frameManager = new ProviderFrameElement(
-              document,
-              instanceIdHash,
-              window.location.origin,
-              renderModeSanitized,
-              providerUrlBase,
-              featureConfig,
-              preloadRequest);
-
-          return timeoutRacer.race(SecureChannel.clientConnect(
-              window,
-              frameManager.getContentWindow(),
-              instanceId,
-              instanceIdHash));
+          if (renderModeSanitized === RenderMode.popup) {
+            frameManager = new ProviderPopupElement(
+                window,
+                instanceIdHash,
+                window.location.origin,
+                providerUrlBase,
+                featureConfig,
+                preloadRequest,
+                events);
+          } else {
+            let container: HTMLElement|undefined = undefined;
+            if (renderModeSanitized === RenderMode.inline) {
+              if (!inlineContainer) {
+                throw OpenYoloInternalError
+                    .illegalStateError('The inline container is missing.')
+                    .toExposedError();
+              }
+              container = resolveInlineContainer(inlineContainer);
+            }
+            frameManager = new ProviderFrameElement(
+                document,
+                instanceIdHash,
+                window.location.origin,
+                renderModeSanitized,
+                providerUrlBase,
+                featureConfig,
+                preloadRequest,
+                events,
+                container,
+                frameStyleConfig ? frameStyleConfig[renderModeSanitized] :
+                                   undefined);
+          }
+          if (onContainerClose) {
+            frameManager.addCloseListener(onContainerClose);
+          }
+
+          // The user may close the container before the handshake completes.
+          return timeoutRacer.race(Promise.race([
+            SecureChannel.clientConnect(
+                window,
+                frameManager.getContentWindow(),
+                instanceId,
+                instanceIdHash),
+            whenContainerClosed(frameManager)
+          ]));
         })
         .then((channel) => {
-          return new OpenYoloApiImpl(frameManager!, channel);
+          return new OpenYoloApiImpl(
+              frameManager!, channel, undefined, events, providerUrlBase);
         })
         .catch((e) => {
           // Dispose of the frame managerif it was created.
@@ -456,7 +944,7 @@ export class InitializeOnDemandApi implements OnDemandOpenYoloApi {
   }
 
   setProviderUrlBase(providerUrlBase: string) {
-    this.providerUrlBase = providerUrlBase;
+    this.providers = [{urlBase: providerUrlBase}];
     this.reset();
   }
 
@@ -465,38 +953,175 @@ export class InitializeOnDemandApi implements OnDemandOpenYoloApi {
     this.reset();
   }
 
-  setRenderMode(renderMode: RenderMode|null) {
+  /**
+   * Sets the ordered list of providers. The initialization falls back to the
+   * next provider of the list when one is disabled, fails to initialize or
+   * times out.
+   */
+  setProviders(providers: ProviderEndpoint[]) {
+    if (!Array.isArray(providers) || providers.length === 0) {
+      throw new Error('Invalid providers. It must be a non-empty array.');
+    }
+    providers.forEach((provider) => {
+      if (!provider || typeof provider.urlBase !== 'string' ||
+          !provider.urlBase) {
+        throw new Error('Invalid provider. Its URL base must be provided.');
+      }
+      if (provider.features !== undefined &&
+          !Array.isArray(provider.features)) {
+        throw new Error(
+            'Invalid provider. Its features must be an array of strings.');
+      }
+    });
+    this.providers = providers;
+    this.reset();
+  }
+
+  setRenderMode(renderMode: RenderMode|null, container?: HTMLElement|string) {
+    if (renderMode === RenderMode.inline && !container) {
+      throw new Error(
+          'Invalid container. The inline render mode requires a container ' +
+          'element or selector.');
+    }
     this.renderMode = renderMode;
+    this.inlineContainer = container || null;
+    this.reset();
+  }
+
+  /**
+   * Sets the presentation of the provider frame in each render mode, or null
+   * to restore the default one.
+   */
+  setFrameStyle(config: FrameStyleConfig|null) {
+    if (config !== null) {
+      checkFrameStyleConfig(config);
+    }
+    this.frameStyleConfig = config;
     this.reset();
   }
 
   /**
-   * Sets a global custom timeouts that will wrap every request.
-   * @param timeoutMs Custom timeout, in milliseconds.
+   * Sets custom timeouts that will wrap every request. A number applies to
+   * every operation, while a map only overrides the timeouts of the operations
+   * it contains.
+   * @param timeouts Custom timeouts, in milliseconds.
    */
-  setTimeouts(timeoutMs: number|null) {
-    if (timeoutMs === null) {
-      this.customTimeoutsMs = null;
+  setTimeouts(timeouts: number|OperationTimeouts|null) {
+    if (timeouts === null) {
+      this.customTimeouts = null;
       this.reset();
       return;
     }
     // Perform sanitization on the developer provided value.
-    if (typeof timeoutMs !== 'number' || timeoutMs < 0) {
+    if (typeof timeouts === 'number') {
+      checkTimeout(timeouts);
+    } else if (timeouts && typeof timeouts === 'object') {
+      const timeoutsMap = timeouts as {[key: string]: any};
+      Object.keys(timeoutsMap).forEach((key) => {
+        if (!DEFAULT_TIMEOUTS.hasOwnProperty(key)) {
+          throw new Error(`Invalid timeout. Unknown operation '${key}'.`);
+        }
+        checkTimeoutOrBudget(timeoutsMap[key]);
+      });
+    } else {
       throw new Error(
-          'Invalid timeout. It must be a number greater than or equal to 0. ' +
-          'Setting it to 0 disable timeouts.');
+          'Invalid timeouts. It must be a number, or a map of operation ' +
+          'to timeouts.');
     }
     // Only trigger reset if the setting changes and goes to disabling timeout,
     // this is meant to retry without timeout a potentially failed
     // initialization.
-    const shouldReset = this.customTimeoutsMs !== timeoutMs && timeoutMs === 0;
-    this.customTimeoutsMs = timeoutMs;
+    const shouldReset = this.customTimeouts !== timeouts && timeouts === 0;
+    this.customTimeouts = timeouts;
     if (shouldReset) {
       this.reset();
     }
   }
 
+  /**
+   * Sets how the calls made while another one is pending are handled, or null
+   * to restore the default policy, sending them immediately.
+   */
+  setCallQueueingPolicy(policy: CallQueueingPolicy|null) {
+    if (policy === null) {
+      this.callQueue.setPolicy(DEFAULT_CALL_QUEUEING_POLICY);
+      return;
+    }
+    checkCallQueueingPolicy(policy);
+    this.callQueue.setPolicy(policy);
+  }
+
+  /**
+   * Sets how the initialization is attempted again after a transient failure,
+   * or null to restore the default policy, never attempting again.
+   */
+  setRetryPolicy(policy: RetryPolicy|null) {
+    if (policy === null) {
+      this.retryPolicy = DEFAULT_RETRY_POLICY;
+      return;
+    }
+    checkRetryPolicy(policy);
+    this.retryPolicy = policy;
+  }
+
+  /**
+   * Sets how the ID tokens returned by the retrieve and hint requests are
+   * inspected: nonces are generated for the requested token providers, and
+   * the claims of the returned token are checked against them and attached to
+   * the credential. Null returns the tokens as is.
+   */
+  setIdTokenPolicy(policy: IdTokenPolicy|null) {
+    if (policy !== null) {
+      checkIdTokenPolicy(policy);
+    }
+    this.idTokenPolicy = policy;
+  }
+
+  addEventListener(listener: LifecycleEventListener) {
+    this.events.addListener(listener);
+  }
+
+  removeEventListener(listener: LifecycleEventListener) {
+    this.events.removeListener(listener);
+  }
+
+  /**
+   * Initializes the API ahead of its first call, after adding preconnect hints
+   * for the providers. The calls made afterwards reuse the prepared instance,
+   * their timeouts only applying to the requests themselves. Like for the
+   * calls, a failed initialization is attempted again on the next one.
+   */
+  async prepare(options: PrepareOptions = {}): Promise<void> {
+    let timeout: number;
+    if (options.timeout !== undefined) {
+      checkTimeout(options.timeout);
+      timeout = options.timeout;
+    } else {
+      timeout = this.getPrepareTimeout(options.preloadRequest);
+    }
+    if (options.signal && options.signal.aborted) {
+      throw OpenYoloInternalError.operationCanceled().toExposedError();
+    }
+    addPreconnectHints(
+        document, this.providers.map((provider) => provider.urlBase));
+    await raceAbortSignal(
+        this.init(timeout, 'prepare', options.preloadRequest), options.signal);
+  }
+
+  signIn(options: SignInOptions): Promise<SignInResult> {
+    return signIn(this, options);
+  }
+
+  signOut(callOptions?: CallOptions): Promise<void> {
+    return signOut(this, callOptions);
+  }
+
+  bindForm(form: HTMLFormElement, options?: FormBinderOptions): FormBinder {
+    return new FormBinder(form, this, options);
+  }
+
   reset() {
+    this.provider = null;
     if (!this.implPromise) {
       return;
     }
@@ -509,15 +1134,36 @@ export class InitializeOnDemandApi implements OnDemandOpenYoloApi {
     });
   }
 
-  private init(timeoutRacer: TimeoutRacer, preloadRequest?: PreloadRequest):
-      Promise<OpenYoloWithTimeoutApi> {
+  getProvider(): string|null {
+    return this.provider;
+  }
+
+  private init(
+      initializationTimeoutMs: number,
+      operation: InitializingOperation,
+      preloadRequest?: PreloadRequest): Promise<OpenYoloWithTimeoutApi> {
     if (!this.implPromise) {
-      this.implPromise = InitializeOnDemandApi.createOpenYoloApi(
-          timeoutRacer,
-          this.providerUrlBase,
-          this.featuresToEnable,
-          this.renderMode,
-          preloadRequest);
+      const implPromise = this.initWithFallback(
+                                  initializationTimeoutMs,
+                                  operation,
+                                  preloadRequest,
+                                  () => {
+                                    // The closed container cannot be reused, so
+                                    // the next request will initialize a new
+                                    // one.
+                                    if (this.implPromise === implPromise) {
+                                      this.reset();
+                                    }
+                                  })
+                              .then(({impl, provider}) => {
+                                // An instance reset in the meantime is no
+                                // longer served.
+                                if (this.implPromise === implPromise) {
+                                  this.provider = provider;
+                                }
+                                return impl;
+                              });
+      this.implPromise = implPromise;
     }
     this.implPromise.catch((e) => {
       // If the initialization failed, reset so the next call could work.
@@ -526,64 +1172,334 @@ export class InitializeOnDemandApi implements OnDemandOpenYoloApi {
     return this.implPromise;
   }
 
-  private startCustomTimeoutRacer(defaultTimeoutMs: number): TimeoutRacer {
-    return startTimeoutRacer(
-        this.customTimeoutsMs !== null ? this.customTimeoutsMs :
-                                         defaultTimeoutMs);
+  /**
+   * Initializes the API with the first provider of the list that succeeds,
+   * starting with the one chosen earlier in the session, if any. The next
+   * provider is only tried after the failures listed in
+   * PROVIDER_FALLBACK_ERROR_CODES, each provider having its own
+   * initialization timeout.
+   */
+  private async initWithFallback(
+      initializationTimeoutMs: number,
+      operation: InitializingOperation,
+      preloadRequest: PreloadRequest|undefined,
+      onContainerClose: () => void):
+      Promise<{impl: OpenYoloWithTimeoutApi, provider: string}> {
+    const providers = this.getOrderedProviders();
+    for (let i = 0; i < providers.length; i++) {
+      try {
+        const impl = await this.initWithRetries(
+            providers[i],
+            initializationTimeoutMs,
+            operation,
+            preloadRequest,
+            onContainerClose);
+        return {impl, provider: providers[i].urlBase};
+      } catch (e) {
+        if (i === providers.length - 1 ||
+            !hasInitializationErrorCode(e, PROVIDER_FALLBACK_ERROR_CODES)) {
+          throw e;
+        }
+      }
+    }
+    throw OpenYoloInternalError.illegalStateError('No provider is configured.')
+        .toExposedError();
+  }
+
+  /**
+   * Initializes the API with the given provider, attempting again after the
+   * retryable errors of the retry policy. The attempts and the delays between
+   * them all run within the initialization timeout.
+   */
+  private async initWithRetries(
+      providerEndpoint: ProviderEndpoint,
+      initializationTimeoutMs: number,
+      operation: InitializingOperation,
+      preloadRequest: PreloadRequest|undefined,
+      onContainerClose: () => void): Promise<OpenYoloWithTimeoutApi> {
+    const policy = this.retryPolicy;
+    const provider = providerEndpoint.urlBase;
+    // A timeout of 0 disables the deadline.
+    const deadline = initializationTimeoutMs > 0 ?
+        Date.now() + initializationTimeoutMs :
+        Infinity;
+    let attempt = 0;
+    while (true) {
+      attempt++;
+      const startTime = Date.now();
+      this.events.emit({
+        type: LifecycleEventType.initializationStarted,
+        operation,
+        provider,
+        attempt
+      });
+      const timeoutRacer =
+          startTimeoutRacer(getAttemptTimeout(policy, deadline - startTime));
+      try {
+        const impl = await InitializeOnDemandApi.createOpenYoloApi(
+            timeoutRacer,
+            provider,
+            providerEndpoint.features || this.featuresToEnable,
+            this.renderMode,
+            preloadRequest,
+            onContainerClose,
+            this.events,
+            this.inlineContainer,
+            this.frameStyleConfig);
+        this.events.emit({
+          type: LifecycleEventType.channelConnected,
+          operation,
+          provider,
+          attempt,
+          duration: Date.now() - startTime
+        });
+        rememberProvider(provider);
+        return impl;
+      } catch (e) {
+        this.events.emit({
+          type: LifecycleEventType.initializationFailed,
+          operation,
+          provider,
+          attempt,
+          duration: Date.now() - startTime,
+          errorType: e && e['type']
+        });
+        const retryDelay = computeRetryDelay(policy, attempt);
+        if (attempt >= policy.maxAttempts ||
+            !hasInitializationErrorCode(e, getRetryableErrors(policy)) ||
+            Date.now() + retryDelay >= deadline) {
+          throw e;
+        }
+        this.events.emit({
+          type: LifecycleEventType.initializationRetrying,
+          operation,
+          provider,
+          attempt: attempt + 1,
+          retryDelay
+        });
+        await wait(retryDelay);
+      } finally {
+        timeoutRacer.stop();
+      }
+    }
+  }
+
+  /**
+   * Returns the providers in the order they should be tried, the one chosen
+   * earlier in the session first.
+   */
+  private getOrderedProviders(): ProviderEndpoint[] {
+    const chosenProvider = getRememberedProvider();
+    const chosen = this.providers.filter(
+        (provider) => provider.urlBase === chosenProvider);
+    const others = this.providers.filter(
+        (provider) => provider.urlBase !== chosenProvider);
+    return chosen.concat(others);
+  }
+
+  /**
+   * Returns the timeouts of the given operation, from the call options, the
+   * custom timeouts or the default ones in order of precedence.
+   */
+  private getTimeouts(operation: keyof OpenYoloApi, callOptions?: CallOptions):
+      ResolvedTimeouts {
+    let callTimeouts: TimeoutBudget = {};
+    if (callOptions && callOptions.timeouts !== undefined) {
+      checkTimeoutOrBudget(callOptions.timeouts);
+      callTimeouts = toTimeoutBudget(callOptions.timeouts);
+    }
+    let customTimeouts: TimeoutBudget = {};
+    if (typeof this.customTimeouts === 'number') {
+      customTimeouts = toTimeoutBudget(this.customTimeouts);
+    } else if (
+        this.customTimeouts && this.customTimeouts[operation] !== undefined) {
+      customTimeouts = toTimeoutBudget(this.customTimeouts[operation]!);
+    }
+    return {
+      initialization: firstDefined(
+          callTimeouts.initialization,
+          customTimeouts.initialization,
+          DEFAULT_INITIALIZATION_TIMEOUT_MS),
+      request: firstDefined(
+          callTimeouts.request,
+          customTimeouts.request,
+          DEFAULT_TIMEOUTS[operation])
+    };
   }
 
-  async hintsAvailable(options: OpenYoloCredentialHintOptions):
-      Promise<boolean> {
-    const timeoutRacer =
-        this.startCustomTimeoutRacer(DEFAULT_TIMEOUTS.hintsAvailable);
-    const preloadRequest = {type: PreloadRequestType.hint, options};
-    const impl = await this.init(timeoutRacer, preloadRequest);
-    return await impl.hintsAvailable(options, timeoutRacer);
+  /**
+   * Returns the initialization timeout of the preparation: the one of the
+   * request expected first, or the longest one of all the operations, as the
+   * next call is unknown. 0 disables the timeout.
+   */
+  private getPrepareTimeout(preloadRequest?: PreloadRequest): number {
+    const operations: Array<keyof OpenYoloApi> = preloadRequest ?
+        [preloadRequest.type === PreloadRequestType.hint ? 'hint' :
+                                                           'retrieve'] :
+        Object.keys(DEFAULT_TIMEOUTS) as Array<keyof OpenYoloApi>;
+    const timeouts = operations.map(
+        (operation) => this.getTimeouts(operation).initialization);
+    return timeouts.indexOf(0) !== -1 ? 0 : Math.max.apply(Math, timeouts);
   }
 
-  async hint(options: OpenYoloCredentialHintOptions):
-      Promise<OpenYoloCredential> {
-    const preloadRequest = {type: PreloadRequestType.hint, options};
-    const timeoutRacer = this.startCustomTimeoutRacer(DEFAULT_TIMEOUTS.hint);
-    const impl = await this.init(timeoutRacer, preloadRequest);
-    return await impl.hint(options, timeoutRacer);
+  /**
+   * Schedules the call of the operation according to the queueing policy.
+   */
+  private schedule<T>(
+      operation: keyof OpenYoloApi,
+      callOptions: CallOptions|undefined,
+      run: () => Promise<T>,
+      coalescingKey?: string): Promise<T> {
+    return this.callQueue.schedule({
+      run,
+      interactive: NON_INTERACTIVE_OPERATIONS.indexOf(operation) === -1,
+      coalescingKey,
+      signal: callOptions && callOptions.signal
+    });
+  }
+
+  /**
+   * Initializes the API within the initialization timeout, and starts the
+   * timeout of the request once initialized. Aborting the signal of the call
+   * rejects without waiting for the initialization, which still completes for
+   * the next calls.
+   */
+  private async initWithTimeouts(
+      operation: keyof OpenYoloApi,
+      timeouts: ResolvedTimeouts,
+      signal?: AbortSignalLike,
+      preloadRequest?: PreloadRequest):
+      Promise<{impl: OpenYoloWithTimeoutApi, timeoutRacer: TimeoutRacer}> {
+    if (signal && signal.aborted) {
+      throw OpenYoloInternalError.operationCanceled().toExposedError();
+    }
+    const impl = await raceAbortSignal(
+        this.init(timeouts.initialization, operation, preloadRequest), signal);
+    return {impl, timeoutRacer: startTimeoutRacer(timeouts.request)};
+  }
+
+  hintsAvailable(
+      options: OpenYoloCredentialHintOptions,
+      callOptions?: CallOptions): Promise<boolean> {
+    // Identical calls share their result, unless they can be aborted.
+    const coalescingKey = callOptions && callOptions.signal ?
+        undefined :
+        `hintsAvailable:${JSON.stringify(options)}`;
+    return this.schedule('hintsAvailable', callOptions, async () => {
+      const timeouts = this.getTimeouts('hintsAvailable', callOptions);
+      const signal = callOptions && callOptions.signal;
+      const preloadRequest = {type: PreloadRequestType.hint, options};
+      const {impl, timeoutRacer} = await this.initWithTimeouts(
+          'hintsAvailable', timeouts, signal, preloadRequest);
+      return await impl.hintsAvailable(options, timeoutRacer, signal);
+    }, coalescingKey);
   }
 
-  async retrieve(options: OpenYoloCredentialRequestOptions):
+  hint(options: OpenYoloCredentialHintOptions, callOptions?: CallOptions):
       Promise<OpenYoloCredential> {
-    const preloadRequest = {type: PreloadRequestType.retrieve, options};
-    const timeoutRacer =
-        this.startCustomTimeoutRacer(DEFAULT_TIMEOUTS.retrieve);
-    const impl = await this.init(timeoutRacer, preloadRequest);
-    return impl.retrieve(options, timeoutRacer);
+    return this.schedule('hint', callOptions, async () => {
+      const policy = this.idTokenPolicy;
+      const requestOptions = {...options};
+      if (policy) {
+        requestOptions.supportedIdTokenProviders =
+            addNonces(options.supportedIdTokenProviders, policy);
+      }
+      const preloadRequest = {
+        type: PreloadRequestType.hint,
+        options: requestOptions
+      };
+      const timeouts = this.getTimeouts('hint', callOptions);
+      const signal = callOptions && callOptions.signal;
+      const {impl, timeoutRacer} =
+          await this.initWithTimeouts('hint', timeouts, signal, preloadRequest);
+      const credential = await impl.hint(requestOptions, timeoutRacer, signal);
+      return policy ?
+          attachIdTokenClaims(
+              credential, requestOptions.supportedIdTokenProviders, policy) :
+          credential;
+    });
   }
 
-  async save(credential: OpenYoloCredential): Promise<void> {
-    const timeoutRacer = this.startCustomTimeoutRacer(DEFAULT_TIMEOUTS.save);
-    const impl = await this.init(timeoutRacer);
-    return impl.save(credential, timeoutRacer);
+  retrieve(
+      options: OpenYoloCredentialRequestOptions,
+      callOptions?: CallOptions): Promise<OpenYoloCredential> {
+    return this.schedule('retrieve', callOptions, async () => {
+      const policy = this.idTokenPolicy;
+      const requestOptions = {...options};
+      if (policy) {
+        requestOptions.supportedIdTokenProviders =
+            addNonces(options.supportedIdTokenProviders, policy);
+      }
+      const preloadRequest = {
+        type: PreloadRequestType.retrieve,
+        options: requestOptions
+      };
+      const timeouts = this.getTimeouts('retrieve', callOptions);
+      const signal = callOptions && callOptions.signal;
+      const {impl, timeoutRacer} = await this.initWithTimeouts(
+          'retrieve', timeouts, signal, preloadRequest);
+      const credential =
+          await impl.retrieve(requestOptions, timeoutRacer, signal);
+      return policy ?
+          attachIdTokenClaims(
+              credential, requestOptions.supportedIdTokenProviders, policy) :
+          credential;
+    });
+  }
+
+  save(credential: OpenYoloCredential, callOptions?: CallOptions):
+      Promise<void> {
+    return this.schedule('save', callOptions, async () => {
+      const timeouts = this.getTimeouts('save', callOptions);
+      const signal = callOptions && callOptions.signal;
+      const {impl, timeoutRacer} =
+          await this.initWithTimeouts('save', timeouts, signal);
+      return impl.save(credential, timeoutRacer, signal);
+    });
+  }
+
+  deleteCredential(credential: OpenYoloCredential, callOptions?: CallOptions):
+      Promise<void> {
+    return this.schedule('deleteCredential', callOptions, async () => {
+      const timeouts = this.getTimeouts('deleteCredential', callOptions);
+      const signal = callOptions && callOptions.signal;
+      const {impl, timeoutRacer} =
+          await this.initWithTimeouts('deleteCredential', timeouts, signal);
+      return impl.deleteCredential(credential, timeoutRacer, signal);
+    });
   }
 
-  async disableAutoSignIn(): Promise<void> {
-    const timeoutRacer =
-        this.startCustomTimeoutRacer(DEFAULT_TIMEOUTS.disableAutoSignIn);
-    const impl = await this.init(timeoutRacer);
-    return impl.disableAutoSignIn(timeoutRacer);
+  disableAutoSignIn(callOptions?: CallOptions): Promise<void> {
+    return this.schedule('disableAutoSignIn', callOptions, async () => {
+      const timeouts = this.getTimeouts('disableAutoSignIn', callOptions);
+      const signal = callOptions && callOptions.signal;
+      const {impl, timeoutRacer} =
+          await this.initWithTimeouts('disableAutoSignIn', timeouts, signal);
+      return impl.disableAutoSignIn(timeoutRacer, signal);
+    });
   }
 
-  async proxyLogin(credential: OpenYoloCredential):
+  proxyLogin(credential: OpenYoloCredential, callOptions?: CallOptions):
       Promise<OpenYoloProxyLoginResponse> {
-    const timeoutRacer =
-        this.startCustomTimeoutRacer(DEFAULT_TIMEOUTS.proxyLogin);
-    const impl = await this.init(timeoutRacer);
-    return impl.proxyLogin(credential, timeoutRacer);
+    return this.schedule('proxyLogin', callOptions, async () => {
+      const timeouts = this.getTimeouts('proxyLogin', callOptions);
+      const signal = callOptions && callOptions.signal;
+      const {impl, timeoutRacer} =
+          await this.initWithTimeouts('proxyLogin', timeouts, signal);
+      return impl.proxyLogin(credential, timeoutRacer, signal);
+    });
   }
 
-  async cancelLastOperation(): Promise<void> {
-    const timeoutRacer =
-        this.startCustomTimeoutRacer(DEFAULT_TIMEOUTS.cancelLastOperation);
-    const impl = await this.init(timeoutRacer);
-    return impl.cancelLastOperation(timeoutRacer);
+  /**
+   * Cancels the last operation immediately, without waiting for the queued
+   * calls.
+   */
+  async cancelLastOperation(callOptions?: CallOptions): Promise<void> {
+    const timeouts = this.getTimeouts('cancelLastOperation', callOptions);
+    const signal = callOptions && callOptions.signal;
+    const {impl, timeoutRacer} =
+        await this.initWithTimeouts('cancelLastOperation', timeouts, signal);
+    return impl.cancelLastOperation(timeoutRacer, signal);
   }
 }
 
@@ -596,10 +1512,37 @@ export class FakeOpenYoloApi implements OnDemandOpenYoloApi {
 
   setProviderUrlBase(providerUrlBase: string) {}
   setFeatureConfig(featuresToEnable: string[]) {}
-  setRenderMode(renderMode: RenderMode|null) {}
-  setTimeouts(timeout: number): void {}
+  setProviders(providers: ProviderEndpoint[]) {}
+  setRenderMode(renderMode: RenderMode|null, container?: HTMLElement|string) {}
+  setFrameStyle(config: FrameStyleConfig|null) {}
+  setTimeouts(timeouts: number|OperationTimeouts|null): void {}
+  setCallQueueingPolicy(policy: CallQueueingPolicy|null): void {}
+  setRetryPolicy(policy: RetryPolicy|null): void {}
+  setIdTokenPolicy(policy: IdTokenPolicy|null): void {}
+  addEventListener(listener: LifecycleEventListener) {}
+  removeEventListener(listener: LifecycleEventListener) {}
   reset() {}
 
+  getProvider(): string|null {
+    return null;
+  }
+
+  prepare(options?: PrepareOptions): Promise<void> {
+    return this.unsupportedBrowserPromise;
+  }
+
+  signIn(options: SignInOptions): Promise<SignInResult> {
+    return this.unsupportedBrowserPromise;
+  }
+
+  signOut(callOptions?: CallOptions): Promise<void> {
+    return this.unsupportedBrowserPromise;
+  }
+
+  bindForm(form: HTMLFormElement, options?: FormBinderOptions): FormBinder {
+    return new FormBinder(form, this, options);
+  }
+
   hintsAvailable(options: OpenYoloCredentialHintOptions): Promise<boolean> {
     return this.unsupportedBrowserPromise;
   }
@@ -617,6 +1560,10 @@ export class FakeOpenYoloApi implements OnDemandOpenYoloApi {
     return this.unsupportedBrowserPromise;
   }
 
+  deleteCredential(credential: OpenYoloCredential): Promise<void> {
+    return this.unsupportedBrowserPromise;
+  }
+
   disableAutoSignIn(): Promise<void> {
     return this.unsupportedBrowserPromise;
   }
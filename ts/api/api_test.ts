@@ -14,19 +14,24 @@
  * limitations under the License.
  */
 
-import {OpenYoloCredential, OpenYoloCredentialHintOptions, OpenYoloCredentialRequestOptions, OpenYoloProxyLoginResponse, RequestContext} from '../protocol/data';
-import {OpenYoloInternalError} from '../protocol/errors';
+import {OpenYoloCredential, OpenYoloCredentialHintOptions, OpenYoloCredentialRequestOptions, OpenYoloProxyLoginResponse, RenderMode, RequestContext} from '../protocol/data';
+import {InternalErrorCode, OpenYoloError, OpenYoloErrorType, OpenYoloInternalError} from '../protocol/errors';
+import {PreloadRequestType} from '../protocol/preload_request';
 import {SecureChannel} from '../protocol/secure_channel';
-import {PromiseResolver, TimeoutRacer} from '../protocol/utils';
+import {PromiseResolver, startTimeoutRacer, TimeoutRacer} from '../protocol/utils';
+import {FakeAbortController} from '../test_utils/abort';
 
 import {FakeOpenYoloApi, InitializeOnDemandApi, isCompatibleBrowser, OnDemandOpenYoloApi, openyolo, OpenYoloApi, OpenYoloApiImpl, OpenYoloWithTimeoutApi} from './api';
 import {RelayRequest} from './base_request';
+import {CallQueueingMode} from './call_queue';
 import {CancelLastOperationRequest} from './cancel_last_operation_request';
+import {CredentialDelete} from './credential_delete';
 import {CredentialRequest} from './credential_request';
 import {CredentialSave} from './credential_save';
 import {DisableAutoSignIn} from './disable_auto_sign_in';
 import {HintAvailableRequest} from './hint_available_request';
 import {HintRequest} from './hint_request';
+import {LifecycleEvent, LifecycleEventEmitter, LifecycleEventType} from './lifecycle_events';
 import {ProviderFrameElement} from './provider_frame_elem';
 import {ProxyLogin} from './proxy_login';
 
@@ -38,6 +43,82 @@ describe('OpenYolo API', () => {
   const secureChannelSpy =
       jasmine.createSpyObj('SecureChannel', ['send', 'listen', 'dispose']);
 
+  describe('setCallQueueingPolicy', () => {
+    afterEach(() => {
+      openyolo.setCallQueueingPolicy(null);
+    });
+
+    it('throws on an invalid policy', () => {
+      expect(() => {
+        openyolo.setCallQueueingPolicy({mode: 'unknown'} as any);
+      }).toThrowError(/Invalid queueing policy/);
+    });
+  });
+
+  describe('setRenderMode', () => {
+    afterEach(() => {
+      openyolo.setRenderMode(null);
+    });
+
+    it('requires a container in the inline render mode', () => {
+      expect(() => {
+        openyolo.setRenderMode(RenderMode.inline);
+      }).toThrowError(/Invalid container/);
+    });
+
+    it('passes the inline container to the initialization', (done) => {
+      const createSpy = spyOn(InitializeOnDemandApi, 'createOpenYoloApi')
+                            .and.returnValue(Promise.reject(expectedError));
+      openyolo.setRenderMode(RenderMode.inline, '#sign-in');
+      openyolo.cancelLastOperation().catch(() => {
+        expect(createSpy.calls.mostRecent().args[3]).toEqual(RenderMode.inline);
+        expect(createSpy.calls.mostRecent().args[7]).toEqual('#sign-in');
+        done();
+      });
+    });
+
+    it('fails if the inline container is not found', (done) => {
+      InitializeOnDemandApi
+          .createOpenYoloApi(
+              startTimeoutRacer(0),
+              'https://provider.openyolo.org',
+              [],
+              RenderMode.inline,
+              undefined,
+              undefined,
+              undefined,
+              '#missing')
+          .then(
+              () => {
+                done.fail('Should not resolve!');
+              },
+              (error) => {
+                expect(error.type)
+                    .toEqual(OpenYoloErrorType.configurationError);
+                expect(error.message).toContain('containerNotFound');
+                done();
+              });
+    });
+
+    it('fails with an exposed error if the popup is blocked', (done) => {
+      spyOn(window, 'open').and.returnValue(null);
+      InitializeOnDemandApi
+          .createOpenYoloApi(
+              startTimeoutRacer(0),
+              'https://provider.openyolo.org',
+              [],
+              RenderMode.popup)
+          .then(
+              () => {
+                done.fail('Should not resolve!');
+              },
+              (error) => {
+                expect(error.type).toEqual(OpenYoloErrorType.popupBlocked);
+                done();
+              });
+    });
+  });
+
   describe('setTimeouts', () => {
     it('raises an error if given a negative number', () => {
       expect(() => {
@@ -59,6 +140,27 @@ describe('OpenYolo API', () => {
       openyolo.setTimeouts(1);
       expect(openyolo.reset).not.toHaveBeenCalled();
     });
+
+    it('accepts a map of operation to timeouts', () => {
+      openyolo.setTimeouts(
+          {proxyLogin: 20000, hint: {initialization: 5000, request: 0}});
+      openyolo.setTimeouts(null);
+    });
+
+    it('raises an error if given an unknown operation', () => {
+      expect(() => {
+        openyolo.setTimeouts({unknown: 1000} as any);
+      }).toThrowError();
+    });
+
+    it('raises an error if given an invalid budget', () => {
+      expect(() => {
+        openyolo.setTimeouts({hint: {request: -1}});
+      }).toThrowError();
+      expect(() => {
+        openyolo.setTimeouts({hint: 'fast'} as any);
+      }).toThrowError();
+    });
   });
 
   describe('initialization', () => {
@@ -71,6 +173,7 @@ describe('OpenYolo API', () => {
         'hint',
         'retrieve',
         'save',
+        'deleteCredential',
         'proxyLogin',
         'disableAutoSignIn',
         'cancelLastOperation',
@@ -100,6 +203,28 @@ describe('OpenYolo API', () => {
           .then(done);
     });
 
+    it('initializes again once the container is closed', (done) => {
+      spyOn(InitializeOnDemandApi, 'createOpenYoloApi')
+          .and.returnValue(Promise.resolve(openYoloApiImplSpy));
+      openYoloApiImplSpy.cancelLastOperation.and.returnValue(Promise.resolve());
+      openyolo.cancelLastOperation()
+          .then(() => {
+            const createSpy =
+                InitializeOnDemandApi.createOpenYoloApi as jasmine.Spy;
+            expect(createSpy).toHaveBeenCalledTimes(1);
+            // Simulate the user closing the container.
+            const onContainerClose = createSpy.calls.mostRecent().args[5];
+            onContainerClose();
+            return openyolo.cancelLastOperation();
+          })
+          .then(() => {
+            expect(InitializeOnDemandApi.createOpenYoloApi)
+                .toHaveBeenCalledTimes(2);
+            openyolo.reset();
+            done();
+          });
+    });
+
     it('secure channel connection fails', (done) => {
       spyOn(SecureChannel, 'clientConnect')
           .and.returnValue(Promise.reject(expectedError));
@@ -170,6 +295,67 @@ describe('OpenYolo API', () => {
         // Does not matter, too late.
         promiseResolver.resolve(secureChannelSpy);
       });
+
+      it('keeps the requestTimeout code when the initialization times out',
+         (done) => {
+           const promiseResolver = new PromiseResolver<void>();
+           spyOn(SecureChannel, 'clientConnect')
+               .and.returnValue(promiseResolver.promise);
+           openyolo.setTimeouts(
+               {cancelLastOperation: {initialization: 100, request: 0}});
+           openyolo.cancelLastOperation().then(
+               () => {
+                 done.fail('Should not resolve!');
+               },
+               (error) => {
+                 expect(error.type).toEqual(OpenYoloErrorType.requestFailed);
+                 expect(error.message).toMatch(/^requestTimeout: /);
+                 expect(error.message).toContain('while initializing');
+                 openyolo.reset();
+                 done();
+               });
+           jasmine.clock().tick(100);
+           promiseResolver.resolve(secureChannelSpy);
+         });
+
+      it('starts the request timeout once initialized', (done) => {
+        spyOn(SecureChannel, 'clientConnect')
+            .and.returnValue(Promise.resolve(secureChannelSpy));
+        let timeoutExpired = false;
+        spyOn(CancelLastOperationRequest.prototype, 'dispatch')
+            .and.callFake((options: undefined, timeoutRacer: TimeoutRacer) => {
+              Promise.resolve().then(() => {
+                jasmine.clock().tick(199);
+                timeoutExpired = true;
+                jasmine.clock().tick(1);
+              });
+              return timeoutRacer.race(new Promise(() => {}));
+            });
+        openyolo.setTimeouts({cancelLastOperation: 50});
+        // The per-call timeout overrides the custom one.
+        openyolo.cancelLastOperation({timeouts: {request: 200}})
+            .then(
+                () => {
+                  done.fail('Should not resolve!');
+                },
+                (error) => {
+                  expect(timeoutExpired).toBe(true);
+                  openyolo.reset();
+                  done();
+                });
+      });
+
+      it('rejects an invalid per-call timeout', (done) => {
+        openyolo.cancelLastOperation({timeouts: -1})
+            .then(
+                () => {
+                  done.fail('Should not resolve!');
+                },
+                (error) => {
+                  expect(error).toEqual(jasmine.any(Error));
+                  done();
+                });
+      });
     });
 
     describe('successful initialization', () => {
@@ -182,7 +368,7 @@ describe('OpenYolo API', () => {
         openYoloApiImplSpy.disableAutoSignIn.and.returnValue(Promise.resolve());
         openyolo.disableAutoSignIn().then(() => {
           expect(openYoloApiImplSpy.disableAutoSignIn)
-              .toHaveBeenCalledWith(jasmine.any(Object));
+              .toHaveBeenCalledWith(jasmine.any(Object), undefined);
           done();
         });
       });
@@ -195,7 +381,7 @@ describe('OpenYolo API', () => {
         openyolo.hintsAvailable(options).then((result) => {
           expect(result).toBe(true);
           expect(openYoloApiImplSpy.hintsAvailable)
-              .toHaveBeenCalledWith(options, jasmine.any(Object));
+              .toHaveBeenCalledWith(options, jasmine.any(Object), undefined);
           done();
         });
       });
@@ -209,7 +395,7 @@ describe('OpenYolo API', () => {
         openyolo.hint(options).then((cred) => {
           expect(cred).toBe(credential);
           expect(openYoloApiImplSpy.hint)
-              .toHaveBeenCalledWith(options, jasmine.any(Object));
+              .toHaveBeenCalledWith(options, jasmine.any(Object), undefined);
           done();
         });
       });
@@ -222,11 +408,74 @@ describe('OpenYolo API', () => {
         openyolo.retrieve(options).then((cred) => {
           expect(cred).toBe(credential);
           expect(openYoloApiImplSpy.retrieve)
-              .toHaveBeenCalledWith(options, jasmine.any(Object));
+              .toHaveBeenCalledWith(options, jasmine.any(Object), undefined);
           done();
         });
       });
 
+      describe('ID token policy', () => {
+        const provider = {uri: 'https://accounts.google.com', clientId: 'id'};
+
+        afterEach(() => {
+          openyolo.setIdTokenPolicy(null);
+        });
+
+        it('binds a nonce and attaches the claims', async function(done) {
+          openyolo.setIdTokenPolicy({});
+          openYoloApiImplSpy.hint.and.callFake(
+              (options: OpenYoloCredentialHintOptions) => {
+                const claims = {
+                  iss: provider.uri,
+                  aud: provider.clientId,
+                  nonce: options.supportedIdTokenProviders![0].nonce,
+                  exp: Date.now() / 1000 + 60,
+                  iat: Date.now() / 1000
+                };
+                const idToken = `header.${btoa(JSON.stringify(claims))}.sig`;
+                return Promise.resolve({...credential, idToken});
+              });
+          const options: OpenYoloCredentialHintOptions = {
+            supportedAuthMethods: [],
+            supportedIdTokenProviders: [provider]
+          };
+          const cred = await openyolo.hint(options);
+          const nonce = cred.idTokenClaims!.nonce;
+          expect(nonce).toMatch(/^[0-9a-f]+$/);
+          expect(openYoloApiImplSpy.hint)
+              .toHaveBeenCalledWith(
+                  {
+                    ...options,
+                    supportedIdTokenProviders: [{...provider, nonce}]
+                  },
+                  jasmine.any(Object),
+                  undefined);
+          expect(options.supportedIdTokenProviders![0].nonce).toBeUndefined();
+          done();
+        });
+
+        it('rejects an invalid ID token', async function(done) {
+          openyolo.setIdTokenPolicy({});
+          openYoloApiImplSpy.retrieve.and.returnValue(
+              Promise.resolve({...credential, idToken: 'invalid'}));
+          try {
+            await openyolo.retrieve({
+              supportedAuthMethods: [],
+              supportedIdTokenProviders: [provider]
+            });
+            done.fail('Should not resolve!');
+          } catch (e) {
+            expect(e.type).toEqual(OpenYoloErrorType.requestFailed);
+            done();
+          }
+        });
+
+        it('rejects an invalid policy', () => {
+          expect(() => openyolo.setIdTokenPolicy({
+            clockSkewSeconds: -1
+          })).toThrowError(/^Invalid ID token policy/);
+        });
+      });
+
       it('proxyLogin', (done) => {
         const expectedResponse: OpenYoloProxyLoginResponse = {
           statusCode: 200,
@@ -237,7 +486,7 @@ describe('OpenYolo API', () => {
         openyolo.proxyLogin(credential).then((response) => {
           expect(response).toBe(expectedResponse);
           expect(openYoloApiImplSpy.proxyLogin)
-              .toHaveBeenCalledWith(credential, jasmine.any(Object));
+              .toHaveBeenCalledWith(credential, jasmine.any(Object), undefined);
           done();
         });
       });
@@ -246,7 +495,16 @@ describe('OpenYolo API', () => {
         openYoloApiImplSpy.save.and.returnValue(Promise.resolve());
         openyolo.save(credential).then(() => {
           expect(openYoloApiImplSpy.save)
-              .toHaveBeenCalledWith(credential, jasmine.any(Object));
+              .toHaveBeenCalledWith(credential, jasmine.any(Object), undefined);
+          done();
+        });
+      });
+
+      it('deleteCredential', (done) => {
+        openYoloApiImplSpy.deleteCredential.and.returnValue(Promise.resolve());
+        openyolo.deleteCredential(credential).then(() => {
+          expect(openYoloApiImplSpy.deleteCredential)
+              .toHaveBeenCalledWith(credential, jasmine.any(Object), undefined);
           done();
         });
       });
@@ -256,11 +514,573 @@ describe('OpenYolo API', () => {
             Promise.resolve());
         openyolo.cancelLastOperation().then(() => {
           expect(openYoloApiImplSpy.cancelLastOperation)
-              .toHaveBeenCalledWith(jasmine.any(Object));
+              .toHaveBeenCalledWith(jasmine.any(Object), undefined);
+          done();
+        });
+      });
+
+      describe('queueing policy', () => {
+        beforeEach(() => {
+          openyolo.setCallQueueingPolicy({mode: CallQueueingMode.queue});
+        });
+
+        afterEach(() => {
+          openyolo.setCallQueueingPolicy(null);
+        });
+
+        it('queues the concurrent calls', async function(done) {
+          const retrieveResolver = new PromiseResolver<OpenYoloCredential>();
+          openYoloApiImplSpy.retrieve.and.returnValue(retrieveResolver.promise);
+          openYoloApiImplSpy.save.and.returnValue(Promise.resolve());
+          const retrievePromise = openyolo.retrieve({supportedAuthMethods: []});
+          const savePromise = openyolo.save(credential);
+          for (let i = 0; i < 10; i++) {
+            await Promise.resolve();
+          }
+          expect(openYoloApiImplSpy.retrieve).toHaveBeenCalled();
+          expect(openYoloApiImplSpy.save).not.toHaveBeenCalled();
+
+          retrieveResolver.resolve(credential);
+          await retrievePromise;
+          await savePromise;
+          expect(openYoloApiImplSpy.save).toHaveBeenCalled();
+          done();
+        });
+
+        it('shares the result of identical hintsAvailable calls',
+           async function(done) {
+             const options:
+                 OpenYoloCredentialHintOptions = {supportedAuthMethods: []};
+             openYoloApiImplSpy.hintsAvailable.and.returnValue(
+                 Promise.resolve(true));
+             const results = await Promise.all([
+               openyolo.hintsAvailable(options),
+               openyolo.hintsAvailable(options)
+             ]);
+             expect(results).toEqual([true, true]);
+             expect(openYoloApiImplSpy.hintsAvailable).toHaveBeenCalledTimes(1);
+             done();
+           });
+
+        it('queues disableAutoSignIn as a non-interactive call',
+           async function(done) {
+             const retrieveResolver = new PromiseResolver<OpenYoloCredential>();
+             const calls: string[] = [];
+             openYoloApiImplSpy.retrieve.and.returnValue(
+                 retrieveResolver.promise);
+             openYoloApiImplSpy.disableAutoSignIn.and.callFake(() => {
+               calls.push('disableAutoSignIn');
+               return Promise.resolve();
+             });
+             openYoloApiImplSpy.save.and.callFake(() => {
+               calls.push('save');
+               return Promise.resolve();
+             });
+             const retrievePromise =
+                 openyolo.retrieve({supportedAuthMethods: []});
+             const disableAutoSignInPromise = openyolo.disableAutoSignIn();
+             const savePromise = openyolo.save(credential);
+
+             retrieveResolver.resolve(credential);
+             await Promise.all(
+                 [retrievePromise, disableAutoSignInPromise, savePromise]);
+             expect(calls).toEqual(['save', 'disableAutoSignIn']);
+             done();
+           });
+      });
+
+      it('passes the abort signal of the call', (done) => {
+        const controller = new FakeAbortController();
+        openYoloApiImplSpy.save.and.returnValue(Promise.resolve());
+        openyolo.save(credential, {signal: controller.signal}).then(() => {
+          expect(openYoloApiImplSpy.save)
+              .toHaveBeenCalledWith(
+                  credential, jasmine.any(Object), controller.signal);
           done();
         });
       });
     });
+
+    describe('lifecycle events', () => {
+      let events: LifecycleEvent[];
+      const listener = (event: LifecycleEvent) => {
+        events.push(event);
+      };
+
+      beforeEach(() => {
+        events = [];
+        openyolo.addEventListener(listener);
+      });
+
+      afterEach(() => {
+        openyolo.removeEventListener(listener);
+        openyolo.reset();
+      });
+
+      it('emits the initialization and the connection', (done) => {
+        spyOn(InitializeOnDemandApi, 'createOpenYoloApi')
+            .and.returnValue(Promise.resolve(openYoloApiImplSpy));
+        openYoloApiImplSpy.cancelLastOperation.and.returnValue(
+            Promise.resolve());
+        openyolo.cancelLastOperation().then(() => {
+          expect(events.map((event) => event.type)).toEqual([
+            LifecycleEventType.initializationStarted,
+            LifecycleEventType.channelConnected
+          ]);
+          expect(events[1].operation).toEqual('cancelLastOperation');
+          expect(events[1].duration).toEqual(jasmine.any(Number));
+          // The containers and requests emit through the same emitter.
+          const createSpy =
+              InitializeOnDemandApi.createOpenYoloApi as jasmine.Spy;
+          expect(createSpy.calls.mostRecent().args[6])
+              .toEqual(jasmine.any(LifecycleEventEmitter));
+          done();
+        });
+      });
+
+      it('emits the failure of the initialization', (done) => {
+        spyOn(InitializeOnDemandApi, 'createOpenYoloApi')
+            .and.returnValue(Promise.reject(
+                OpenYoloInternalError.popupBlocked().toExposedError()));
+        openyolo.cancelLastOperation().then(
+            () => {
+              done.fail('Should not resolve!');
+            },
+            (error) => {
+              expect(events[1].type)
+                  .toEqual(LifecycleEventType.initializationFailed);
+              expect(events[1].errorType).toEqual(error.type);
+              done();
+            });
+      });
+    });
+
+    describe('prepare', () => {
+      let createSpy: jasmine.Spy;
+
+      beforeEach(() => {
+        createSpy = spyOn(InitializeOnDemandApi, 'createOpenYoloApi')
+                        .and.returnValue(Promise.resolve(openYoloApiImplSpy));
+        openYoloApiImplSpy.cancelLastOperation.and.returnValue(
+            Promise.resolve());
+      });
+
+      afterEach(() => {
+        openyolo.reset();
+        const links = document.querySelectorAll('link[rel="preconnect"]');
+        for (let i = 0; i < links.length; i++) {
+          links[i].parentNode!.removeChild(links[i]);
+        }
+      });
+
+      it('initializes the API reused by the next calls', (done) => {
+        const preloadRequest = {
+          type: PreloadRequestType.hint,
+          options: {supportedAuthMethods: ['openyolo://id-and-password']}
+        };
+        openyolo.prepare({preloadRequest})
+            .then(() => {
+              expect(createSpy).toHaveBeenCalledTimes(1);
+              expect(createSpy.calls.mostRecent().args[4]).toBe(preloadRequest);
+              return openyolo.cancelLastOperation();
+            })
+            .then(() => {
+              expect(createSpy).toHaveBeenCalledTimes(1);
+              done();
+            });
+      });
+
+      it('adds a preconnect hint for the provider', (done) => {
+        openyolo.prepare().then(() => {
+          const link = document.querySelector('link[rel="preconnect"]');
+          expect(link!.getAttribute('href'))
+              .toEqual('https://provider.openyolo.org');
+          done();
+        });
+      });
+
+      it('uses the given initialization timeout', (done) => {
+        jasmine.clock().install();
+        createSpy.and.callFake((timeoutRacer: TimeoutRacer) => {
+          return timeoutRacer.race(new Promise(() => {}));
+        });
+        openyolo.prepare({timeout: 100})
+            .then(
+                () => {
+                  done.fail('Should not resolve!');
+                },
+                (error) => {
+                  // Rejected after 100ms rather than the default timeout.
+                  expect(error).toBeDefined();
+                  jasmine.clock().uninstall();
+                  done();
+                });
+        jasmine.clock().tick(100);
+      });
+
+      it('uses the configured initialization timeout', (done) => {
+        jasmine.clock().install();
+        createSpy.and.callFake((timeoutRacer: TimeoutRacer) => {
+          return timeoutRacer.race(new Promise(() => {}));
+        });
+        openyolo.setTimeouts({
+          hint: {initialization: 100, request: 1000},
+          retrieve: {initialization: 5000}
+        });
+        const preloadRequest = {
+          type: PreloadRequestType.hint,
+          options: {supportedAuthMethods: ['openyolo://id-and-password']}
+        };
+        openyolo.prepare({preloadRequest})
+            .then(
+                () => {
+                  done.fail('Should not resolve!');
+                },
+                (error) => {
+                  // Rejected after the initialization timeout of hint.
+                  expect(error).toBeDefined();
+                  openyolo.setTimeouts(null);
+                  jasmine.clock().uninstall();
+                  done();
+                });
+        jasmine.clock().tick(100);
+      });
+
+      it('uses the longest configured initialization timeout by default',
+         async function(done) {
+           jasmine.clock().install();
+           let rejected = false;
+           createSpy.and.callFake((timeoutRacer: TimeoutRacer) => {
+             return timeoutRacer.race(new Promise(() => {}));
+           });
+           openyolo.setTimeouts({retrieve: {initialization: 5000}});
+           openyolo.prepare().catch(() => {
+             rejected = true;
+           });
+           jasmine.clock().tick(4999);
+           for (let i = 0; i < 10; i++) {
+             await Promise.resolve();
+           }
+           expect(rejected).toBe(false);
+           jasmine.clock().tick(1);
+           for (let i = 0; i < 10; i++) {
+             await Promise.resolve();
+           }
+           expect(rejected).toBe(true);
+           openyolo.setTimeouts(null);
+           jasmine.clock().uninstall();
+           done();
+         });
+
+      it('rejects without initializing if already aborted', (done) => {
+        const controller = new FakeAbortController();
+        controller.abort();
+        openyolo.prepare({signal: controller.signal})
+            .then(
+                () => {
+                  done.fail('Should not resolve!');
+                },
+                (error) => {
+                  expect(error.type)
+                      .toEqual(OpenYoloErrorType.operationCanceled);
+                  expect(createSpy).not.toHaveBeenCalled();
+                  done();
+                });
+      });
+    });
+
+    describe('retry policy', () => {
+      let createSpy: jasmine.Spy;
+      const initializationFailed = () =>
+          Promise.reject(OpenYoloInternalError.providerInitializationFailed()
+                             .toExposedError());
+
+      beforeEach(() => {
+        openyolo.setRetryPolicy({maxAttempts: 3, initialDelayMs: 0});
+        createSpy = spyOn(InitializeOnDemandApi, 'createOpenYoloApi');
+        openYoloApiImplSpy.cancelLastOperation.and.returnValue(
+            Promise.resolve());
+      });
+
+      afterEach(() => {
+        openyolo.setRetryPolicy(null);
+        openyolo.reset();
+      });
+
+      it('throws on an invalid policy', () => {
+        expect(() => {
+          openyolo.setRetryPolicy({maxAttempts: 0});
+        }).toThrowError(/Invalid retry policy/);
+      });
+
+      it('attempts again after a retryable error', (done) => {
+        const events: LifecycleEvent[] = [];
+        const listener = (event: LifecycleEvent) => {
+          events.push(event);
+        };
+        openyolo.addEventListener(listener);
+        createSpy.and.returnValues(
+            initializationFailed(), Promise.resolve(openYoloApiImplSpy));
+        openyolo.cancelLastOperation().then(() => {
+          openyolo.removeEventListener(listener);
+          expect(createSpy).toHaveBeenCalledTimes(2);
+          expect(events.map((event) => [event.type, event.attempt])).toEqual([
+            [LifecycleEventType.initializationStarted, 1],
+            [LifecycleEventType.initializationFailed, 1],
+            [LifecycleEventType.initializationRetrying, 2],
+            [LifecycleEventType.initializationStarted, 2],
+            [LifecycleEventType.channelConnected, 2]
+          ]);
+          done();
+        });
+      });
+
+      it('fails after the maximum number of attempts', (done) => {
+        createSpy.and.callFake(initializationFailed);
+        openyolo.cancelLastOperation().then(
+            () => {
+              done.fail('Should not resolve!');
+            },
+            (error) => {
+              expect(error.message).toContain('providerInitializationFailed');
+              expect(createSpy).toHaveBeenCalledTimes(3);
+              done();
+            });
+      });
+
+      it('does not attempt again after other errors', (done) => {
+        createSpy.and.returnValue(Promise.reject(expectedError));
+        openyolo.cancelLastOperation().then(
+            () => {
+              done.fail('Should not resolve!');
+            },
+            (error) => {
+              expect(error).toBe(expectedError);
+              expect(createSpy).toHaveBeenCalledTimes(1);
+              done();
+            });
+      });
+
+      it('attempts again after an initialization timeout', (done) => {
+        createSpy.and.returnValues(
+            Promise.reject(
+                OpenYoloInternalError.requestTimeoutOnInitialization()
+                    .toExposedError()),
+            Promise.resolve(openYoloApiImplSpy));
+        openyolo.cancelLastOperation().then(() => {
+          expect(createSpy).toHaveBeenCalledTimes(2);
+          done();
+        });
+      });
+
+      it('matches the errors by their code rather than their message',
+         (done) => {
+           // e.g. an error received from the provider, as sent by a version
+           // of the library with other messages.
+           const error = OpenYoloError.fromData({
+             type: OpenYoloErrorType.initializationError,
+             message: 'The provider failed to initialize.',
+             code: InternalErrorCode.providerInitializationFailed
+           });
+           createSpy.and.returnValues(
+               Promise.reject(error), Promise.resolve(openYoloApiImplSpy));
+           openyolo.cancelLastOperation().then(() => {
+             expect(createSpy).toHaveBeenCalledTimes(2);
+             done();
+           });
+         });
+
+      it('does not attempt again beyond the initialization timeout', (done) => {
+        openyolo.setRetryPolicy({maxAttempts: 3, initialDelayMs: 5000});
+        createSpy.and.callFake(initializationFailed);
+        openyolo.cancelLastOperation({timeouts: {initialization: 1000}})
+            .then(
+                () => {
+                  done.fail('Should not resolve!');
+                },
+                (error) => {
+                  expect(createSpy).toHaveBeenCalledTimes(1);
+                  done();
+                });
+      });
+    });
+
+    describe('provider fallback', () => {
+      const firstProvider = 'https://first.example.com';
+      const secondProvider = 'https://second.example.com';
+      let createSpy: jasmine.Spy;
+
+      beforeEach(() => {
+        openyolo.setProviders([
+          {urlBase: firstProvider, features: ['first']},
+          {urlBase: secondProvider}
+        ]);
+        createSpy = spyOn(InitializeOnDemandApi, 'createOpenYoloApi');
+        openYoloApiImplSpy.cancelLastOperation.and.returnValue(
+            Promise.resolve());
+      });
+
+      afterEach(() => {
+        openyolo.setProviderUrlBase('https://provider.openyolo.org');
+        window.sessionStorage.removeItem('openyolo.provider');
+      });
+
+      it('throws on an invalid list of providers', () => {
+        expect(() => {
+          openyolo.setProviders([]);
+        }).toThrowError(/Invalid providers/);
+        expect(() => {
+          openyolo.setProviders([{urlBase: ''}]);
+        }).toThrowError(/Invalid provider/);
+      });
+
+      it('falls back to the next provider when one is disabled', (done) => {
+        createSpy.and.returnValues(
+            Promise.reject(
+                OpenYoloInternalError.apiDisabled().toExposedError()),
+            Promise.resolve(openYoloApiImplSpy));
+        openyolo.cancelLastOperation().then(() => {
+          expect(createSpy).toHaveBeenCalledTimes(2);
+          expect(createSpy.calls.argsFor(0)[1]).toEqual(firstProvider);
+          expect(createSpy.calls.argsFor(0)[2]).toEqual(['first']);
+          expect(createSpy.calls.argsFor(1)[1]).toEqual(secondProvider);
+          expect(createSpy.calls.argsFor(1)[2]).toEqual([]);
+          done();
+        });
+      });
+
+      it('exposes the provider serving the API', async function(done) {
+        createSpy.and.returnValues(
+            Promise.reject(
+                OpenYoloInternalError.apiDisabled().toExposedError()),
+            Promise.resolve(openYoloApiImplSpy));
+        expect(openyolo.getProvider()).toBeNull();
+        await openyolo.cancelLastOperation();
+        expect(openyolo.getProvider()).toEqual(secondProvider);
+        openyolo.reset();
+        expect(openyolo.getProvider()).toBeNull();
+        done();
+      });
+
+      it('does not fall back on other failures', (done) => {
+        createSpy.and.returnValue(Promise.reject(expectedError));
+        openyolo.cancelLastOperation().then(
+            () => {
+              done.fail('Should not resolve!');
+            },
+            (error) => {
+              expect(error).toBe(expectedError);
+              expect(createSpy).toHaveBeenCalledTimes(1);
+              done();
+            });
+      });
+
+      it('fails with the error of the last provider', (done) => {
+        const lastError = OpenYoloInternalError.providerInitializationFailed()
+                              .toExposedError();
+        createSpy.and.returnValues(
+            Promise.reject(
+                OpenYoloInternalError.apiDisabled().toExposedError()),
+            Promise.reject(lastError));
+        openyolo.cancelLastOperation().then(
+            () => {
+              done.fail('Should not resolve!');
+            },
+            (error) => {
+              expect(error).toBe(lastError);
+              expect(createSpy).toHaveBeenCalledTimes(2);
+              done();
+            });
+      });
+
+      it('tries the chosen provider first afterwards', (done) => {
+        createSpy.and.returnValues(
+            Promise.reject(
+                OpenYoloInternalError.apiDisabled().toExposedError()),
+            Promise.resolve(openYoloApiImplSpy),
+            Promise.resolve(openYoloApiImplSpy));
+        openyolo.cancelLastOperation()
+            .then(() => {
+              openyolo.reset();
+              return openyolo.cancelLastOperation();
+            })
+            .then(() => {
+              expect(createSpy).toHaveBeenCalledTimes(3);
+              expect(createSpy.calls.argsFor(2)[1]).toEqual(secondProvider);
+              done();
+            });
+      });
+
+      it('reports the provider in the lifecycle events', (done) => {
+        const events: LifecycleEvent[] = [];
+        const listener = (event: LifecycleEvent) => {
+          events.push(event);
+        };
+        openyolo.addEventListener(listener);
+        createSpy.and.returnValues(
+            Promise.reject(
+                OpenYoloInternalError.apiDisabled().toExposedError()),
+            Promise.resolve(openYoloApiImplSpy));
+        openyolo.cancelLastOperation().then(() => {
+          openyolo.removeEventListener(listener);
+          expect(events.map((event) => [event.type, event.provider])).toEqual([
+            [LifecycleEventType.initializationStarted, firstProvider],
+            [LifecycleEventType.initializationFailed, firstProvider],
+            [LifecycleEventType.initializationStarted, secondProvider],
+            [LifecycleEventType.channelConnected, secondProvider]
+          ]);
+          done();
+        });
+      });
+    });
+
+    describe('abort signal', () => {
+      let controller: FakeAbortController;
+
+      beforeEach(() => {
+        controller = new FakeAbortController();
+      });
+
+      it('rejects without initializing when already aborted', (done) => {
+        spyOn(InitializeOnDemandApi, 'createOpenYoloApi');
+        controller.abort();
+        openyolo
+            .retrieve({supportedAuthMethods: []}, {signal: controller.signal})
+            .then(
+                () => {
+                  done.fail('Should not resolve!');
+                },
+                (error) => {
+                  expect(error.type)
+                      .toEqual(OpenYoloErrorType.operationCanceled);
+                  expect(InitializeOnDemandApi.createOpenYoloApi)
+                      .not.toHaveBeenCalled();
+                  done();
+                });
+      });
+
+      it('rejects when aborted during the initialization', (done) => {
+        const implResolver = new PromiseResolver<OpenYoloWithTimeoutApi>();
+        spyOn(InitializeOnDemandApi, 'createOpenYoloApi')
+            .and.returnValue(implResolver.promise);
+        openyolo
+            .retrieve({supportedAuthMethods: []}, {signal: controller.signal})
+            .then(
+                () => {
+                  done.fail('Should not resolve!');
+                },
+                (error) => {
+                  expect(error.type)
+                      .toEqual(OpenYoloErrorType.operationCanceled);
+                  expect(openYoloApiImplSpy.retrieve).not.toHaveBeenCalled();
+                  expect(controller.signal.listeners).toEqual([]);
+                  openyolo.reset();
+                  done();
+                });
+        controller.abort();
+        implResolver.resolve(openYoloApiImplSpy);
+      });
+    });
   });
 
   describe('OpenYoloApiImpl', () => {
@@ -279,6 +1099,7 @@ describe('OpenYolo API', () => {
         'hint',
         'retrieve',
         'save',
+        'deleteCredential',
         'proxyLogin',
         'disableAutoSignIn',
         'cancelLastOperation'
@@ -313,13 +1134,14 @@ describe('OpenYolo API', () => {
       });
 
       it('dispatches the request', (done) => {
+        const signal = new FakeAbortController().signal;
         dispatchSpy.and.returnValue(Promise.resolve(expectedResult));
         (openYoloApiImpl[methodName] as methodSignatures[M])(
-            options, timeoutRacerSpy)
+            options, timeoutRacerSpy, signal)
             .then((result: Res) => {
               expect(result).toBe(expectedResult);
               expect(dispatchSpy)
-                  .toHaveBeenCalledWith(options, timeoutRacerSpy);
+                  .toHaveBeenCalledWith(options, timeoutRacerSpy, signal);
               done();
             });
       });
@@ -405,6 +1227,14 @@ describe('OpenYolo API', () => {
           'save', CredentialSave.prototype, credential, undefined);
     });
 
+    describe('deleteCredential', () => {
+      testOperationImpl(
+          'deleteCredential',
+          CredentialDelete.prototype,
+          credential,
+          undefined);
+    });
+
     describe('proxyLogin', () => {
       testOperationImpl(
           'proxyLogin', ProxyLogin.prototype, credential, undefined);
@@ -420,7 +1250,8 @@ describe('OpenYolo API', () => {
       it('dispatches the request', (done) => {
         dispatchSpy.and.returnValue(Promise.resolve());
         openYoloApiImpl.cancelLastOperation(timeoutRacerSpy).then(() => {
-          expect(dispatchSpy).toHaveBeenCalledWith(undefined, timeoutRacerSpy);
+          expect(dispatchSpy)
+              .toHaveBeenCalledWith(undefined, timeoutRacerSpy, undefined);
           done();
         });
       });
@@ -456,7 +1287,7 @@ describe('OpenYolo API', () => {
         navCredentialsSpy.disableAutoSignIn.and.returnValue(Promise.resolve());
         openYoloApiImpl.disableAutoSignIn(timeoutRacerSpy).then(() => {
           expect(DisableAutoSignIn.prototype.dispatch)
-              .toHaveBeenCalledWith(undefined, timeoutRacerSpy);
+              .toHaveBeenCalledWith(undefined, timeoutRacerSpy, undefined);
           expect(navCredentialsSpy.disableAutoSignIn).toHaveBeenCalled();
           done();
         });
@@ -540,6 +1371,18 @@ describe('OpenYolo API', () => {
               });
     });
 
+    it('rejects deleteCredential', (done) => {
+      openYoloApiImpl.deleteCredential(credential)
+          .then(
+              () => {
+                done.fail();
+              },
+              (error) => {
+                expect(error).toEqual(expectedError);
+                done();
+              });
+    });
+
     it('rejects disableAutoSignIn', (done) => {
       openYoloApiImpl.disableAutoSignIn().then(
           () => {
@@ -15,15 +15,26 @@
  */
 
 import {OpenYoloError, OpenYoloErrorType, OpenYoloExposedErrorData, OpenYoloInternalError} from '../protocol/errors';
-import {RpcMessageArgumentTypes, RpcMessageData, RpcMessageType} from '../protocol/rpc_messages';
+import {cancelOperationMessage, RpcMessageArgumentTypes, RpcMessageData, RpcMessageType} from '../protocol/rpc_messages';
 import {SecureChannel} from '../protocol/secure_channel';
 import {generateId, PromiseResolver, startTimeoutRacer, TimeoutRacer} from '../protocol/utils';
 
-import {ProviderFrameElement} from './provider_frame_elem';
+import {LifecycleEvent, LifecycleEventType, RequestEventContext} from './lifecycle_events';
+import {ProviderContainer} from './provider_frame_elem';
 
 export type RpcMessageHandler<T extends RpcMessageType> =
     (data: RpcMessageArgumentTypes[T], type: T, ev: MessageEvent) => void;
 
+/**
+ * The subset of the DOM AbortSignal interface used to abort a request. The
+ * signal of an AbortController satisfies it.
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
 /**
  * General interface of a request to the relay.
  *
@@ -34,9 +45,11 @@ export type RpcMessageHandler<T extends RpcMessageType> =
  */
 export interface RelayRequest<T, O> {
   /**
-   * Sends the specific request to the relay, with the given options.
+   * Sends the specific request to the relay, with the given options. Aborting
+   * the optional signal cancels the request.
    */
-  dispatch(options: O, timeoutRacer?: TimeoutRacer): Promise<T>;
+  dispatch(options: O, timeoutRacer?: TimeoutRacer, signal?: AbortSignalLike):
+      Promise<T>;
 }
 
 /**
@@ -56,16 +69,64 @@ export abstract class BaseRequest<ResultT, OptionsT> implements
   private listenerKeys: number[] = [];
   private disposed = false;
   private timeoutRacer: TimeoutRacer|null = null;
+  private closeListener: () => void;
+  private abortSignal: AbortSignalLike|null = null;
+  private abortListener: () => void;
 
   constructor(
-      protected frame: ProviderFrameElement,
+      protected frame: ProviderContainer,
       protected channel: SecureChannel,
-      public id = generateId()) {}
+      private eventContext: RequestEventContext|null = null,
+      public id = generateId()) {
+    // The user closing the container, such as a popup, cancels the request.
+    this.closeListener = () => {
+      this.reject(OpenYoloInternalError.userCanceled().toExposedError());
+      this.dispose();
+    };
+    // Aborting the signal cancels this exact request on the provider, which
+    // does not answer it afterwards.
+    this.abortListener = () => {
+      this.channel.send(cancelOperationMessage(generateId(), this.id));
+      this.reject(OpenYoloInternalError.operationCanceled().toExposedError());
+      this.dispose();
+    };
+  }
+
+  async dispatch(
+      options: OptionsT,
+      timeoutRacer?: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<ResultT> {
+    const startTime = Date.now();
+    this.emitEvent({type: LifecycleEventType.requestStarted});
+    try {
+      const result = await this.dispatchAndRace(options, timeoutRacer, signal);
+      this.emitEvent({
+        type: LifecycleEventType.requestSucceeded,
+        duration: Date.now() - startTime
+      });
+      return result;
+    } catch (error) {
+      this.emitEvent({
+        type: LifecycleEventType.requestFailed,
+        duration: Date.now() - startTime,
+        errorType: error && error['type']
+      });
+      throw error;
+    }
+  }
 
-  async dispatch(options: OptionsT, timeoutRacer?: TimeoutRacer):
-      Promise<ResultT> {
+  /**
+   * Dispatches the request, racing it against the timeout.
+   */
+  private async dispatchAndRace(
+      options: OptionsT,
+      timeoutRacer?: TimeoutRacer,
+      signal?: AbortSignalLike): Promise<ResultT> {
+    if (signal && signal.aborted) {
+      throw OpenYoloInternalError.operationCanceled().toExposedError();
+    }
     this.timeoutRacer = timeoutRacer || startTimeoutRacer(0);
-    this.registerBaseHandlers();
+    this.registerBaseHandlers(signal);
     this.dispatchInternal(options);
     try {
       return await this.timeoutRacer.race(this.getPromise());
@@ -88,7 +149,7 @@ export abstract class BaseRequest<ResultT, OptionsT> implements
    * Registers the base handlers for the request. To be called by subclasses for
    * proper initialization.
    */
-  private registerBaseHandlers() {
+  private registerBaseHandlers(signal?: AbortSignalLike) {
     // Register a standard error handler.
     this.registerHandler(
         RpcMessageType.error, (data: OpenYoloExposedErrorData) => {
@@ -103,13 +164,46 @@ export abstract class BaseRequest<ResultT, OptionsT> implements
           this.dispose();
         });
 
+    this.frame.addCloseListener(this.closeListener);
+
+    if (signal) {
+      this.abortSignal = signal;
+      this.abortSignal.addEventListener('abort', this.abortListener);
+    }
+
     // Register a standard handler for displaying the provider - when UI is
     // shown, the timeouts are also canceled to allow the operation to proceed
     // at human pace.
     this.registerHandler(RpcMessageType.showProvider, (options) => {
       this.clearTimeout();
+      this.emitEvent({type: LifecycleEventType.providerDisplayed});
+      // The user dismissing the container cancels the request displaying it,
+      // as an abort. The other requests sharing the frame are not affected.
+      this.frame.removeDismissListener(this.abortListener);
+      this.frame.addDismissListener(this.abortListener);
       this.frame.display(options);
     });
+
+    // The key events within the displayed frame do not reach the client
+    // document, so the provider reports the user dismissing it from there.
+    this.registerHandler(RpcMessageType.dismiss, () => {
+      this.abortListener();
+    });
+  }
+
+  /**
+   * Emits a lifecycle event pertaining to this request, if observed.
+   */
+  private emitEvent(event: Partial<LifecycleEvent>&
+                    {type: LifecycleEventType}): void {
+    if (this.eventContext !== null) {
+      this.eventContext.emitter.emit({
+        ...event,
+        operation: this.eventContext.operation,
+        requestId: this.id,
+        provider: this.eventContext.provider
+      });
+    }
   }
 
   protected getPromise(): Promise<ResultT> {
@@ -177,6 +271,12 @@ export abstract class BaseRequest<ResultT, OptionsT> implements
     }
     this.clearTimeout();
     this.clearListeners();
+    this.frame.removeCloseListener(this.closeListener);
+    this.frame.removeDismissListener(this.abortListener);
+    if (this.abortSignal !== null) {
+      this.abortSignal.removeEventListener('abort', this.abortListener);
+      this.abortSignal = null;
+    }
     this.promiseResolver.dispose();
     this.disposed = true;
   }
@@ -15,14 +15,16 @@
  */
 
 import {OpenYoloErrorType, OpenYoloInternalError} from '../protocol/errors';
-import {errorMessage, RpcMessageType, saveResultMessage, showProviderMessage} from '../protocol/rpc_messages';
+import {dismissMessage, errorMessage, RpcMessageType, saveResultMessage, showProviderMessage} from '../protocol/rpc_messages';
 import {SecureChannel} from '../protocol/secure_channel';
 import {startTimeoutRacer} from '../protocol/utils';
+import {FakeAbortController} from '../test_utils/abort';
 import {FakeProviderConnection} from '../test_utils/channels';
 import {createSpyFrame} from '../test_utils/frames';
 import {createUntypedMessageEvent} from '../test_utils/messages';
 
 import {BaseRequest} from './base_request';
+import {LifecycleEvent, LifecycleEventEmitter, LifecycleEventType} from './lifecycle_events';
 import {ProviderFrameElement} from './provider_frame_elem';
 
 class ImplementedBaseRequest extends BaseRequest<string, undefined> {
@@ -176,5 +178,194 @@ describe('BaseRequest', () => {
            done();
          }
        });
+
+    it('rejects with userCanceled when the container is closed',
+       async function(done) {
+         const promise = request.dispatch(undefined);
+         expect(frame.addCloseListener).toHaveBeenCalled();
+         const closeListener =
+             (frame.addCloseListener as jasmine.Spy).calls.mostRecent().args[0];
+         closeListener();
+         try {
+           await promise;
+           done.fail('Promise should not resolve');
+         } catch (err) {
+           expect(err.type).toEqual(OpenYoloErrorType.userCanceled);
+           expect(request.dispose).toHaveBeenCalled();
+           expect(frame.removeCloseListener)
+               .toHaveBeenCalledWith(closeListener);
+           done();
+         }
+       });
+  });
+
+  describe('abort handling', () => {
+    let controller: FakeAbortController;
+
+    beforeEach(() => {
+      controller = new FakeAbortController();
+      spyOn(request, 'dispose').and.callThrough();
+    });
+
+    it('rejects immediately when already aborted', async function(done) {
+      const dispatchInternalSpy = spyOn(request, 'dispatchInternal');
+      controller.abort();
+      try {
+        await request.dispatch(undefined, undefined, controller.signal);
+        done.fail('Promise should not resolve');
+      } catch (err) {
+        expect(err.type).toEqual(OpenYoloErrorType.operationCanceled);
+        expect(dispatchInternalSpy).not.toHaveBeenCalled();
+        done();
+      }
+    });
+
+    it('cancels the request on the provider when aborted',
+       async function(done) {
+         const cancelSpy = jasmine.createSpy('cancelSpy');
+         providerChannel.listen(RpcMessageType.cancelOperation, cancelSpy);
+         const promise =
+             request.dispatch(undefined, undefined, controller.signal);
+         controller.abort();
+         try {
+           await promise;
+           done.fail('Promise should not resolve');
+         } catch (err) {
+           expect(err.type).toEqual(OpenYoloErrorType.operationCanceled);
+           expect(cancelSpy.calls.mostRecent().args[0].args)
+               .toEqual(request.id);
+           expect(frame.hide).toHaveBeenCalled();
+           expect(request.dispose).toHaveBeenCalled();
+           expect(controller.signal.listeners).toEqual([]);
+           done();
+         }
+       });
+
+    it('stops listening to the signal once completed', async function(done) {
+      const promise = request.dispatch(undefined, undefined, controller.signal);
+      expect(controller.signal.listeners.length).toBe(1);
+      request.resolve('result');
+      request.dispose();
+      await promise;
+      expect(controller.signal.listeners).toEqual([]);
+      done();
+    });
+  });
+
+  describe('dismiss handling', () => {
+    it('cancels the request when the user dismisses the frame',
+       async function(done) {
+         const cancelSpy = jasmine.createSpy('cancelSpy');
+         providerChannel.listen(RpcMessageType.cancelOperation, cancelSpy);
+         const promise = request.dispatch(undefined);
+         providerChannel.send(showProviderMessage(request.id, {}));
+         const dismissListener = (frame.addDismissListener as jasmine.Spy)
+                                     .calls.mostRecent()
+                                     .args[0];
+         dismissListener();
+         try {
+           await promise;
+           done.fail('Promise should not resolve');
+         } catch (err) {
+           expect(err.type).toEqual(OpenYoloErrorType.operationCanceled);
+           expect(cancelSpy.calls.mostRecent().args[0].args)
+               .toEqual(request.id);
+           expect(frame.removeDismissListener)
+               .toHaveBeenCalledWith(dismissListener);
+           done();
+         }
+       });
+
+    it('cancels the request when the provider reports a dismissal',
+       async function(done) {
+         const cancelSpy = jasmine.createSpy('cancelSpy');
+         providerChannel.listen(RpcMessageType.cancelOperation, cancelSpy);
+         const promise = request.dispatch(undefined);
+         providerChannel.send(showProviderMessage(request.id, {}));
+         // e.g. the user pressed Escape while the focus is within the frame.
+         providerChannel.send(dismissMessage(request.id));
+         try {
+           await promise;
+           done.fail('Promise should not resolve');
+         } catch (err) {
+           expect(err.type).toEqual(OpenYoloErrorType.operationCanceled);
+           expect(cancelSpy.calls.mostRecent().args[0].args)
+               .toEqual(request.id);
+           expect(frame.hide).toHaveBeenCalled();
+           done();
+         }
+       });
+
+    it('does not cancel the requests which did not display the frame',
+       async function(done) {
+         const backgroundRequest = new ImplementedBaseRequest(frame, channel);
+         const backgroundSpy = jasmine.createSpy('backgroundSpy');
+         backgroundRequest.dispatch(undefined).catch(backgroundSpy);
+         const promise = request.dispatch(undefined);
+         expect(frame.addDismissListener).not.toHaveBeenCalled();
+         providerChannel.send(showProviderMessage(request.id, {}));
+         // The frame notifies every registered listener.
+         (frame.addDismissListener as jasmine.Spy)
+             .calls.allArgs()
+             .forEach((args) => args[0]());
+         try {
+           await promise;
+           done.fail('Promise should not resolve');
+         } catch (err) {
+           expect(err.type).toEqual(OpenYoloErrorType.operationCanceled);
+           expect(frame.addDismissListener).toHaveBeenCalledTimes(1);
+           expect(backgroundSpy).not.toHaveBeenCalled();
+           backgroundRequest.dispose();
+           done();
+         }
+       });
+  });
+
+  describe('lifecycle events', () => {
+    let events: LifecycleEvent[];
+
+    beforeEach(() => {
+      events = [];
+      const emitter = new LifecycleEventEmitter();
+      emitter.addListener((event) => {
+        events.push(event);
+      });
+      request.dispose();
+      request = new ImplementedBaseRequest(
+          frame, channel, {emitter, operation: 'save'});
+    });
+
+    it('emits the start, display and success of the request',
+       async function(done) {
+         const promise = request.dispatch(undefined);
+         providerChannel.send(showProviderMessage(request.id, {}));
+         request.resolve('result');
+         await promise;
+         expect(events.map((event) => event.type)).toEqual([
+           LifecycleEventType.requestStarted,
+           LifecycleEventType.providerDisplayed,
+           LifecycleEventType.requestSucceeded
+         ]);
+         events.forEach((event) => {
+           expect(event.operation).toEqual('save');
+           expect(event.requestId).toEqual(request.id);
+         });
+         expect(events[2].duration).toEqual(jasmine.any(Number));
+         done();
+       });
+
+    it('emits the failure of the request', async function(done) {
+      const promise = request.dispatch(undefined);
+      providerChannel.send(errorMessage(
+          request.id, OpenYoloInternalError.userCanceled().toExposedError()));
+      try {
+        await promise;
+        done.fail('Promise should not resolve');
+      } catch (err) {
+        expect(events[1].type).toEqual(LifecycleEventType.requestFailed);
+        expect(events[1].errorType).toEqual(OpenYoloErrorType.userCanceled);
+        done();
+      }
+    });
   });
 });
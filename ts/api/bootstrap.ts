@@ -0,0 +1,257 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenYoloCredential, RENDER_MODES, RenderMode, RequestContext} from '../protocol/data';
+import {OpenYoloErrorType} from '../protocol/errors';
+
+import {OnDemandOpenYoloApi} from './api';
+import {signIn, SignInResult, SignInResultType} from './sign_in';
+
+/**
+ * The attribute of the script tag of the library opting in to the bootstrap.
+ */
+export const BOOTSTRAP_ATTRIBUTE = 'data-openyolo-bootstrap';
+
+/**
+ * The id of the element configuring the API declaratively.
+ */
+export const CONFIG_ELEMENT_ID = 'openyolo-config';
+
+/**
+ * Dispatched on the configuration element with the result of the automatic
+ * request, a `SignInResult`, as its detail.
+ */
+export const RESULT_EVENT_TYPE = 'openyolo:result';
+
+/**
+ * Dispatched on the configuration element when the configuration is invalid
+ * or the automatic request fails, with the error as its detail.
+ */
+export const ERROR_EVENT_TYPE = 'openyolo:error';
+
+/**
+ * The configuration read from the data attributes of the configuration
+ * element.
+ */
+interface BootstrapConfig {
+  providerUrlBase: string|null;
+  features: string[]|null;
+  renderMode: RenderMode|null;
+  container: string|null;
+  supportedAuthMethods: string[];
+  context: RequestContext;
+  autoRetrieve: boolean;
+  autoHint: boolean;
+  callback: BootstrapCallback|null;
+}
+
+type BootstrapCallback = (result: SignInResult) => void;
+
+const REQUEST_CONTEXTS: RequestContext[] = [
+  RequestContext.signIn,
+  RequestContext.signUp,
+  RequestContext.continue,
+  RequestContext.use
+];
+
+/**
+ * Runs the bootstrap once the document is parsed, if the script tag of the
+ * library opts in to it with the `BOOTSTRAP_ATTRIBUTE`.
+ */
+export function bootstrapIfRequested(doc: Document, api: OnDemandOpenYoloApi) {
+  const script = doc.currentScript;
+  if (script && script.hasAttribute(BOOTSTRAP_ATTRIBUTE)) {
+    bootstrapOnLoad(doc, api);
+  }
+}
+
+/**
+ * Runs the bootstrap once the document is parsed.
+ */
+export function bootstrapOnLoad(doc: Document, api: OnDemandOpenYoloApi) {
+  if (doc.readyState === 'loading') {
+    doc.addEventListener('DOMContentLoaded', () => {
+      bootstrap(doc, api);
+    });
+  } else {
+    bootstrap(doc, api);
+  }
+}
+
+/**
+ * Configures the API from the data attributes of the configuration element,
+ * if the document contains one, and runs the automatic request it requests:
+ *
+ * - `data-provider-url`: the provider URL base.
+ * - `data-features`: the features to enable, comma or space separated.
+ * - `data-render-mode`: the render mode.
+ * - `data-container`: the selector of the container of the inline render mode.
+ * - `data-auth-methods`: the supported authentication methods, comma or space
+ *   separated.
+ * - `data-context`: the context of the requests.
+ * - `data-auto-retrieve`: signs the user in with an existing credential.
+ * - `data-auto-hint`: requests a hint, when no credential is available if
+ *   combined with `data-auto-retrieve`.
+ * - `data-callback`: the name of a global function invoked with the result.
+ *
+ * The result is also dispatched as a `RESULT_EVENT_TYPE` event on the
+ * configuration element. An invalid configuration, including a callback which
+ * is not defined, or a failure of the request is dispatched as an
+ * `ERROR_EVENT_TYPE` event instead. The returned promise never rejects: an
+ * error thrown by the callback is rethrown asynchronously, so that it is
+ * reported without interrupting the bootstrap.
+ */
+export async function bootstrap(
+    doc: Document, api: OnDemandOpenYoloApi): Promise<SignInResult|null> {
+  const element = doc.getElementById(CONFIG_ELEMENT_ID);
+  if (!element) return null;
+  let config: BootstrapConfig;
+  let result: SignInResult|null;
+  try {
+    config = readConfig(element);
+    configure(api, config);
+    result = await runAutoRequest(api, config);
+  } catch (e) {
+    dispatch(element, ERROR_EVENT_TYPE, e);
+    return null;
+  }
+  if (!result) return null;
+  dispatch(element, RESULT_EVENT_TYPE, result);
+  if (config.callback) {
+    try {
+      config.callback(result);
+    } catch (e) {
+      window.setTimeout(() => {
+        throw e;
+      });
+    }
+  }
+  return result;
+}
+
+function readConfig(element: Element): BootstrapConfig {
+  const config = {
+    providerUrlBase: element.getAttribute('data-provider-url'),
+    features: readList(element, 'data-features'),
+    renderMode: readRenderMode(element),
+    container: element.getAttribute('data-container'),
+    supportedAuthMethods: readList(element, 'data-auth-methods') || [],
+    context: readContext(element),
+    autoRetrieve: readFlag(element, 'data-auto-retrieve'),
+    autoHint: readFlag(element, 'data-auto-hint'),
+    callback: readCallback(element)
+  };
+  if ((config.autoRetrieve || config.autoHint) &&
+      config.supportedAuthMethods.length === 0) {
+    throw new Error(
+        'Invalid configuration. The data-auth-methods attribute is required ' +
+        'by the automatic requests.');
+  }
+  return config;
+}
+
+function readRenderMode(element: Element): RenderMode|null {
+  const value = element.getAttribute('data-render-mode');
+  if (value === null) return null;
+  const renderMode = RENDER_MODES.find((mode) => mode === value);
+  if (!renderMode) {
+    throw new Error(`Invalid configuration. Unknown render mode ${value}.`);
+  }
+  return renderMode;
+}
+
+function readContext(element: Element): RequestContext {
+  const value = element.getAttribute('data-context');
+  if (value === null) return RequestContext.signIn;
+  const context = REQUEST_CONTEXTS.find((context) => context === value);
+  if (!context) {
+    throw new Error(`Invalid configuration. Unknown context ${value}.`);
+  }
+  return context;
+}
+
+/**
+ * Looks up the global function named by the callback attribute, so that a
+ * missing one is reported before any request is made.
+ */
+function readCallback(element: Element): BootstrapCallback|null {
+  const name = element.getAttribute('data-callback');
+  if (name === null) return null;
+  const windowAsAny = window as any;
+  const callback: BootstrapCallback|undefined = windowAsAny[name];
+  if (typeof callback !== 'function') {
+    throw new Error(
+        `Invalid configuration. The global function ${name} is not defined.`);
+  }
+  return callback;
+}
+
+function readList(element: Element, attribute: string): string[]|null {
+  const value = element.getAttribute(attribute);
+  if (value === null) return null;
+  return value.split(/[\s,]+/).filter((item) => !!item);
+}
+
+/**
+ * A flag is set when its attribute is present, unless its value is "false".
+ */
+function readFlag(element: Element, attribute: string): boolean {
+  const value = element.getAttribute(attribute);
+  return value !== null && value.toLowerCase() !== 'false';
+}
+
+function configure(api: OnDemandOpenYoloApi, config: BootstrapConfig) {
+  if (config.providerUrlBase) {
+    api.setProviderUrlBase(config.providerUrlBase);
+  }
+  if (config.features) {
+    api.setFeatureConfig(config.features);
+  }
+  if (config.renderMode) {
+    api.setRenderMode(config.renderMode, config.container || undefined);
+  }
+}
+
+async function runAutoRequest(
+    api: OnDemandOpenYoloApi,
+    config: BootstrapConfig): Promise<SignInResult|null> {
+  const context = config.context;
+  if (config.autoRetrieve) {
+    return signIn(api, {
+      supportedAuthMethods: config.supportedAuthMethods,
+      context,
+      hint: config.autoHint
+    });
+  }
+  if (!config.autoHint) return null;
+  let credential: OpenYoloCredential;
+  try {
+    credential = await api.hint(
+        {supportedAuthMethods: config.supportedAuthMethods, context});
+  } catch (e) {
+    if (e &&
+        (e.type === OpenYoloErrorType.userCanceled ||
+         e.type === OpenYoloErrorType.noCredentialsAvailable)) {
+      return {type: SignInResultType.none, reason: e.type};
+    }
+    throw e;
+  }
+  return {type: SignInResultType.hint, credential};
+}
+
+function dispatch(element: Element, type: string, detail: {}) {
+  element.dispatchEvent(new CustomEvent(type, {bubbles: true, detail}));
+}
@@ -0,0 +1,228 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenYoloCredential, RenderMode, RequestContext} from '../protocol/data';
+import {OpenYoloErrorType, OpenYoloInternalError} from '../protocol/errors';
+
+import {OnDemandOpenYoloApi} from './api';
+import {bootstrap, BOOTSTRAP_ATTRIBUTE, bootstrapIfRequested, CONFIG_ELEMENT_ID, ERROR_EVENT_TYPE, RESULT_EVENT_TYPE} from './bootstrap';
+import {SignInResult, SignInResultType} from './sign_in';
+
+describe('bootstrap', () => {
+  const credential: OpenYoloCredential = {
+    id: 'jdoe@example.com',
+    authMethod: 'openyolo://id-and-password'
+  };
+
+  let api: {[key in keyof OnDemandOpenYoloApi]: jasmine.Spy};
+  let element: HTMLElement;
+  let resultListener: jasmine.Spy;
+  let errorListener: jasmine.Spy;
+
+  beforeEach(() => {
+    api = jasmine.createSpyObj('OnDemandOpenYoloApi', [
+      'setProviderUrlBase',
+      'setFeatureConfig',
+      'setRenderMode',
+      'retrieve',
+      'hint',
+      'proxyLogin'
+    ]);
+    element = document.createElement('div');
+    element.id = CONFIG_ELEMENT_ID;
+    document.body.appendChild(element);
+    resultListener = jasmine.createSpy('resultListener');
+    errorListener = jasmine.createSpy('errorListener');
+    element.addEventListener(RESULT_EVENT_TYPE, resultListener);
+    element.addEventListener(ERROR_EVENT_TYPE, errorListener);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(element);
+    delete (window as any)['onOpenYolo'];
+  });
+
+  function detailOf(listener: jasmine.Spy) {
+    return (listener.calls.mostRecent().args[0] as CustomEvent).detail;
+  }
+
+  it('does nothing without a configuration element', async function(done) {
+    document.body.removeChild(element);
+    const result = await bootstrap(document, api as any);
+    expect(result).toBeNull();
+    expect(api.setProviderUrlBase).not.toHaveBeenCalled();
+    document.body.appendChild(element);
+    done();
+  });
+
+  it('configures the API', async function(done) {
+    element.setAttribute('data-provider-url', 'https://provider.example.com');
+    element.setAttribute('data-features', 'a, b');
+    element.setAttribute('data-render-mode', 'inline');
+    element.setAttribute('data-container', '#container');
+    const result = await bootstrap(document, api as any);
+    expect(result).toBeNull();
+    expect(api.setProviderUrlBase)
+        .toHaveBeenCalledWith('https://provider.example.com');
+    expect(api.setFeatureConfig).toHaveBeenCalledWith(['a', 'b']);
+    expect(api.setRenderMode)
+        .toHaveBeenCalledWith(RenderMode.inline, '#container');
+    expect(api.retrieve).not.toHaveBeenCalled();
+    expect(api.hint).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('signs the user in and dispatches the result', async function(done) {
+    element.setAttribute('data-auth-methods', 'openyolo://id-and-password');
+    element.setAttribute('data-auto-retrieve', '');
+    element.setAttribute('data-callback', 'onOpenYolo');
+    const callback = jasmine.createSpy('onOpenYolo');
+    (window as any)['onOpenYolo'] = callback;
+    api.retrieve.and.returnValue(Promise.resolve(credential));
+    const result = await bootstrap(document, api as any);
+    const expected:
+        SignInResult = {type: SignInResultType.credential, credential};
+    expect(result).toEqual(expected);
+    expect(api.retrieve)
+        .toHaveBeenCalledWith(
+            {
+              supportedAuthMethods: ['openyolo://id-and-password'],
+              supportedIdTokenProviders: undefined,
+              context: RequestContext.signIn
+            },
+            undefined);
+    expect(detailOf(resultListener)).toEqual(expected);
+    expect(callback).toHaveBeenCalledWith(expected);
+    expect(errorListener).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('rethrows the errors of the callback asynchronously',
+     async function(done) {
+       jasmine.clock().install();
+       element.setAttribute('data-auth-methods', 'test');
+       element.setAttribute('data-auto-retrieve', '');
+       element.setAttribute('data-callback', 'onOpenYolo');
+       (window as any)['onOpenYolo'] =
+           jasmine.createSpy('onOpenYolo').and.throwError('Callback failure.');
+       api.retrieve.and.returnValue(Promise.resolve(credential));
+       const result = await bootstrap(document, api as any);
+       expect(result).toEqual({type: SignInResultType.credential, credential});
+       expect(() => {
+         jasmine.clock().tick(0);
+       }).toThrowError('Callback failure.');
+       jasmine.clock().uninstall();
+       done();
+     });
+
+  it('does not request a hint unless configured', async function(done) {
+    element.setAttribute('data-auth-methods', 'test');
+    element.setAttribute('data-auto-retrieve', 'true');
+    element.setAttribute('data-auto-hint', 'false');
+    api.retrieve.and.returnValue(Promise.reject(
+        OpenYoloInternalError.noCredentialsAvailable().toExposedError()));
+    const result = await bootstrap(document, api as any);
+    expect(result).toEqual({
+      type: SignInResultType.none,
+      reason: OpenYoloErrorType.noCredentialsAvailable
+    });
+    expect(api.hint).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('requests a hint', async function(done) {
+    element.setAttribute('data-auth-methods', 'a b');
+    element.setAttribute('data-context', 'signUp');
+    element.setAttribute('data-auto-hint', '');
+    api.hint.and.returnValue(Promise.resolve(credential));
+    const result = await bootstrap(document, api as any);
+    expect(result).toEqual({type: SignInResultType.hint, credential});
+    expect(api.hint).toHaveBeenCalledWith(
+        {supportedAuthMethods: ['a', 'b'], context: RequestContext.signUp});
+    expect(api.retrieve).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('dispatches the failure of the request', async function(done) {
+    element.setAttribute('data-auth-methods', 'test');
+    element.setAttribute('data-auto-hint', '');
+    const error =
+        OpenYoloInternalError.requestFailed('ERROR!').toExposedError();
+    api.hint.and.returnValue(Promise.reject(error));
+    const result = await bootstrap(document, api as any);
+    expect(result).toBeNull();
+    expect(detailOf(errorListener)).toBe(error);
+    expect(resultListener).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('dispatches an invalid configuration', async function(done) {
+    element.setAttribute('data-auto-retrieve', '');
+    const result = await bootstrap(document, api as any);
+    expect(result).toBeNull();
+    expect(detailOf(errorListener).message).toMatch(/^Invalid configuration/);
+    expect(api.retrieve).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('rejects an unknown render mode', async function(done) {
+    element.setAttribute('data-render-mode', 'sideways');
+    const result = await bootstrap(document, api as any);
+    expect(result).toBeNull();
+    expect(detailOf(errorListener).message)
+        .toEqual('Invalid configuration. Unknown render mode sideways.');
+    expect(api.setRenderMode).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('rejects a missing callback before any request', async function(done) {
+    element.setAttribute('data-auth-methods', 'test');
+    element.setAttribute('data-auto-retrieve', '');
+    element.setAttribute('data-callback', 'onOpenYolo');
+    const result = await bootstrap(document, api as any);
+    expect(result).toBeNull();
+    expect(detailOf(errorListener).message).toMatch(/^Invalid configuration/);
+    expect(api.retrieve).not.toHaveBeenCalled();
+    expect(resultListener).not.toHaveBeenCalled();
+    done();
+  });
+
+  describe('bootstrapIfRequested', () => {
+    let script: HTMLScriptElement;
+    let doc: {[key: string]: any};
+
+    beforeEach(() => {
+      script = document.createElement('script');
+      doc = {
+        currentScript: script,
+        readyState: 'complete',
+        getElementById:
+            jasmine.createSpy('getElementById').and.returnValue(null)
+      };
+    });
+
+    it('bootstraps if the script tag opts in', () => {
+      script.setAttribute(BOOTSTRAP_ATTRIBUTE, '');
+      bootstrapIfRequested(doc as any, api as any);
+      expect(doc.getElementById).toHaveBeenCalledWith(CONFIG_ELEMENT_ID);
+    });
+
+    it('does nothing otherwise', () => {
+      bootstrapIfRequested(doc as any, api as any);
+      expect(doc.getElementById).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenYoloInternalError} from '../protocol/errors';
+import {PromiseResolver} from '../protocol/utils';
+
+import {AbortSignalLike} from './base_request';
+
+/**
+ * The ways the client can handle a call made while another one is pending.
+ */
+export const enum CallQueueingMode {
+  /**
+   * The calls are sent to the provider immediately. The provider may reject
+   * the concurrent ones, depending on its own policy.
+   */
+  concurrent = 'concurrent',
+  /**
+   * The calls are sent to the provider one at a time, in the order they are
+   * made, except that interactive calls supersede queued `hintsAvailable`
+   * and `disableAutoSignIn` calls, which do not display any UI. Identical
+   * `hintsAvailable` calls pending at the same time share their result.
+   */
+  queue = 'queue'
+}
+
+export interface CallQueueingPolicy {
+  mode: CallQueueingMode;
+
+  /**
+   * The maximum number of calls waiting in the queue, beyond which calls are
+   * rejected with an `illegalConcurrentRequest` error. Only applies to the
+   * `queue` mode. Default: unlimited.
+   */
+  maxQueueDepth?: number;
+}
+
+/**
+ * The calls are not queued by default, the provider rejecting the concurrent
+ * ones with an `illegalConcurrentRequest` error.
+ */
+export const DEFAULT_CALL_QUEUEING_POLICY: CallQueueingPolicy = {
+  mode: CallQueueingMode.concurrent
+};
+
+// Hack to be able to use the list of values of the const enum above.
+const CALL_QUEUEING_MODES: CallQueueingMode[] =
+    [CallQueueingMode.concurrent, CallQueueingMode.queue];
+
+/**
+ * A call to schedule on the queue.
+ */
+export interface ScheduledCall<T> {
+  /**
+   * Performs the call, once its turn comes.
+   */
+  run: () => Promise<T>;
+
+  /**
+   * Whether the call may display UI. Interactive calls supersede the queued
+   * non-interactive ones.
+   */
+  interactive: boolean;
+
+  /**
+   * The calls pending at the same time with the same key share their result.
+   */
+  coalescingKey?: string;
+
+  /**
+   * Aborting the signal drops the call if still queued.
+   */
+  signal?: AbortSignalLike;
+}
+
+interface PendingCall {
+  call: ScheduledCall<any>;
+  resolver: PromiseResolver<any>;
+  abortListener: (() => void)|null;
+}
+
+/**
+ * Ensures the queueing policy provided by the developer is valid.
+ */
+export function checkCallQueueingPolicy(policy: any) {
+  if (!policy || typeof policy !== 'object' ||
+      CALL_QUEUEING_MODES.indexOf(policy['mode']) === -1) {
+    throw new Error(
+        'Invalid queueing policy. The mode must be one of: ' +
+        `${CALL_QUEUEING_MODES.join(', ')}.`);
+  }
+  const maxQueueDepth = policy['maxQueueDepth'];
+  if (maxQueueDepth !== undefined &&
+      (typeof maxQueueDepth !== 'number' || maxQueueDepth < 0)) {
+    throw new Error(
+        'Invalid queueing policy. The maximum queue depth must be a number ' +
+        'greater than or equal to 0.');
+  }
+}
+
+/**
+ * Schedules the calls of the API according to the queueing policy, so that
+ * concurrent calls from independent components of the page do not conflict on
+ * the provider.
+ */
+export class CallQueue {
+  private policy = DEFAULT_CALL_QUEUEING_POLICY;
+  private running: PendingCall|null = null;
+  private queue: PendingCall[] = [];
+
+  setPolicy(policy: CallQueueingPolicy) {
+    this.policy = policy;
+  }
+
+  schedule<T>(call: ScheduledCall<T>): Promise<T> {
+    if (this.policy.mode === CallQueueingMode.concurrent) {
+      return call.run();
+    }
+
+    const coalesced = this.findCoalescing(call);
+    if (coalesced) {
+      return coalesced.resolver.promise;
+    }
+
+    if (call.signal && call.signal.aborted) {
+      return Promise.reject(
+          OpenYoloInternalError.operationCanceled().toExposedError());
+    }
+
+    const pending: PendingCall = {
+      call,
+      resolver: new PromiseResolver<T>(),
+      abortListener: null
+    };
+    if (this.running === null) {
+      this.start(pending);
+      return pending.resolver.promise;
+    }
+
+    if (this.policy.maxQueueDepth !== undefined &&
+        this.queue.length >= this.policy.maxQueueDepth) {
+      return Promise.reject(
+          OpenYoloInternalError.illegalConcurrentRequestError()
+              .toExposedError());
+    }
+
+    this.enqueue(pending);
+    return pending.resolver.promise;
+  }
+
+  private findCoalescing(call: ScheduledCall<any>): PendingCall|undefined {
+    if (call.coalescingKey === undefined) {
+      return undefined;
+    }
+    const pendingCalls =
+        this.running ? [this.running].concat(this.queue) : this.queue;
+    return pendingCalls.find(
+        (pending) => pending.call.coalescingKey === call.coalescingKey);
+  }
+
+  private enqueue(pending: PendingCall) {
+    // Interactive calls supersede the non-interactive ones, which are only
+    // queued after them.
+    let index = this.queue.length;
+    if (pending.call.interactive) {
+      const firstNonInteractive =
+          this.queue.findIndex((queued) => !queued.call.interactive);
+      if (firstNonInteractive !== -1) {
+        index = firstNonInteractive;
+      }
+    }
+    this.queue.splice(index, 0, pending);
+
+    const signal = pending.call.signal;
+    if (signal) {
+      pending.abortListener = () => {
+        this.removeAbortListener(pending);
+        this.queue = this.queue.filter((queued) => queued !== pending);
+        pending.resolver.reject(
+            OpenYoloInternalError.operationCanceled().toExposedError());
+      };
+      signal.addEventListener('abort', pending.abortListener);
+    }
+  }
+
+  private start(pending: PendingCall) {
+    // Once started, the request itself handles the abortion of the signal.
+    this.removeAbortListener(pending);
+    this.running = pending;
+    let promise: Promise<any>;
+    try {
+      promise = pending.call.run();
+    } catch (e) {
+      promise = Promise.reject(e);
+    }
+    promise
+        .then(
+            (result) => {
+              pending.resolver.resolve(result);
+            },
+            (error) => {
+              pending.resolver.reject(error);
+            })
+        .then(() => {
+          this.running = null;
+          const next = this.queue.shift();
+          if (next) {
+            this.start(next);
+          }
+        });
+  }
+
+  private removeAbortListener(pending: PendingCall) {
+    if (pending.call.signal && pending.abortListener) {
+      pending.call.signal.removeEventListener('abort', pending.abortListener);
+      pending.abortListener = null;
+    }
+  }
+}
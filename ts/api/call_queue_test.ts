@@ -0,0 +1,174 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenYoloErrorType} from '../protocol/errors';
+import {PromiseResolver} from '../protocol/utils';
+import {FakeAbortController} from '../test_utils/abort';
+
+import {CallQueue, CallQueueingMode, checkCallQueueingPolicy, ScheduledCall} from './call_queue';
+
+describe('CallQueue', () => {
+  let queue: CallQueue;
+  let runs: string[];
+  let resolvers: {[name: string]: PromiseResolver<string>};
+
+  function createCall(name: string, interactive = true): ScheduledCall<string> {
+    resolvers[name] = new PromiseResolver<string>();
+    return {
+      run: () => {
+        runs.push(name);
+        return resolvers[name].promise;
+      },
+      interactive
+    };
+  }
+
+  async function flushPromises() {
+    for (let i = 0; i < 10; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  beforeEach(() => {
+    queue = new CallQueue();
+    queue.setPolicy({mode: CallQueueingMode.queue});
+    runs = [];
+    resolvers = {};
+  });
+
+  it('runs the calls immediately by default', () => {
+    queue = new CallQueue();
+    queue.schedule(createCall('first'));
+    queue.schedule(createCall('second'));
+    expect(runs).toEqual(['first', 'second']);
+  });
+
+  it('runs the calls one at a time, in order', async function(done) {
+    const first = queue.schedule(createCall('first'));
+    const second = queue.schedule(createCall('second'));
+    expect(runs).toEqual(['first']);
+
+    resolvers['first'].resolve('first result');
+    expect(await first).toEqual('first result');
+    await flushPromises();
+    expect(runs).toEqual(['first', 'second']);
+
+    resolvers['second'].resolve('second result');
+    expect(await second).toEqual('second result');
+    done();
+  });
+
+  it('runs the next call once the previous one failed', async function(done) {
+    const first = queue.schedule(createCall('first'));
+    queue.schedule(createCall('second'));
+    resolvers['first'].reject(new Error('ERROR!'));
+    try {
+      await first;
+      done.fail('Should not resolve!');
+    } catch (e) {
+      await flushPromises();
+      expect(runs).toEqual(['first', 'second']);
+      done();
+    }
+  });
+
+  it('runs the calls immediately in concurrent mode', () => {
+    queue.setPolicy({mode: CallQueueingMode.concurrent});
+    queue.schedule(createCall('first'));
+    queue.schedule(createCall('second'));
+    expect(runs).toEqual(['first', 'second']);
+  });
+
+  it('coalesces the pending calls with the same key', async function(done) {
+    const call = createCall('first', false);
+    call.coalescingKey = 'key';
+    const first = queue.schedule(call);
+    const second =
+        queue.schedule({...createCall('second'), coalescingKey: 'key'});
+    expect(second).toBe(first);
+
+    resolvers['first'].resolve('result');
+    await flushPromises();
+    expect(runs).toEqual(['first']);
+    done();
+  });
+
+  it('runs the interactive calls before the queued non-interactive ones',
+     async function(done) {
+       queue.schedule(createCall('first'));
+       queue.schedule(createCall('nonInteractive', false));
+       queue.schedule(createCall('interactive'));
+
+       resolvers['first'].resolve('result');
+       await flushPromises();
+       resolvers['interactive'].resolve('result');
+       await flushPromises();
+       expect(runs).toEqual(['first', 'interactive', 'nonInteractive']);
+       done();
+     });
+
+  it('drops the queued call once aborted', async function(done) {
+    const controller = new FakeAbortController();
+    queue.schedule(createCall('first'));
+    const second =
+        queue.schedule({...createCall('second'), signal: controller.signal});
+    controller.abort();
+    try {
+      await second;
+      done.fail('Should not resolve!');
+    } catch (e) {
+      expect(e.type).toEqual(OpenYoloErrorType.operationCanceled);
+      expect(controller.signal.listeners).toEqual([]);
+      resolvers['first'].resolve('result');
+      await flushPromises();
+      expect(runs).toEqual(['first']);
+      done();
+    }
+  });
+
+  it('rejects the calls beyond the maximum queue depth', async function(done) {
+    queue.setPolicy({mode: CallQueueingMode.queue, maxQueueDepth: 1});
+    queue.schedule(createCall('first'));
+    queue.schedule(createCall('second'));
+    try {
+      await queue.schedule(createCall('third'));
+      done.fail('Should not resolve!');
+    } catch (e) {
+      expect(e.type).toEqual(OpenYoloErrorType.illegalConcurrentRequest);
+      done();
+    }
+  });
+
+  describe('checkCallQueueingPolicy', () => {
+    it('accepts a valid policy', () => {
+      expect(() => {
+        checkCallQueueingPolicy({mode: 'queue', maxQueueDepth: 3});
+      }).not.toThrow();
+    });
+
+    it('rejects an unknown mode', () => {
+      expect(() => {
+        checkCallQueueingPolicy({mode: 'unknown'});
+      }).toThrowError(/Invalid queueing policy/);
+    });
+
+    it('rejects an invalid maximum queue depth', () => {
+      expect(() => {
+        checkCallQueueingPolicy({mode: 'queue', maxQueueDepth: -1});
+      }).toThrowError(/Invalid queueing policy/);
+    });
+  });
+});
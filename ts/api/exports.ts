@@ -17,10 +17,24 @@
 import {OpenYoloError} from '../protocol/errors';
 
 import {FakeOpenYoloApi, InitializeOnDemandApi, openyolo} from './api';
+import {bootstrapIfRequested} from './bootstrap';
+import {FormBinder} from './form_binder';
 
 // re-export all the data types
 export * from '../protocol/data';
+export {CallOptions, OperationTimeouts, PrepareOptions, ProviderEndpoint, TimeoutBudget} from './api';
+export {PreloadRequest, PreloadRequestType} from '../protocol/preload_request';
+export {AbortSignalLike} from './base_request';
+export {CallQueueingMode, CallQueueingPolicy} from './call_queue';
+export {FormBinder, FormBinderOptions} from './form_binder';
+export {IdTokenPolicy, IdTokenSignatureVerifier} from './id_token';
+export {FrameAnimation, FrameStyle, FrameStyleConfig} from './frame_style';
+export {RetryPolicy} from './retry_policy';
+export {SignInHooks, SignInOptions, SignInResult, SignInResultType} from './sign_in';
+export {LifecycleEvent, LifecycleEventListener, LifecycleEventType} from './lifecycle_events';
 export {OpenYoloInternalError, InternalErrorCode} from '../protocol/errors';
+export {checkPassword, PasswordViolation, PasswordViolationType} from '../protocol/password_checker';
+export {parsePasswordRules, serializePasswordRules} from '../protocol/password_rules';
 
 // Export the public methods.
 const windowAsAny = window as any;
@@ -31,14 +45,40 @@ InitializeOnDemandApi.prototype['setFeatureConfig'] =
     InitializeOnDemandApi.prototype.setFeatureConfig;
 InitializeOnDemandApi.prototype['setRenderMode'] =
     InitializeOnDemandApi.prototype.setRenderMode;
+InitializeOnDemandApi.prototype['setFrameStyle'] =
+    InitializeOnDemandApi.prototype.setFrameStyle;
 InitializeOnDemandApi.prototype['setTimeouts'] =
     InitializeOnDemandApi.prototype.setTimeouts;
+InitializeOnDemandApi.prototype['setProviders'] =
+    InitializeOnDemandApi.prototype.setProviders;
+InitializeOnDemandApi.prototype['setCallQueueingPolicy'] =
+    InitializeOnDemandApi.prototype.setCallQueueingPolicy;
+InitializeOnDemandApi.prototype['setRetryPolicy'] =
+    InitializeOnDemandApi.prototype.setRetryPolicy;
+InitializeOnDemandApi.prototype['setIdTokenPolicy'] =
+    InitializeOnDemandApi.prototype.setIdTokenPolicy;
+InitializeOnDemandApi.prototype['addEventListener'] =
+    InitializeOnDemandApi.prototype.addEventListener;
+InitializeOnDemandApi.prototype['removeEventListener'] =
+    InitializeOnDemandApi.prototype.removeEventListener;
+InitializeOnDemandApi.prototype['getProvider'] =
+    InitializeOnDemandApi.prototype.getProvider;
+InitializeOnDemandApi.prototype['prepare'] =
+    InitializeOnDemandApi.prototype.prepare;
+InitializeOnDemandApi.prototype['signIn'] =
+    InitializeOnDemandApi.prototype.signIn;
+InitializeOnDemandApi.prototype['signOut'] =
+    InitializeOnDemandApi.prototype.signOut;
+InitializeOnDemandApi.prototype['bindForm'] =
+    InitializeOnDemandApi.prototype.bindForm;
 InitializeOnDemandApi.prototype['hintsAvailable'] =
     InitializeOnDemandApi.prototype.hintsAvailable;
 InitializeOnDemandApi.prototype['hint'] = InitializeOnDemandApi.prototype.hint;
 InitializeOnDemandApi.prototype['retrieve'] =
     InitializeOnDemandApi.prototype.retrieve;
 InitializeOnDemandApi.prototype['save'] = InitializeOnDemandApi.prototype.save;
+InitializeOnDemandApi.prototype['deleteCredential'] =
+    InitializeOnDemandApi.prototype.deleteCredential;
 InitializeOnDemandApi.prototype['disableAutoSignIn'] =
     InitializeOnDemandApi.prototype.disableAutoSignIn;
 InitializeOnDemandApi.prototype['proxyLogin'] =
@@ -52,20 +92,51 @@ FakeOpenYoloApi.prototype['setFeatureConfig'] =
     FakeOpenYoloApi.prototype.setFeatureConfig;
 FakeOpenYoloApi.prototype['setRenderMode'] =
     FakeOpenYoloApi.prototype.setRenderMode;
+FakeOpenYoloApi.prototype['setFrameStyle'] =
+    FakeOpenYoloApi.prototype.setFrameStyle;
 FakeOpenYoloApi.prototype['setTimeouts'] =
     FakeOpenYoloApi.prototype.setTimeouts;
+FakeOpenYoloApi.prototype['setProviders'] =
+    FakeOpenYoloApi.prototype.setProviders;
+FakeOpenYoloApi.prototype['setCallQueueingPolicy'] =
+    FakeOpenYoloApi.prototype.setCallQueueingPolicy;
+FakeOpenYoloApi.prototype['setRetryPolicy'] =
+    FakeOpenYoloApi.prototype.setRetryPolicy;
+FakeOpenYoloApi.prototype['setIdTokenPolicy'] =
+    FakeOpenYoloApi.prototype.setIdTokenPolicy;
+FakeOpenYoloApi.prototype['addEventListener'] =
+    FakeOpenYoloApi.prototype.addEventListener;
+FakeOpenYoloApi.prototype['removeEventListener'] =
+    FakeOpenYoloApi.prototype.removeEventListener;
+FakeOpenYoloApi.prototype['getProvider'] =
+    FakeOpenYoloApi.prototype.getProvider;
+FakeOpenYoloApi.prototype['prepare'] = FakeOpenYoloApi.prototype.prepare;
+FakeOpenYoloApi.prototype['signIn'] = FakeOpenYoloApi.prototype.signIn;
+FakeOpenYoloApi.prototype['signOut'] = FakeOpenYoloApi.prototype.signOut;
+FakeOpenYoloApi.prototype['bindForm'] = FakeOpenYoloApi.prototype.bindForm;
 FakeOpenYoloApi.prototype['hintsAvailable'] =
     FakeOpenYoloApi.prototype.hintsAvailable;
 FakeOpenYoloApi.prototype['hint'] = FakeOpenYoloApi.prototype.hint;
 FakeOpenYoloApi.prototype['retrieve'] = FakeOpenYoloApi.prototype.retrieve;
 FakeOpenYoloApi.prototype['save'] = FakeOpenYoloApi.prototype.save;
+FakeOpenYoloApi.prototype['deleteCredential'] =
+    FakeOpenYoloApi.prototype.deleteCredential;
 FakeOpenYoloApi.prototype['disableAutoSignIn'] =
     FakeOpenYoloApi.prototype.disableAutoSignIn;
 FakeOpenYoloApi.prototype['proxyLogin'] = FakeOpenYoloApi.prototype.proxyLogin;
 FakeOpenYoloApi.prototype['cancelLastOperation'] =
     FakeOpenYoloApi.prototype.cancelLastOperation;
 
+// Export the form binder.
+FormBinder.prototype['fill'] = FormBinder.prototype.fill;
+FormBinder.prototype['confirmSuccess'] = FormBinder.prototype.confirmSuccess;
+FormBinder.prototype['reportFailure'] = FormBinder.prototype.reportFailure;
+FormBinder.prototype['unbind'] = FormBinder.prototype.unbind;
+
 // Export the exposed errors.
 windowAsAny['OpenYoloError'] = OpenYoloError;
 OpenYoloError.prototype['type'] = OpenYoloError.prototype.type;
 OpenYoloError.prototype['message'] = OpenYoloError.prototype.message;
+
+// Configure the API from the page, if the script tag opts in to it.
+bootstrapIfRequested(document, openyolo);
@@ -0,0 +1,284 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AUTHENTICATION_METHODS, OpenYoloCredential, RequestContext} from '../protocol/data';
+import {OpenYoloErrorType} from '../protocol/errors';
+import {PasswordSpecification} from '../protocol/password_spec';
+
+import {CallOptions, OpenYoloApi} from './api';
+
+export interface FormBinderOptions {
+  /**
+   * The username field. Default: detected from the autocomplete attributes
+   * and the type of the fields.
+   */
+  usernameField?: HTMLInputElement;
+
+  /**
+   * The password field. Default: detected from the autocomplete attributes
+   * and the type of the fields.
+   */
+  passwordField?: HTMLInputElement;
+
+  /**
+   * The context of the form. Default: signUp if the form contains a
+   * new-password field, signIn otherwise.
+   */
+  context?: RequestContext;
+
+  /**
+   * The password specification of the hint request of a sign-up form.
+   */
+  passwordSpec?: PasswordSpecification;
+
+  /**
+   * The options of every call made by the binder.
+   */
+  callOptions?: CallOptions;
+}
+
+/**
+ * The types of input that may hold a username.
+ */
+const USERNAME_INPUT_TYPES = ['text', 'email', 'tel'];
+
+/**
+ * Binds a sign-in or sign-up form to the API: fills its fields with a
+ * credential or a hint, and saves the submitted credential once the app
+ * confirms the login or sign-up succeeded.
+ *
+ * A submission alone does not tell whether the login succeeded, so the
+ * submitted credential is only kept pending until `confirmSuccess` saves it
+ * or `reportFailure` discards it. A credential retrieved and submitted
+ * unchanged is already stored, and is not saved again.
+ *
+ * The pending credential is only kept in memory, and is lost if the page
+ * navigates: only forms submitted without leaving the page, e.g. through
+ * `fetch`, can have their credential saved.
+ */
+export class FormBinder {
+  readonly usernameField: HTMLInputElement;
+  readonly passwordField: HTMLInputElement|null;
+  readonly context: RequestContext;
+  private filledCredential: OpenYoloCredential|null = null;
+  private filledFromHint = false;
+  private pendingCredential: OpenYoloCredential|null = null;
+  private submitListener: (ev: Event) => void;
+
+  constructor(
+      private form: HTMLFormElement,
+      private api: OpenYoloApi,
+      private options: FormBinderOptions = {}) {
+    if (!form || form.tagName !== 'FORM') {
+      throw new Error('Invalid form. It must be a form element.');
+    }
+    const inputs = getInputs(form);
+    this.passwordField = options.passwordField || findPasswordField(inputs);
+    const usernameField =
+        options.usernameField || findUsernameField(inputs, this.passwordField);
+    if (!usernameField) {
+      throw new Error('Invalid form. No username field was found.');
+    }
+    this.usernameField = usernameField;
+    this.context = options.context ||
+        (this.passwordField &&
+                 hasAutocompleteToken(this.passwordField, 'new-password') ?
+             RequestContext.signUp :
+             RequestContext.signIn);
+    this.submitListener = () => this.handleSubmit();
+    form.addEventListener('submit', this.submitListener);
+  }
+
+  /**
+   * Fills the fields of the form: with an existing credential, or a hint if
+   * none is available, in a sign-in form; with a hint, including its generated
+   * password, in a sign-up form. Resolves with the credential used, or null if
+   * none is available or the user canceled.
+   */
+  async fill(): Promise<OpenYoloCredential|null> {
+    let credential: OpenYoloCredential|null = null;
+    if (this.context !== RequestContext.signUp) {
+      credential = await this.request(
+          () => this.api.retrieve(
+              {
+                supportedAuthMethods: [AUTHENTICATION_METHODS.ID_AND_PASSWORD],
+                context: this.context
+              },
+              this.options.callOptions));
+    }
+    this.filledFromHint = !credential;
+    if (!credential) {
+      credential = await this.request(
+          () => this.api.hint(
+              {
+                supportedAuthMethods: [AUTHENTICATION_METHODS.ID_AND_PASSWORD],
+                passwordSpec: this.options.passwordSpec,
+                context: this.context
+              },
+              this.options.callOptions));
+    }
+    if (!credential) return null;
+
+    setValue(this.usernameField, credential.id);
+    const password = this.context === RequestContext.signUp ?
+        credential.generatedPassword :
+        credential.password;
+    if (password) {
+      this.getPasswordFields().forEach((field) => setValue(field, password));
+    }
+    this.filledCredential = credential;
+    return credential;
+  }
+
+  /**
+   * Saves the credential of the last submission, once the app confirmed the
+   * login or sign-up succeeded. Resolves with whether a credential was saved.
+   */
+  async confirmSuccess(): Promise<boolean> {
+    const credential = this.pendingCredential;
+    if (!credential) return false;
+    this.pendingCredential = null;
+    await this.api.save(credential, this.options.callOptions);
+    return true;
+  }
+
+  /**
+   * Discards the credential of the last submission, as the login or sign-up
+   * failed.
+   */
+  reportFailure() {
+    this.pendingCredential = null;
+  }
+
+  /**
+   * Stops listening to the submissions of the form.
+   */
+  unbind() {
+    this.form.removeEventListener('submit', this.submitListener);
+    this.pendingCredential = null;
+  }
+
+  private handleSubmit() {
+    const id = this.usernameField.value.trim();
+    const password = this.passwordField ? this.passwordField.value : '';
+    if (!id || !password) {
+      this.pendingCredential = null;
+      return;
+    }
+    const credential: OpenYoloCredential = {
+      id,
+      password,
+      authMethod: AUTHENTICATION_METHODS.ID_AND_PASSWORD
+    };
+    const filled = this.filledCredential;
+    if (filled && !this.filledFromHint && filled.id === id &&
+        filled.password === password) {
+      // The retrieved credential was submitted unchanged.
+      this.pendingCredential = null;
+      return;
+    }
+    if (filled && filled.id === id && filled.displayName) {
+      credential.displayName = filled.displayName;
+    }
+    this.pendingCredential = credential;
+  }
+
+  /**
+   * Runs the request, resolving with null if no credential is available or
+   * the user canceled.
+   */
+  private async request(send: () => Promise<OpenYoloCredential>):
+      Promise<OpenYoloCredential|null> {
+    try {
+      return await send();
+    } catch (e) {
+      if (e &&
+          (e.type === OpenYoloErrorType.noCredentialsAvailable ||
+           e.type === OpenYoloErrorType.userCanceled)) {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * The fields filled with the password: in a sign-up form, every new-password
+   * field, so that the confirmation field is filled too.
+   */
+  private getPasswordFields(): HTMLInputElement[] {
+    if (!this.passwordField) return [];
+    if (this.context !== RequestContext.signUp) return [this.passwordField];
+    const fields = getInputs(this.form).filter(
+        (input) => input !== this.passwordField &&
+            hasAutocompleteToken(input, 'new-password'));
+    return [this.passwordField].concat(fields);
+  }
+}
+
+function getInputs(form: HTMLFormElement): HTMLInputElement[] {
+  return Array.prototype.slice.call(form.querySelectorAll('input'));
+}
+
+function hasAutocompleteToken(input: HTMLInputElement, token: string) {
+  const autocomplete = (input.getAttribute('autocomplete') || '').toLowerCase();
+  return autocomplete.split(/\s+/).indexOf(token) !== -1;
+}
+
+function getInputType(input: HTMLInputElement) {
+  return (input.getAttribute('type') || 'text').toLowerCase();
+}
+
+function findPasswordField(inputs: HTMLInputElement[]): HTMLInputElement|null {
+  return inputs.find((input) => hasAutocompleteToken(input, 'new-password')) ||
+      inputs.find((input) => hasAutocompleteToken(input, 'current-password')) ||
+      inputs.find((input) => getInputType(input) === 'password') || null;
+}
+
+/**
+ * Finds the username field: the field with a username or email autocomplete
+ * token, else the email field, else the last text field preceding the
+ * password field.
+ */
+function findUsernameField(
+    inputs: HTMLInputElement[],
+    passwordField: HTMLInputElement|null): HTMLInputElement|null {
+  const candidates = inputs.filter(
+      (input) => USERNAME_INPUT_TYPES.indexOf(getInputType(input)) !== -1);
+  const byAutocomplete =
+      candidates.find((input) => hasAutocompleteToken(input, 'username')) ||
+      candidates.find((input) => hasAutocompleteToken(input, 'email')) ||
+      candidates.find((input) => getInputType(input) === 'email');
+  if (byAutocomplete) return byAutocomplete;
+  const passwordIndex =
+      passwordField ? inputs.indexOf(passwordField) : inputs.length;
+  const preceding =
+      candidates.filter((input) => inputs.indexOf(input) < passwordIndex);
+  return preceding.length ? preceding[preceding.length - 1] :
+                            candidates[0] || null;
+}
+
+/**
+ * Sets the value of the field, notifying the listeners of the page as if the
+ * user typed it.
+ */
+function setValue(input: HTMLInputElement, value: string) {
+  input.value = value;
+  ['input', 'change'].forEach((type) => {
+    const ev = input.ownerDocument.createEvent('Event');
+    ev.initEvent(type, true, false);
+    input.dispatchEvent(ev);
+  });
+}
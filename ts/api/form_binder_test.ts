@@ -0,0 +1,274 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AUTHENTICATION_METHODS, OpenYoloCredential, RequestContext} from '../protocol/data';
+import {OpenYoloInternalError} from '../protocol/errors';
+
+import {OpenYoloApi} from './api';
+import {FormBinder} from './form_binder';
+
+describe('FormBinder', () => {
+  const credential: OpenYoloCredential = {
+    id: 'jdoe@example.com',
+    authMethod: AUTHENTICATION_METHODS.ID_AND_PASSWORD,
+    displayName: 'John Doe',
+    password: 'secret'
+  };
+  const noCredentialsAvailable = () => Promise.reject(
+      OpenYoloInternalError.noCredentialsAvailable().toExposedError());
+
+  let api: {[key in keyof OpenYoloApi]: jasmine.Spy};
+  let form: HTMLFormElement;
+
+  beforeEach(() => {
+    api = jasmine.createSpyObj('OpenYoloApi', ['retrieve', 'hint', 'save']);
+    form = document.createElement('form');
+    document.body.appendChild(form);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(form);
+  });
+
+  function addInput(attributes: {[name: string]: string}): HTMLInputElement {
+    const input = document.createElement('input');
+    Object.keys(attributes)
+        .forEach((name) => input.setAttribute(name, attributes[name]));
+    form.appendChild(input);
+    return input;
+  }
+
+  function submit() {
+    const ev = document.createEvent('Event');
+    ev.initEvent('submit', true, true);
+    form.dispatchEvent(ev);
+  }
+
+  describe('field detection', () => {
+    it('uses the autocomplete attributes', () => {
+      addInput({type: 'text', name: 'search'});
+      const username = addInput({type: 'text', autocomplete: 'username'});
+      const password =
+          addInput({type: 'password', autocomplete: 'current-password'});
+      const binder = new FormBinder(form, api as any);
+      expect(binder.usernameField).toBe(username);
+      expect(binder.passwordField).toBe(password);
+      expect(binder.context).toEqual(RequestContext.signIn);
+    });
+
+    it('falls back to the text field preceding the password', () => {
+      addInput({type: 'text', name: 'search'});
+      const username = addInput({name: 'login'});
+      const password = addInput({type: 'password'});
+      addInput({type: 'text', name: 'captcha'});
+      const binder = new FormBinder(form, api as any);
+      expect(binder.usernameField).toBe(username);
+      expect(binder.passwordField).toBe(password);
+    });
+
+    it('detects a sign-up form', () => {
+      addInput({type: 'email'});
+      addInput({type: 'password', autocomplete: 'new-password'});
+      const binder = new FormBinder(form, api as any);
+      expect(binder.context).toEqual(RequestContext.signUp);
+    });
+
+    it('throws without a username field', () => {
+      addInput({type: 'password'});
+      expect(() => new FormBinder(form, api as any))
+          .toThrowError(/^Invalid form/);
+    });
+  });
+
+  describe('fill', () => {
+    it('fills the fields with an existing credential', async function(done) {
+      const username = addInput({autocomplete: 'username'});
+      const password = addInput({type: 'password'});
+      const inputListener = jasmine.createSpy('inputListener');
+      username.addEventListener('input', inputListener);
+      api.retrieve.and.returnValue(Promise.resolve(credential));
+      const binder = new FormBinder(form, api as any);
+      expect(await binder.fill()).toBe(credential);
+      expect(api.retrieve)
+          .toHaveBeenCalledWith(
+              {
+                supportedAuthMethods: [AUTHENTICATION_METHODS.ID_AND_PASSWORD],
+                context: RequestContext.signIn
+              },
+              undefined);
+      expect(username.value).toEqual('jdoe@example.com');
+      expect(password.value).toEqual('secret');
+      expect(inputListener).toHaveBeenCalled();
+      expect(api.hint).not.toHaveBeenCalled();
+      done();
+    });
+
+    it('falls back to a hint without its password', async function(done) {
+      const username = addInput({autocomplete: 'username'});
+      const password = addInput({type: 'password'});
+      api.retrieve.and.callFake(noCredentialsAvailable);
+      api.hint.and.returnValue(Promise.resolve(
+          {...credential, password: undefined, generatedPassword: 'gen'}));
+      const binder = new FormBinder(form, api as any);
+      await binder.fill();
+      expect(username.value).toEqual('jdoe@example.com');
+      expect(password.value).toEqual('');
+      done();
+    });
+
+    it('fills the generated password in a sign-up form', async function(done) {
+      addInput({type: 'email'});
+      const password =
+          addInput({type: 'password', autocomplete: 'new-password'});
+      const confirmation =
+          addInput({type: 'password', autocomplete: 'new-password'});
+      api.hint.and.returnValue(
+          Promise.resolve({...credential, generatedPassword: 'gen'}));
+      const binder = new FormBinder(form, api as any);
+      await binder.fill();
+      expect(api.retrieve).not.toHaveBeenCalled();
+      expect(password.value).toEqual('gen');
+      expect(confirmation.value).toEqual('gen');
+      done();
+    });
+
+    it('resolves with null if the user canceled', async function(done) {
+      const username = addInput({autocomplete: 'username'});
+      api.retrieve.and.returnValue(Promise.reject(
+          OpenYoloInternalError.userCanceled().toExposedError()));
+      api.hint.and.callFake(noCredentialsAvailable);
+      const binder = new FormBinder(form, api as any);
+      expect(await binder.fill()).toBeNull();
+      expect(username.value).toEqual('');
+      done();
+    });
+  });
+
+  describe('saving', () => {
+    let username: HTMLInputElement;
+    let password: HTMLInputElement;
+    let binder: FormBinder;
+
+    beforeEach(() => {
+      username = addInput({autocomplete: 'username'});
+      password = addInput({type: 'password'});
+      form.addEventListener('submit', (ev) => ev.preventDefault());
+      binder = new FormBinder(form, api as any);
+      api.save.and.returnValue(Promise.resolve());
+    });
+
+    it('saves the submitted credential once confirmed', async function(done) {
+      username.value = ' jdoe@example.com ';
+      password.value = 'secret';
+      submit();
+      expect(api.save).not.toHaveBeenCalled();
+      expect(await binder.confirmSuccess()).toBe(true);
+      expect(api.save).toHaveBeenCalledWith(
+          {
+            id: 'jdoe@example.com',
+            password: 'secret',
+            authMethod: AUTHENTICATION_METHODS.ID_AND_PASSWORD
+          },
+          undefined);
+      expect(await binder.confirmSuccess()).toBe(false);
+      expect(api.save).toHaveBeenCalledTimes(1);
+      done();
+    });
+
+    it('never saves a failed submission', async function(done) {
+      username.value = 'jdoe@example.com';
+      password.value = 'wrong';
+      submit();
+      binder.reportFailure();
+      expect(await binder.confirmSuccess()).toBe(false);
+      expect(api.save).not.toHaveBeenCalled();
+      done();
+    });
+
+    it('ignores an incomplete submission', async function(done) {
+      username.value = 'jdoe@example.com';
+      submit();
+      expect(await binder.confirmSuccess()).toBe(false);
+      expect(api.save).not.toHaveBeenCalled();
+      done();
+    });
+
+    it('does not save a retrieved credential submitted unchanged',
+       async function(done) {
+         api.retrieve.and.returnValue(Promise.resolve(credential));
+         await binder.fill();
+         submit();
+         expect(await binder.confirmSuccess()).toBe(false);
+         expect(api.save).not.toHaveBeenCalled();
+         done();
+       });
+
+    it('saves a hint with its generated password', async function(done) {
+      api.retrieve.and.callFake(noCredentialsAvailable);
+      api.hint.and.returnValue(
+          Promise.resolve({...credential, generatedPassword: 'gen'}));
+      await binder.fill();
+      password.value = 'gen';
+      submit();
+      expect(await binder.confirmSuccess()).toBe(true);
+      expect(api.save.calls.mostRecent().args[0].password).toEqual('gen');
+      done();
+    });
+
+    it('keeps the display name of the filled credential', async function(done) {
+      api.retrieve.and.returnValue(Promise.resolve(credential));
+      await binder.fill();
+      password.value = 'new-secret';
+      submit();
+      await binder.confirmSuccess();
+      expect(api.save.calls.mostRecent().args[0].displayName)
+          .toEqual('John Doe');
+      done();
+    });
+
+    it('does not keep the credential of a form navigating on submit',
+       async function(done) {
+         const navigatingForm = document.createElement('form');
+         navigatingForm.appendChild(username);
+         navigatingForm.appendChild(password);
+         document.body.appendChild(navigatingForm);
+         const navigatingBinder = new FormBinder(navigatingForm, api as any);
+         username.value = 'jdoe@example.com';
+         password.value = 'secret';
+         const ev = document.createEvent('Event');
+         ev.initEvent('submit', true, true);
+         navigatingForm.dispatchEvent(ev);
+         // Nothing is saved on submit, and the binder of the next page does
+         // not know the credential submitted on the previous one.
+         expect(api.save).not.toHaveBeenCalled();
+         const nextPageBinder = new FormBinder(navigatingForm, api as any);
+         expect(await nextPageBinder.confirmSuccess()).toBe(false);
+         expect(api.save).not.toHaveBeenCalled();
+         navigatingBinder.unbind();
+         document.body.removeChild(navigatingForm);
+         done();
+       });
+
+    it('stops listening once unbound', async function(done) {
+      binder.unbind();
+      username.value = 'jdoe@example.com';
+      password.value = 'secret';
+      submit();
+      expect(await binder.confirmSuccess()).toBe(false);
+      done();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {RENDER_MODES, RenderMode} from '../protocol/data';
+
+/**
+ * The animation of the provider frame when it is displayed and hidden.
+ */
+export interface FrameAnimation {
+  /**
+   * The duration of the transition, in milliseconds.
+   */
+  durationMs: number;
+
+  /**
+   * The CSS timing function of the transition. Default: 'ease-out'.
+   */
+  easing?: string;
+
+  /**
+   * The CSS transform the frame enters from and exits to, e.g.
+   * 'translateY(100%)'. The frame also fades in and out.
+   */
+  transform?: string;
+}
+
+/**
+ * The presentation of the provider frame in a render mode. The lengths are CSS
+ * lengths, e.g. '16px' or '50%'. The configured offsets, width and height
+ * replace the default ones of the render mode; 'auto' unsets a default offset.
+ *
+ * The configuration is only ever applied through the style properties of the
+ * elements, which Content Security Policies do not restrict, unlike injected
+ * style sheets.
+ */
+export interface FrameStyle {
+  top?: string;
+  bottom?: string;
+  left?: string;
+  right?: string;
+  width?: string;
+  height?: string;
+  maxWidth?: string;
+
+  /**
+   * The z-index of the frame, e.g. to display it above a sticky header.
+   * Default: 9999.
+   */
+  zIndex?: number;
+
+  /**
+   * The CSS color of a scrim covering the page behind the frame while it is
+   * displayed, e.g. 'rgba(0, 0, 0, 0.4)'. Default: none.
+   */
+  backdrop?: string;
+
+  /**
+   * The animation of the frame. Default: none.
+   */
+  animation?: FrameAnimation;
+
+  /**
+   * Whether the offsets are extended by the safe area insets of the device,
+   * keeping the frame clear of notches and rounded corners. Default: false.
+   */
+  safeAreaInsets?: boolean;
+}
+
+/**
+ * The presentation of the provider frame in each render mode.
+ */
+export type FrameStyleConfig = {
+  [key in RenderMode]?: FrameStyle
+};
+
+const LENGTH_PROPERTIES =
+    ['top', 'bottom', 'left', 'right', 'width', 'height', 'maxWidth'];
+
+const STYLE_PROPERTIES = LENGTH_PROPERTIES.concat(
+    ['zIndex', 'backdrop', 'animation', 'safeAreaInsets']);
+
+/**
+ * Ensures the style configuration provided by the developer is valid.
+ */
+export function checkFrameStyleConfig(config: any) {
+  if (!config || typeof config !== 'object') {
+    throw new Error(
+        'Invalid frame style. It must be a map of render mode to style.');
+  }
+  Object.keys(config).forEach((renderMode) => {
+    if (!RENDER_MODES.find((mode) => mode === renderMode)) {
+      throw new Error(
+          `Invalid frame style. Unknown render mode '${renderMode}'.`);
+    }
+    checkFrameStyle(renderMode, config[renderMode]);
+  });
+}
+
+function checkFrameStyle(renderMode: string, style: any) {
+  if (!style || typeof style !== 'object') {
+    throw new Error(`Invalid frame style for ${renderMode}.`);
+  }
+  Object.keys(style).forEach((key) => {
+    if (STYLE_PROPERTIES.indexOf(key) === -1) {
+      throw new Error(
+          `Invalid frame style for ${renderMode}. Unknown property '${key}'.`);
+    }
+  });
+  LENGTH_PROPERTIES.forEach((key) => {
+    if (style[key] !== undefined && typeof style[key] !== 'string') {
+      throw new Error(
+          `Invalid frame style for ${renderMode}. The ${key} must be a CSS ` +
+          'length.');
+    }
+  });
+  if (style['zIndex'] !== undefined && typeof style['zIndex'] !== 'number') {
+    throw new Error(
+        `Invalid frame style for ${renderMode}. The zIndex must be a number.`);
+  }
+  if (style['backdrop'] !== undefined &&
+      typeof style['backdrop'] !== 'string') {
+    throw new Error(
+        `Invalid frame style for ${renderMode}. The backdrop must be a CSS ` +
+        'color.');
+  }
+  const animation = style['animation'];
+  if (animation !== undefined &&
+      (!animation || typeof animation['durationMs'] !== 'number' ||
+       animation['durationMs'] < 0)) {
+    throw new Error(
+        `Invalid frame style for ${renderMode}. The animation duration must ` +
+        'be a number greater than or equal to 0.');
+  }
+}
@@ -0,0 +1,50 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {checkFrameStyleConfig} from './frame_style';
+
+describe('checkFrameStyleConfig', () => {
+  it('accepts a valid configuration', () => {
+    checkFrameStyleConfig({
+      navPopout: {top: '64px', zIndex: 10},
+      bottomSheet: {backdrop: 'black', animation: {durationMs: 200}}
+    });
+  });
+
+  it('throws on an unknown render mode', () => {
+    expect(() => {
+      checkFrameStyleConfig({navPopup: {top: '64px'}});
+    }).toThrowError(/Unknown render mode 'navPopup'/);
+  });
+
+  it('throws on an unknown property', () => {
+    expect(() => {
+      checkFrameStyleConfig({navPopout: {marginTop: '64px'}});
+    }).toThrowError(/Unknown property 'marginTop'/);
+  });
+
+  it('throws on an invalid length', () => {
+    expect(() => {
+      checkFrameStyleConfig({navPopout: {top: 64}});
+    }).toThrowError(/The top must be a CSS length/);
+  });
+
+  it('throws on an invalid animation', () => {
+    expect(() => {
+      checkFrameStyleConfig({bottomSheet: {animation: {}}});
+    }).toThrowError(/animation duration/);
+  });
+});
@@ -0,0 +1,204 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {IdTokenClaims, OpenYoloCredential, TokenProvider} from '../protocol/data';
+import {OpenYoloInternalError} from '../protocol/errors';
+import {generateId} from '../protocol/utils';
+
+/**
+ * Verifies the signature of the ID token, e.g. by sending it to a server.
+ * Throwing, or returning a rejected promise, rejects the token.
+ */
+export type IdTokenSignatureVerifier =
+    (idToken: string, claims: IdTokenClaims) => any;
+
+/**
+ * Defines how the ID tokens returned by the retrieve and hint requests are
+ * inspected. The claims of an accepted token are attached to the credential.
+ *
+ * The inspection only checks the claims of the token: its signature is only
+ * verified by the given verifier, and should be verified again by the server
+ * it is sent to.
+ */
+export interface IdTokenPolicy {
+  /**
+   * Whether a fresh nonce is generated for each requested token provider
+   * without one, so that a replayed token is rejected. Default: true.
+   */
+  generateNonces?: boolean;
+
+  /**
+   * The tolerated difference between the clocks of the client and the token
+   * provider, in seconds. Default: 300.
+   */
+  clockSkewSeconds?: number;
+
+  /**
+   * Verifies the signature of the token, once its claims are checked.
+   */
+  verifySignature?: IdTokenSignatureVerifier;
+}
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 300;
+
+/**
+ * Validates the policy, throwing if it is invalid.
+ */
+export function checkIdTokenPolicy(policy: IdTokenPolicy) {
+  if (!policy || typeof policy !== 'object') {
+    throw new Error('Invalid ID token policy. It must be an object.');
+  }
+  if (policy.clockSkewSeconds !== undefined &&
+      (typeof policy.clockSkewSeconds !== 'number' ||
+       !(policy.clockSkewSeconds >= 0))) {
+    throw new Error(
+        'Invalid ID token policy. The clock skew must be a number greater ' +
+        'than or equal to 0.');
+  }
+  if (policy.verifySignature !== undefined &&
+      typeof policy.verifySignature !== 'function') {
+    throw new Error(
+        'Invalid ID token policy. The signature verifier must be a function.');
+  }
+}
+
+/**
+ * Returns a copy of the token providers, with a fresh nonce for each provider
+ * without one if the policy generates them.
+ */
+export function addNonces(
+    providers: TokenProvider[]|undefined,
+    policy: IdTokenPolicy): TokenProvider[]|undefined {
+  if (!providers || policy.generateNonces === false) return providers;
+  return providers.map(
+      (provider) =>
+          provider.nonce ? provider : {...provider, nonce: generateId()});
+}
+
+/**
+ * Decodes the claims of the ID token, without verifying it.
+ */
+export function decodeIdToken(idToken: string): IdTokenClaims {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw OpenYoloInternalError.invalidIdToken('it is not a signed JWT.');
+  }
+  let claims: any;
+  try {
+    claims = JSON.parse(decodeBase64Url(parts[1]));
+  } catch (e) {
+    throw OpenYoloInternalError.invalidIdToken('its claims cannot be decoded.');
+  }
+  if (!claims || typeof claims !== 'object') {
+    throw OpenYoloInternalError.invalidIdToken('its claims cannot be decoded.');
+  }
+  return claims;
+}
+
+/**
+ * Checks the claims of the ID token against the token providers requested,
+ * then verifies its signature if the policy provides a verifier. Resolves
+ * with the claims, or rejects with an invalidIdToken error.
+ */
+export async function inspectIdToken(
+    idToken: string,
+    providers: TokenProvider[],
+    policy: IdTokenPolicy,
+    now = Date.now()): Promise<IdTokenClaims> {
+  const claims = decodeIdToken(idToken);
+  const provider = providers.find(
+      (provider) => normalizeIssuer(provider.uri) ===
+          normalizeIssuer(String(claims.iss)));
+  if (!provider) {
+    throw OpenYoloInternalError.invalidIdToken(
+        `its issuer ${claims.iss} was not requested.`);
+  }
+  if (provider.clientId) {
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (audience.indexOf(provider.clientId) === -1) {
+      throw OpenYoloInternalError.invalidIdToken(
+          'its audience does not match the client ID.');
+    }
+  }
+  if (provider.nonce && claims.nonce !== provider.nonce) {
+    throw OpenYoloInternalError.invalidIdToken(
+        'its nonce does not match the request.');
+  }
+  const clockSkewSeconds = policy.clockSkewSeconds === undefined ?
+      DEFAULT_CLOCK_SKEW_SECONDS :
+      policy.clockSkewSeconds;
+  const nowSeconds = now / 1000;
+  if (typeof claims.exp !== 'number' ||
+      claims.exp + clockSkewSeconds < nowSeconds) {
+    throw OpenYoloInternalError.invalidIdToken('it is expired.');
+  }
+  if (typeof claims.iat !== 'number' ||
+      claims.iat - clockSkewSeconds > nowSeconds) {
+    throw OpenYoloInternalError.invalidIdToken('it is issued in the future.');
+  }
+  if (policy.verifySignature) {
+    try {
+      await policy.verifySignature(idToken, claims);
+    } catch (e) {
+      throw OpenYoloInternalError.invalidIdToken(
+          'its signature cannot be verified.');
+    }
+  }
+  return claims;
+}
+
+/**
+ * Inspects the ID token of the credential, if any, resolving with a copy of
+ * the credential including its claims.
+ */
+export async function attachIdTokenClaims(
+    credential: OpenYoloCredential,
+    providers: TokenProvider[]|undefined,
+    policy: IdTokenPolicy): Promise<OpenYoloCredential> {
+  if (!credential || !credential.idToken) return credential;
+  let idTokenClaims: IdTokenClaims;
+  try {
+    idTokenClaims =
+        await inspectIdToken(credential.idToken, providers || [], policy);
+  } catch (e) {
+    throw e instanceof OpenYoloInternalError ? e.toExposedError() : e;
+  }
+  return {...credential, idTokenClaims};
+}
+
+/**
+ * The issuers are compared regardless of their scheme, as some providers omit
+ * it, and of a trailing slash.
+ */
+function normalizeIssuer(issuer: string): string {
+  return issuer.replace(/^https:\/\//, '').replace(/\/$/, '');
+}
+
+/**
+ * Decodes the base64url encoded UTF-8 string.
+ */
+function decodeBase64Url(value: string): string {
+  let base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  while (base64.length % 4) {
+    base64 += '=';
+  }
+  const bytes = atob(base64);
+  const escaped: string[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    escaped.push('%' + ('0' + bytes.charCodeAt(i).toString(16)).slice(-2));
+  }
+  return decodeURIComponent(escaped.join(''));
+}
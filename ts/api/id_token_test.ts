@@ -0,0 +1,202 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {IdTokenClaims, TokenProvider} from '../protocol/data';
+import {InternalErrorCode, OpenYoloErrorType, OpenYoloInternalError} from '../protocol/errors';
+
+import {addNonces, attachIdTokenClaims, checkIdTokenPolicy, decodeIdToken, inspectIdToken} from './id_token';
+
+/**
+ * Encodes an unsigned JWT with the claims given.
+ */
+function encodeIdToken(claims: {}): string {
+  const encode = (value: {}) =>
+      btoa(encodeURIComponent(JSON.stringify(value))
+               .replace(
+                   /%([0-9A-F]{2})/g,
+                   (match, hex) => String.fromCharCode(parseInt(hex, 16))))
+          .replace(/\+/g, '-')
+          .replace(/\//g, '_')
+          .replace(/=+$/, '');
+  return `${encode({alg: 'RS256'})}.${encode(claims)}.signature`;
+}
+
+describe('id_token', () => {
+  const now = 1500000000000;
+  const provider: TokenProvider = {
+    uri: 'https://accounts.google.com',
+    clientId: 'client',
+    nonce: 'nonce'
+  };
+  const claims: IdTokenClaims = {
+    iss: 'accounts.google.com',
+    sub: '1234',
+    aud: 'client',
+    exp: now / 1000 + 3600,
+    iat: now / 1000,
+    nonce: 'nonce',
+    name: 'Jöhn Doe'
+  };
+
+  async function expectInvalid(promise: Promise<any>) {
+    try {
+      await promise;
+      fail('Should have been rejected.');
+    } catch (e) {
+      expect(OpenYoloInternalError.errorIs(e, InternalErrorCode.invalidIdToken))
+          .toBe(true);
+    }
+  }
+
+  describe('checkIdTokenPolicy', () => {
+    it('accepts a valid policy', () => {
+      expect(
+          () => checkIdTokenPolicy(
+              {clockSkewSeconds: 0, verifySignature: () => {}}))
+          .not.toThrow();
+    });
+
+    it('rejects an invalid policy', () => {
+      expect(() => checkIdTokenPolicy({clockSkewSeconds: -1}))
+          .toThrowError(/^Invalid ID token policy.*greater than or equal to 0/);
+      expect(() => checkIdTokenPolicy({clockSkewSeconds: NaN}))
+          .toThrowError(/^Invalid ID token policy/);
+      expect(() => checkIdTokenPolicy({verifySignature: 'verify' as any}))
+          .toThrowError(/^Invalid ID token policy/);
+    });
+  });
+
+  describe('addNonces', () => {
+    it('generates a nonce for the providers without one', () => {
+      const providers = addNonces([{uri: 'a'}, {uri: 'b', nonce: 'kept'}], {})!;
+      expect(providers[0].nonce).toMatch(/^[0-9a-f]+$/);
+      expect(providers[1].nonce).toEqual('kept');
+    });
+
+    it('does not generate nonces if disabled', () => {
+      const providers = [{uri: 'a'}];
+      expect(addNonces(providers, {generateNonces: false})).toBe(providers);
+    });
+  });
+
+  describe('decodeIdToken', () => {
+    it('decodes the claims', () => {
+      expect(decodeIdToken(encodeIdToken(claims))).toEqual(claims);
+    });
+
+    it('throws on a malformed token', () => {
+      ['abc', 'a.!!!.c', 'a.bnVsbA.c'].forEach((token) => {
+        try {
+          decodeIdToken(token);
+          fail('Should have thrown.');
+        } catch (e) {
+          expect(OpenYoloInternalError.errorIs(
+                     e, InternalErrorCode.invalidIdToken))
+              .toBe(true);
+        }
+      });
+    });
+  });
+
+  describe('inspectIdToken', () => {
+    it('resolves with the claims of a valid token', async function(done) {
+      const result =
+          await inspectIdToken(encodeIdToken(claims), [provider], {}, now);
+      expect(result).toEqual(claims);
+      done();
+    });
+
+    it('rejects a token of a provider not requested', async function(done) {
+      await expectInvalid(inspectIdToken(
+          encodeIdToken({...claims, iss: 'https://evil.example.com'}),
+          [provider],
+          {},
+          now));
+      done();
+    });
+
+    it('rejects a token of another audience', async function(done) {
+      await expectInvalid(inspectIdToken(
+          encodeIdToken({...claims, aud: ['other']}), [provider], {}, now));
+      done();
+    });
+
+    it('rejects a token with another nonce', async function(done) {
+      await expectInvalid(inspectIdToken(
+          encodeIdToken({...claims, nonce: 'replayed'}), [provider], {}, now));
+      done();
+    });
+
+    it('tolerates the clock skew', async function(done) {
+      const token = encodeIdToken(
+          {...claims, exp: now / 1000 - 60, iat: now / 1000 + 60});
+      await inspectIdToken(token, [provider], {clockSkewSeconds: 120}, now);
+      await expectInvalid(
+          inspectIdToken(token, [provider], {clockSkewSeconds: 30}, now));
+      done();
+    });
+
+    it('verifies the signature', async function(done) {
+      const token = encodeIdToken(claims);
+      const verifySignature =
+          jasmine.createSpy('verifySignature')
+              .and.returnValue(Promise.reject(new Error('Bad signature')));
+      await expectInvalid(
+          inspectIdToken(token, [provider], {verifySignature}, now));
+      expect(verifySignature).toHaveBeenCalledWith(token, claims);
+      done();
+    });
+  });
+
+  describe('attachIdTokenClaims', () => {
+    it('returns a credential without ID token as is', async function(done) {
+      const credential = {id: 'jdoe', authMethod: 'test'};
+      expect(await attachIdTokenClaims(credential, [provider], {}))
+          .toBe(credential);
+      done();
+    });
+
+    it('rejects with an exposed error', async function(done) {
+      const credential = {
+        id: 'jdoe',
+        authMethod: 'test',
+        idToken: encodeIdToken(claims)
+      };
+      try {
+        await attachIdTokenClaims(credential, [], {});
+        fail('Should have been rejected.');
+      } catch (e) {
+        expect(e.type).toEqual(OpenYoloErrorType.requestFailed);
+      }
+      done();
+    });
+
+    it('rethrows unexpected errors as is', async function(done) {
+      const credential = {
+        id: 'jdoe',
+        authMethod: 'test',
+        idToken: encodeIdToken(claims)
+      };
+      try {
+        await attachIdTokenClaims(credential, [null as any], {});
+        fail('Should have been rejected.');
+      } catch (e) {
+        expect(e instanceof TypeError).toBe(true);
+      }
+      done();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenYoloErrorType} from '../protocol/errors';
+
+/**
+ * The types of the events emitted along the lifecycle of the API.
+ */
+export const enum LifecycleEventType {
+  /** The initialization of the API started, on the first call. */
+  initializationStarted = 'initializationStarted',
+  /** The secure channel with the provider is connected. */
+  channelConnected = 'channelConnected',
+  /** The initialization of the API failed. */
+  initializationFailed = 'initializationFailed',
+  /** The initialization will be attempted again, after a delay. */
+  initializationRetrying = 'initializationRetrying',
+  /** The container of the provider, IFrame or popup, was created. */
+  containerCreated = 'containerCreated',
+  /** The container of the provider was made visible. */
+  containerDisplayed = 'containerDisplayed',
+  /** The container of the provider was hidden. */
+  containerHidden = 'containerHidden',
+  /** The container of the provider was closed by the user. */
+  containerClosed = 'containerClosed',
+  /** The container of the provider was removed. */
+  containerDisposed = 'containerDisposed',
+  /** A request was sent to the provider. */
+  requestStarted = 'requestStarted',
+  /** The provider requested the display of its UI for a request. */
+  providerDisplayed = 'providerDisplayed',
+  /** A request resolved. */
+  requestSucceeded = 'requestSucceeded',
+  /** A request was rejected. */
+  requestFailed = 'requestFailed'
+}
+
+/**
+ * An event emitted along the lifecycle of the API. Events never carry the
+ * contents of the credentials.
+ */
+export interface LifecycleEvent {
+  type: LifecycleEventType;
+
+  /**
+   * The time of the event, in milliseconds since the epoch.
+   */
+  timestamp: number;
+
+  /**
+   * The operation of the API the event pertains to, if any.
+   */
+  operation?: string;
+
+  /**
+   * The ID of the request the event pertains to, if any.
+   */
+  requestId?: string;
+
+  /**
+   * The URL base of the provider the event pertains to, if any. It identifies
+   * the provider which served the result of a request.
+   */
+  provider?: string;
+
+  /**
+   * The number of the attempt of the initialization, starting at 1, for the
+   * events of the initialization.
+   */
+  attempt?: number;
+
+  /**
+   * The delay before the next attempt of the initialization, in milliseconds.
+   */
+  retryDelay?: number;
+
+  /**
+   * The time elapsed since the start of the initialization or the request, in
+   * milliseconds, for the events completing them.
+   */
+  duration?: number;
+
+  /**
+   * The type of the error, for the events of a failure.
+   */
+  errorType?: OpenYoloErrorType;
+}
+
+export type LifecycleEventListener = (event: LifecycleEvent) => void;
+
+/**
+ * Dispatches the lifecycle events to the registered listeners.
+ */
+export class LifecycleEventEmitter {
+  private listeners: LifecycleEventListener[] = [];
+
+  addListener(listener: LifecycleEventListener): void {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: LifecycleEventListener): void {
+    this.listeners = this.listeners.filter((l) => l !== listener);
+  }
+
+  /**
+   * Emits the event, timestamped now, to a copy of the listeners. A failing
+   * listener does not prevent the others from being notified, nor disrupts
+   * the operation of the API: its error is rethrown asynchronously.
+   */
+  emit(event: Partial<LifecycleEvent>&{type: LifecycleEventType}): void {
+    const timestampedEvent: LifecycleEvent = {...event, timestamp: Date.now()};
+    this.listeners.slice().forEach((listener) => {
+      try {
+        listener(timestampedEvent);
+      } catch (e) {
+        window.setTimeout(() => {
+          throw e;
+        });
+      }
+    });
+  }
+}
+
+/**
+ * The context in which a request emits its lifecycle events.
+ */
+export interface RequestEventContext {
+  emitter: LifecycleEventEmitter;
+  operation: string;
+  provider?: string;
+}
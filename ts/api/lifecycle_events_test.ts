@@ -0,0 +1,67 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {LifecycleEvent, LifecycleEventEmitter, LifecycleEventType} from './lifecycle_events';
+
+describe('LifecycleEventEmitter', () => {
+  let emitter: LifecycleEventEmitter;
+
+  beforeEach(() => {
+    emitter = new LifecycleEventEmitter();
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(1000));
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('emits timestamped events to the listeners', () => {
+    const listener = jasmine.createSpy('listener');
+    emitter.addListener(listener);
+    emitter.emit({type: LifecycleEventType.requestStarted, requestId: '1'});
+    const expectedEvent: LifecycleEvent = {
+      type: LifecycleEventType.requestStarted,
+      requestId: '1',
+      timestamp: 1000
+    };
+    expect(listener).toHaveBeenCalledWith(expectedEvent);
+  });
+
+  it('does not emit to the removed listeners', () => {
+    const listener = jasmine.createSpy('listener');
+    emitter.addListener(listener);
+    emitter.removeListener(listener);
+    emitter.emit({type: LifecycleEventType.requestStarted});
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('emits to the other listeners when one fails', () => {
+    const failingListener = jasmine.createSpy('failingListener')
+                                .and.throwError('Listener failure.');
+    const listener = jasmine.createSpy('listener');
+    emitter.addListener(failingListener);
+    emitter.addListener(listener);
+    expect(() => {
+      emitter.emit({type: LifecycleEventType.requestStarted});
+    }).not.toThrow();
+    expect(listener).toHaveBeenCalled();
+    // The error is rethrown asynchronously.
+    expect(() => {
+      jasmine.clock().tick(0);
+    }).toThrowError('Listener failure.');
+  });
+});
@@ -152,6 +152,12 @@ export class NoOpNavigatorCredentials implements OpenYoloApi {
 
   async save(credential: OpenYoloCredential): Promise<void> {}
 
+  async deleteCredential(credential: OpenYoloCredential): Promise<void> {
+    throw OpenYoloInternalError
+        .requestFailed('Cannot delete credentials through the browser.')
+        .toExposedError();
+  }
+
   async hint(options?: OpenYoloCredentialHintOptions):
       Promise<OpenYoloCredential> {
     throw OpenYoloInternalError.noCredentialsAvailable().toExposedError();
@@ -221,6 +227,17 @@ export class NavigatorCredentials implements OpenYoloApi {
     }
   }
 
+  /**
+   * The Credential Management API provides no way to delete a stored
+   * credential, so the request is rejected without altering the state of the
+   * browser. Callers may still disable the automatic sign-in explicitly.
+   */
+  async deleteCredential(credential: OpenYoloCredential): Promise<void> {
+    throw OpenYoloInternalError
+        .requestFailed('Cannot delete credentials through the browser.')
+        .toExposedError();
+  }
+
   async hint(options?: OpenYoloCredentialHintOptions):
       Promise<OpenYoloCredential> {
     throw OpenYoloInternalError.noCredentialsAvailable().toExposedError();
@@ -212,6 +212,26 @@ describe('NavigatorCredentials', () => {
     });
   });
 
+  describe('deleteCredential', () => {
+    it('fails without disabling auto sign-in', done => {
+      spyOn(cmApi, 'preventSilentAccess').and.returnValue(Promise.resolve());
+      const credential: OpenYoloCredential = {
+        id: 'user@example.com',
+        authMethod: AUTHENTICATION_METHODS.ID_AND_PASSWORD
+      };
+      navigatorCredentials.deleteCredential(credential)
+          .then(
+              () => {
+                done.fail('Unexpected success!');
+              },
+              error => {
+                expect(cmApi.preventSilentAccess).not.toHaveBeenCalled();
+                expect(error.type).toEqual(OpenYoloErrorType.requestFailed);
+                done();
+              });
+    });
+  });
+
   describe('proxyLogin', () => {
     const options: OpenYoloCredentialRequestOptions = {
       supportedAuthMethods: [AUTHENTICATION_METHODS.ID_AND_PASSWORD]
@@ -356,6 +376,21 @@ describe('NavigatorCredentials', () => {
       navigatorCredentials.save(cred).then(done);
     });
 
+    it('deleteCredential', (done) => {
+      const cred = {
+        id: 'user@example.com',
+        authMethod: AUTHENTICATION_METHODS.ID_AND_PASSWORD
+      };
+      navigatorCredentials.deleteCredential(cred).then(
+          () => {
+            done.fail('Should not resolve!');
+          },
+          (error) => {
+            expect(error.type).toEqual(OpenYoloErrorType.requestFailed);
+            done();
+          });
+    });
+
     it('proxyLogin', (done) => {
       const cred = {
         id: 'user@example.com',
@@ -0,0 +1,51 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Adds preconnect resource hints for the origins of the given URLs to the
+ * document, so the browser opens the connections before the provider frame is
+ * loaded. Origins already hinted are skipped.
+ */
+export function addPreconnectHints(doc: Document, urls: string[]): void {
+  const parent = doc.head || doc.documentElement;
+  urls.forEach((url) => {
+    const origin = getOrigin(doc, url);
+    if (hasPreconnectHint(doc, origin)) {
+      return;
+    }
+    const link = doc.createElement('link');
+    link.rel = 'preconnect';
+    link.href = origin;
+    parent.appendChild(link);
+  });
+}
+
+function getOrigin(doc: Document, url: string): string {
+  // Resolves the URL the same way the frame source is resolved.
+  const anchor = doc.createElement('a');
+  anchor.href = url;
+  return `${anchor.protocol}//${anchor.host}`;
+}
+
+function hasPreconnectHint(doc: Document, origin: string): boolean {
+  const links = doc.querySelectorAll('link[rel="preconnect"]');
+  for (let i = 0; i < links.length; i++) {
+    if (links[i].getAttribute('href') === origin) {
+      return true;
+    }
+  }
+  return false;
+}
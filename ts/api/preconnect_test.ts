@@ -0,0 +1,52 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {addPreconnectHints} from './preconnect';
+
+describe('addPreconnectHints', () => {
+  const getHints = () => {
+    const links = document.querySelectorAll('link[rel="preconnect"]');
+    const hrefs: Array<string|null> = [];
+    for (let i = 0; i < links.length; i++) {
+      hrefs.push(links[i].getAttribute('href'));
+    }
+    return hrefs;
+  };
+
+  afterEach(() => {
+    const links = document.querySelectorAll('link[rel="preconnect"]');
+    for (let i = 0; i < links.length; i++) {
+      links[i].parentNode!.removeChild(links[i]);
+    }
+  });
+
+  it('adds a hint for the origin of every URL', () => {
+    addPreconnectHints(document, [
+      'https://provider.example.com/openyolo',
+      'https://other.example.com:8443'
+    ]);
+    expect(getHints()).toEqual([
+      'https://provider.example.com',
+      'https://other.example.com:8443'
+    ]);
+  });
+
+  it('does not hint the same origin twice', () => {
+    addPreconnectHints(document, ['https://provider.example.com/a']);
+    addPreconnectHints(document, ['https://provider.example.com/b']);
+    expect(getHints()).toEqual(['https://provider.example.com']);
+  });
+});
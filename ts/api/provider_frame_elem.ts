@@ -20,10 +20,29 @@ import {FeatureConfig} from '../protocol/feature_config';
 import {PreloadRequest} from '../protocol/preload_request';
 import {DisplayOptions} from '../protocol/rpc_messages';
 
+import {FrameStyle} from './frame_style';
+import {LifecycleEventEmitter, LifecycleEventType} from './lifecycle_events';
+
 export const HIDDEN_FRAME_CLASS = 'openyolo-hidden';
 export const VISIBLE_FRAME_CLASS = 'openyolo-visible';
 
-type UpdatableStyle = 'bottom'|'top'|'right'|'left'|'width'|'height';
+type UpdatableStyle = 'bottom'|'top'|'right'|'left'|'width'|'height'|'maxWidth';
+
+const OFFSETS: Array<'bottom'|'top'|'right'|'left'> =
+    ['bottom', 'top', 'right', 'left'];
+
+const UPDATABLE_STYLES: UpdatableStyle[] =
+    ['bottom', 'top', 'right', 'left', 'width', 'height', 'maxWidth'];
+
+const DEFAULT_Z_INDEX = 9999;
+
+/**
+ * The accessible name of the provider frame.
+ */
+export const FRAME_TITLE = 'Sign in with your credential manager';
+
+// The render modes covering the page, in which the frame is a modal dialog.
+const MODAL_RENDER_MODES = [RenderMode.bottomSheet, RenderMode.fullScreen];
 
 type StyleDeclaration = {
   [key in UpdatableStyle]?: string
@@ -32,7 +51,7 @@ type StyleDeclaration = {
 // Use a mapping of style to use the style attribute of the IFrame element. This
 // is to avoid CSP issue with style injection. See:
 // https://stackoverflow.com/questions/48449246/google-yolo-custom-styles-csp-support
-const FRAME_RENDER_MODE_STYLE_MAPPING: {[key in RenderMode]: StyleDeclaration}&
+const FRAME_RENDER_MODE_STYLE_MAPPING: {[key in RenderMode]?: StyleDeclaration}&
     {[key: string]: StyleDeclaration} = {
       'bottomSheet': {
         'bottom': '0',
@@ -52,6 +71,11 @@ const FRAME_RENDER_MODE_STYLE_MAPPING: {[key in RenderMode]: StyleDeclaration}&
         'width': '100%',
         'height': '100%',
       },
+      // Fills the container, following its size.
+      'inline': {
+        'width': '100%',
+        'height': '100%',
+      },
     };
 
 /**
@@ -60,8 +84,102 @@ const FRAME_RENDER_MODE_STYLE_MAPPING: {[key in RenderMode]: StyleDeclaration}&
  *
  * It is usually an IFrame or a Popup window.
  */
-export class ProviderFrameElement {
+export interface ProviderContainer {
+  /**
+   * Returns the content window of the container.
+   */
+  getContentWindow(): WindowLike;
+
+  /**
+   * Displays the container.
+   */
+  display(options: DisplayOptions): void;
+
+  /**
+   * Hides the container.
+   */
+  hide(): void;
+
+  /**
+   * Disposes of the container.
+   */
+  dispose(): void;
+
+  /**
+   * Registers a listener notified when the user closes the container.
+   */
+  addCloseListener(listener: () => void): void;
+
+  /**
+   * Unregisters a listener added with {@link #addCloseListener}.
+   */
+  removeCloseListener(listener: () => void): void;
+
+  /**
+   * Registers a listener notified when the user dismisses the displayed
+   * container, by pressing Escape while the focus is in the client document.
+   * Within the frame, the provider reports the dismissal itself.
+   */
+  addDismissListener(listener: () => void): void;
+
+  /**
+   * Unregisters a listener added with {@link #addDismissListener}.
+   */
+  removeDismissListener(listener: () => void): void;
+}
+
+/**
+ * Returns the URL of the provider page to load in a container.
+ */
+export function createProviderUrl(
+    providerUrlBase: string,
+    instanceIdHash: string,
+    clientOrigin: string,
+    renderMode: RenderMode,
+    featureConfig?: FeatureConfig,
+    preloadRequest?: PreloadRequest): string {
+  let url = `${providerUrlBase}` +
+      `?client=${encodeURIComponent(clientOrigin)}` +
+      `&id=${instanceIdHash}` +
+      `&renderMode=${renderMode}`;
+
+  if (preloadRequest) {
+    let encodedRequest = encodeURIComponent(JSON.stringify(preloadRequest));
+    url += `&preloadRequest=${encodedRequest}`;
+  }
+
+  if (featureConfig) {
+    let encodedFeatures = encodeURIComponent(JSON.stringify(featureConfig));
+    url += `&features=${encodedFeatures}`;
+  }
+
+  return url;
+}
+
+/**
+ * A container displaying the provider in an IFrame overlaid on the client
+ * page, or in normal flow within the given container in the inline render
+ * mode. Its presentation can be customized with a FrameStyle, only applied
+ * through the style properties of the elements.
+ */
+export class ProviderFrameElement implements ProviderContainer {
   private frameElem: HTMLIFrameElement;
+  private parentElem: HTMLElement;
+  // The container of the IFrame in the inline render mode.
+  private container: HTMLElement|null = null;
+  // The scrim covering the page behind the IFrame, if configured.
+  private backdropElem: HTMLElement|null = null;
+  private displayed = false;
+  private dismissListeners: Array<() => void> = [];
+  // The element focused before the display, to focus again once hidden.
+  private previouslyFocused: Element|null = null;
+  private keydownListener: (ev: KeyboardEvent) => void;
+  private focusinListener: (ev: FocusEvent) => void;
+  // The pending end of the exit animation.
+  private hideTimer: number|null = null;
+  // The size of the container before its resizing.
+  private containerHeight = '';
+  private containerWidth = '';
 
   constructor(
       private clientDocument: Document,
@@ -70,30 +188,68 @@ export class ProviderFrameElement {
       private renderMode: RenderMode,
       providerUrlBase: string,
       featureConfig?: FeatureConfig,
-      preloadRequest?: PreloadRequest) {
+      preloadRequest?: PreloadRequest,
+      private events?: LifecycleEventEmitter,
+      container?: HTMLElement,
+      private frameStyle: FrameStyle = {}) {
     this.frameElem = this.clientDocument.createElement('iframe');
-    this.frameElem.src = `${providerUrlBase}` +
-        `?client=${encodeURIComponent(clientOrigin)}` +
-        `&id=${this.instanceIdHash}` +
-        `&renderMode=${renderMode}`;
-
-    if (preloadRequest) {
-      let encodedRequest = encodeURIComponent(JSON.stringify(preloadRequest));
-      this.frameElem.src += `&preloadRequest=${encodedRequest}`;
-    }
+    this.frameElem.src = createProviderUrl(
+        providerUrlBase,
+        this.instanceIdHash,
+        clientOrigin,
+        renderMode,
+        featureConfig,
+        preloadRequest);
 
-    if (featureConfig) {
-      let encodedFeatures = encodeURIComponent(JSON.stringify(featureConfig));
-      this.frameElem.src += `&features=${encodedFeatures}`;
+    // Dialog semantics, for the assistive technologies.
+    this.frameElem.setAttribute('title', FRAME_TITLE);
+    this.frameElem.setAttribute('role', 'dialog');
+    if (this.isModal()) {
+      this.frameElem.setAttribute('aria-modal', 'true');
     }
+    this.keydownListener = (ev: KeyboardEvent) => {
+      if (ev.key === 'Escape' || ev.key === 'Esc') {
+        this.dismissListeners.slice().forEach((listener) => listener());
+      }
+    };
+    // Keeps the focus within the frame while it is modal.
+    this.focusinListener = (ev: FocusEvent) => {
+      if (ev.target !== this.frameElem) {
+        this.frameElem.focus();
+      }
+    };
 
     // Generic style.
     this.frameElem.style.border = 'none';
-    this.frameElem.style.position = 'fixed';
-    this.frameElem.style.zIndex = '9999';
+    if (renderMode === RenderMode.inline && container) {
+      this.container = container;
+      this.parentElem = container;
+      this.containerHeight = container.style.height || '';
+      this.containerWidth = container.style.width || '';
+    } else {
+      this.parentElem = this.clientDocument.body;
+      const zIndex =
+          frameStyle.zIndex !== undefined ? frameStyle.zIndex : DEFAULT_Z_INDEX;
+      this.frameElem.style.position = 'fixed';
+      this.frameElem.style.zIndex = `${zIndex}`;
+      if (frameStyle.backdrop) {
+        this.backdropElem = this.createBackdrop(frameStyle.backdrop, zIndex);
+      }
+    }
+    const animation = frameStyle.animation;
+    if (animation) {
+      const easing = animation.easing || 'ease-out';
+      this.frameElem.style.transition =
+          `opacity ${animation.durationMs}ms ${easing}, ` +
+          `transform ${animation.durationMs}ms ${easing}`;
+    }
 
     this.hide();
-    this.clientDocument.body.appendChild(this.frameElem);
+    if (this.backdropElem) {
+      this.parentElem.appendChild(this.backdropElem);
+    }
+    this.parentElem.appendChild(this.frameElem);
+    this.emitEvent(LifecycleEventType.containerCreated);
   }
 
   /**
@@ -107,12 +263,36 @@ export class ProviderFrameElement {
    * Displays the container.
    */
   display(options: DisplayOptions): void {
+    if (this.hideTimer !== null) {
+      // Displayed again during the exit animation, which is reverted.
+      window.clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+      this.frameElem.style.opacity = '1';
+      this.frameElem.style.transform = 'none';
+    }
     if (this.frameElem.hidden) {
       this.resetStyle();
-      this.applyStyle(FRAME_RENDER_MODE_STYLE_MAPPING[this.renderMode]);
+      this.applyStyle({
+        ...FRAME_RENDER_MODE_STYLE_MAPPING[this.renderMode],
+        ...this.getConfiguredStyle()
+      });
       this.frameElem.hidden = false;
+      if (this.backdropElem) {
+        this.backdropElem.style.display = '';
+      }
+      this.enter();
     }
-    if ((options.height || options.width) &&
+    if (!this.displayed) {
+      this.displayed = true;
+      this.captureFocus();
+      this.emitEvent(LifecycleEventType.containerDisplayed);
+    }
+    if (this.container) {
+      // The IFrame fills the container, so its layout follows the container.
+      if (options.height) this.container.style.height = `${options.height}px`;
+      if (options.width) this.container.style.width = `${options.width}px`;
+    } else if (
+        (options.height || options.width) &&
         this.renderMode !== RenderMode.fullScreen) {
       if (options.height) this.frameElem.style.height = `${options.height}px`;
       if (options.width) this.frameElem.style.width = `${options.width}px`;
@@ -120,19 +300,165 @@ export class ProviderFrameElement {
   }
 
   /**
-   * Hides the container.
+   * Hides the container, after the exit animation if any.
    */
   hide(): void {
+    const animation = this.frameStyle.animation;
+    if (!animation || !this.displayed || this.frameElem.hidden) {
+      this.hideNow();
+      return;
+    }
+    if (this.hideTimer !== null) {
+      return;
+    }
+    this.frameElem.style.opacity = '0';
+    this.frameElem.style.transform = animation.transform || '';
+    this.hideTimer = window.setTimeout(() => {
+      this.hideTimer = null;
+      this.hideNow();
+    }, animation.durationMs);
+  }
+
+  /**
+   * Disposes of the container.
+   */
+  dispose(): void {
+    if (this.hideTimer !== null) {
+      window.clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+    if (this.displayed) {
+      this.releaseFocus();
+    }
+    this.parentElem.removeChild(this.frameElem);
+    if (this.backdropElem) {
+      this.parentElem.removeChild(this.backdropElem);
+    }
+    this.restoreContainerSize();
+    this.emitEvent(LifecycleEventType.containerDisposed);
+  }
+
+  /**
+   * The IFrame cannot be closed by the user: the listeners are never notified.
+   */
+  addCloseListener(listener: () => void): void {}
+
+  removeCloseListener(listener: () => void): void {}
+
+  addDismissListener(listener: () => void): void {
+    this.dismissListeners.push(listener);
+  }
+
+  removeDismissListener(listener: () => void): void {
+    const index = this.dismissListeners.indexOf(listener);
+    if (index !== -1) {
+      this.dismissListeners.splice(index, 1);
+    }
+  }
+
+  private emitEvent(type: LifecycleEventType) {
+    if (this.events) {
+      this.events.emit({type});
+    }
+  }
+
+  private hideNow(): void {
     this.resetStyle();
     this.frameElem.style.display = 'none';
     this.frameElem.hidden = true;
+    if (this.backdropElem) {
+      this.backdropElem.style.display = 'none';
+    }
+    this.restoreContainerSize();
+    if (this.displayed) {
+      this.displayed = false;
+      this.releaseFocus();
+      this.emitEvent(LifecycleEventType.containerHidden);
+    }
+  }
+
+  private isModal(): boolean {
+    return MODAL_RENDER_MODES.indexOf(this.renderMode) !== -1;
   }
 
   /**
-   * Disposes of the container.
+   * Moves the focus to the displayed frame, listening to the Escape key and,
+   * if modal, to the focus leaving the frame.
    */
-  dispose(): void {
-    this.clientDocument.body.removeChild(this.frameElem);
+  private captureFocus(): void {
+    this.previouslyFocused = this.clientDocument.activeElement;
+    this.clientDocument.addEventListener('keydown', this.keydownListener);
+    if (this.isModal()) {
+      this.clientDocument.addEventListener('focusin', this.focusinListener);
+    }
+    this.frameElem.focus();
+  }
+
+  /**
+   * Stops listening to the keyboard and the focus, and focuses again the
+   * element focused before the display.
+   */
+  private releaseFocus(): void {
+    this.clientDocument.removeEventListener('keydown', this.keydownListener);
+    this.clientDocument.removeEventListener('focusin', this.focusinListener);
+    const previouslyFocused = this.previouslyFocused as HTMLElement | null;
+    this.previouslyFocused = null;
+    if (previouslyFocused && typeof previouslyFocused.focus === 'function') {
+      previouslyFocused.focus();
+    }
+  }
+
+  /**
+   * Starts the enter animation, if any, from the configured transform.
+   */
+  private enter(): void {
+    const animation = this.frameStyle.animation;
+    if (!animation) {
+      return;
+    }
+    this.frameElem.style.opacity = '0';
+    this.frameElem.style.transform = animation.transform || '';
+    // Forces the layout of the initial state, so that the transition runs.
+    this.frameElem.getBoundingClientRect();
+    this.frameElem.style.opacity = '1';
+    this.frameElem.style.transform = 'none';
+  }
+
+  private createBackdrop(color: string, frameZIndex: number): HTMLElement {
+    const backdropElem = this.clientDocument.createElement('div');
+    backdropElem.style.position = 'fixed';
+    backdropElem.style.top = '0';
+    backdropElem.style.left = '0';
+    backdropElem.style.width = '100%';
+    backdropElem.style.height = '100%';
+    backdropElem.style.backgroundColor = color;
+    backdropElem.style.zIndex = `${frameZIndex - 1}`;
+    backdropElem.style.display = 'none';
+    return backdropElem;
+  }
+
+  /**
+   * Returns the layout configured for the render mode.
+   */
+  private getConfiguredStyle(): StyleDeclaration {
+    const style: StyleDeclaration = {};
+    UPDATABLE_STYLES.forEach((key) => {
+      const value = this.frameStyle[key];
+      if (value !== undefined) {
+        style[key] = value;
+      }
+    });
+    return style;
+  }
+
+  /**
+   * Restores the size the container had before being resized.
+   */
+  private restoreContainerSize(): void {
+    if (this.container) {
+      this.container.style.height = this.containerHeight;
+      this.container.style.width = this.containerWidth;
+    }
   }
 
   /**
@@ -142,21 +468,31 @@ export class ProviderFrameElement {
     this.frameElem.style.display = '';
     this.frameElem.style.height = '';
     this.frameElem.style.width = '';
+    this.frameElem.style.maxWidth = '';
     this.frameElem.style.top = '';
     this.frameElem.style.left = '';
     this.frameElem.style.right = '';
     this.frameElem.style.bottom = '';
+    this.frameElem.style.opacity = '';
+    this.frameElem.style.transform = '';
   }
 
   /**
-   * Applies the given style on the IFrame element.
+   * Applies the given style on the IFrame element, extending the offsets by
+   * the safe area insets if configured.
    */
   private applyStyle(style: StyleDeclaration): void {
-    if (style.bottom) this.frameElem.style.bottom = style.bottom;
-    if (style.top) this.frameElem.style.top = style.top;
-    if (style.right) this.frameElem.style.right = style.right;
-    if (style.left) this.frameElem.style.left = style.left;
+    OFFSETS.forEach((side) => {
+      const offset = style[side];
+      if (!offset || offset === 'auto') {
+        return;
+      }
+      this.frameElem.style[side] = this.frameStyle.safeAreaInsets ?
+          `calc(${offset} + env(safe-area-inset-${side}))` :
+          offset;
+    });
     if (style.width) this.frameElem.style.width = style.width;
     if (style.height) this.frameElem.style.height = style.height;
+    if (style.maxWidth) this.frameElem.style.maxWidth = style.maxWidth;
   }
 }
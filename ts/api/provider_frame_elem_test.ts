@@ -15,7 +15,9 @@
  */
 
 import {RenderMode} from './exports';
-import {ProviderFrameElement} from './provider_frame_elem';
+import {FrameStyle} from './frame_style';
+import {LifecycleEvent, LifecycleEventEmitter, LifecycleEventType} from './lifecycle_events';
+import {FRAME_TITLE, ProviderFrameElement} from './provider_frame_elem';
 
 describe('ProviderFrameElement', () => {
   const instanceIdHash = 'hashId';
@@ -27,7 +29,9 @@ describe('ProviderFrameElement', () => {
   let clientDocument: any;
 
   beforeEach(() => {
-    clientDocument = jasmine.createSpyObj('document', ['createElement']);
+    clientDocument = jasmine.createSpyObj(
+        'document',
+        ['createElement', 'addEventListener', 'removeEventListener']);
     clientDocument.style = {};
     clientDocument.body =
         jasmine.createSpyObj('body', ['appendChild', 'removeChild']);
@@ -152,6 +156,259 @@ describe('ProviderFrameElement', () => {
         expect(iframeElement.hidden).toBe(false);
       });
     });
+
+    describe('inline', () => {
+      let container: HTMLElement;
+
+      beforeEach(() => {
+        container = document.createElement('div');
+        container.style.height = '100px';
+        providerFrame = new ProviderFrameElement(
+            clientDocument,
+            instanceIdHash,
+            clientOrigin,
+            RenderMode.inline,
+            providerUrlBase,
+            undefined,
+            undefined,
+            undefined,
+            container);
+      });
+
+      it('renders the iframe in normal flow within the container', () => {
+        expect(iframeElement.parentNode).toBe(container);
+        expect(iframeElement.style.position).toEqual('');
+        expect(iframeElement.style.zIndex).toEqual('');
+        expect(iframeElement.hidden).toBe(true);
+        expect(clientDocument.body.appendChild).not.toHaveBeenCalled();
+      });
+
+      it('displays filling the container', () => {
+        providerFrame.display({});
+        expect(iframeElement.style.height).toEqual('100%');
+        expect(iframeElement.style.width).toEqual('100%');
+        expect(iframeElement.style.top).toEqual('');
+        expect(iframeElement.hidden).toBe(false);
+        expect(container.style.height).toEqual('100px');
+      });
+
+      it('resizes the container to the given height and width', () => {
+        providerFrame.display({height: 300, width: 400});
+        expect(container.style.height).toEqual('300px');
+        expect(container.style.width).toEqual('400px');
+        expect(iframeElement.style.height).toEqual('100%');
+        expect(iframeElement.style.width).toEqual('100%');
+      });
+
+      it('restores the size of the container once hidden', () => {
+        providerFrame.display({height: 300, width: 400});
+        providerFrame.hide();
+        expect(container.style.height).toEqual('100px');
+        expect(container.style.width).toEqual('');
+      });
+
+      it('removes the iframe from the container on disposal', () => {
+        providerFrame.dispose();
+        expect(iframeElement.parentNode).toBeNull();
+        expect(clientDocument.body.removeChild).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('frame style', () => {
+    const createFrame = (renderMode: RenderMode, frameStyle: FrameStyle) => {
+      return new ProviderFrameElement(
+          clientDocument,
+          instanceIdHash,
+          clientOrigin,
+          renderMode,
+          providerUrlBase,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          frameStyle);
+    };
+
+    it('applies the configured offsets, maximum width and z-index', () => {
+      providerFrame = createFrame(RenderMode.navPopout, {
+        top: '64px',
+        right: 'auto',
+        left: '8px',
+        maxWidth: '90%',
+        zIndex: 10
+      });
+      providerFrame.display({});
+      expect(iframeElement.style.zIndex).toEqual('10');
+      expect(iframeElement.style.top).toEqual('64px');
+      expect(iframeElement.style.right).toEqual('');
+      expect(iframeElement.style.left).toEqual('8px');
+      expect(iframeElement.style.maxWidth).toEqual('90%');
+      expect(iframeElement.style.width).toEqual('320px');
+    });
+
+    it('extends the offsets by the safe area insets', () => {
+      // The CSS environment variables are not supported by the DOM of the
+      // tests, which would drop the values.
+      const fakeFrameElement: any =
+          jasmine.createSpyObj('iframe', ['setAttribute', 'focus']);
+      fakeFrameElement.style = {};
+      clientDocument.createElement.and.returnValue(fakeFrameElement);
+      providerFrame =
+          createFrame(RenderMode.bottomSheet, {safeAreaInsets: true});
+      providerFrame.display({});
+      expect(fakeFrameElement.style.bottom)
+          .toEqual('calc(0 + env(safe-area-inset-bottom))');
+      expect(fakeFrameElement.style.left)
+          .toEqual('calc(0 + env(safe-area-inset-left))');
+      expect(fakeFrameElement.style.width).toEqual('100%');
+    });
+
+    describe('backdrop', () => {
+      let backdropElement: HTMLElement;
+
+      beforeEach(() => {
+        backdropElement = document.createElement('div');
+        clientDocument.createElement.and.callFake((tagName: string) => {
+          return tagName === 'iframe' ? iframeElement : backdropElement;
+        });
+        providerFrame = createFrame(
+            RenderMode.bottomSheet,
+            {backdrop: 'rgba(0, 0, 0, 0.4)', zIndex: 100});
+      });
+
+      it('adds a hidden backdrop below the iframe', () => {
+        expect(clientDocument.body.appendChild)
+            .toHaveBeenCalledWith(backdropElement);
+        expect(backdropElement.style.position).toEqual('fixed');
+        expect(backdropElement.style.backgroundColor)
+            .toEqual('rgba(0, 0, 0, 0.4)');
+        expect(backdropElement.style.zIndex).toEqual('99');
+        expect(backdropElement.style.display).toEqual('none');
+      });
+
+      it('displays the backdrop with the iframe', () => {
+        providerFrame.display({});
+        expect(backdropElement.style.display).toEqual('');
+        providerFrame.hide();
+        expect(backdropElement.style.display).toEqual('none');
+      });
+
+      it('removes the backdrop on disposal', () => {
+        providerFrame.dispose();
+        expect(clientDocument.body.removeChild)
+            .toHaveBeenCalledWith(backdropElement);
+      });
+    });
+
+    describe('animation', () => {
+      beforeEach(() => {
+        jasmine.clock().install();
+        providerFrame = createFrame(
+            RenderMode.bottomSheet,
+            {animation: {durationMs: 200, transform: 'translateY(100%)'}});
+      });
+
+      afterEach(() => {
+        jasmine.clock().uninstall();
+      });
+
+      it('transitions the iframe in', () => {
+        expect(iframeElement.style.transition)
+            .toEqual('opacity 200ms ease-out, transform 200ms ease-out');
+        providerFrame.display({});
+        expect(iframeElement.style.opacity).toEqual('1');
+        expect(iframeElement.style.transform).toEqual('none');
+      });
+
+      it('hides the iframe once transitioned out', () => {
+        providerFrame.display({});
+        providerFrame.hide();
+        expect(iframeElement.style.opacity).toEqual('0');
+        expect(iframeElement.style.transform).toEqual('translateY(100%)');
+        expect(iframeElement.hidden).toBe(false);
+        jasmine.clock().tick(200);
+        expect(iframeElement.hidden).toBe(true);
+      });
+
+      it('reverts the exit when displayed again', () => {
+        providerFrame.display({});
+        providerFrame.hide();
+        providerFrame.display({});
+        jasmine.clock().tick(200);
+        expect(iframeElement.hidden).toBe(false);
+        expect(iframeElement.style.opacity).toEqual('1');
+      });
+    });
+  });
+
+  describe('accessibility', () => {
+    let button: HTMLButtonElement;
+    let frameElement: HTMLIFrameElement;
+
+    const createFrame = (renderMode: RenderMode) => {
+      providerFrame = new ProviderFrameElement(
+          document, instanceIdHash, clientOrigin, renderMode, providerUrlBase);
+      frameElement = document.body.lastChild as HTMLIFrameElement;
+    };
+
+    beforeEach(() => {
+      button = document.createElement('button');
+      document.body.appendChild(button);
+      button.focus();
+    });
+
+    afterEach(() => {
+      providerFrame.dispose();
+      document.body.removeChild(button);
+    });
+
+    it('gives the frame an accessible name and dialog semantics', () => {
+      createFrame(RenderMode.bottomSheet);
+      expect(frameElement.getAttribute('title')).toEqual(FRAME_TITLE);
+      expect(frameElement.getAttribute('role')).toEqual('dialog');
+      expect(frameElement.getAttribute('aria-modal')).toEqual('true');
+    });
+
+    it('is not modal as a pop-out', () => {
+      createFrame(RenderMode.navPopout);
+      expect(frameElement.getAttribute('aria-modal')).toBeNull();
+    });
+
+    it('moves the focus to the frame and back once hidden', () => {
+      createFrame(RenderMode.navPopout);
+      providerFrame.display({});
+      expect(document.activeElement).toBe(frameElement);
+      providerFrame.hide();
+      expect(document.activeElement).toBe(button);
+    });
+
+    it('keeps the focus within the frame while modal', () => {
+      createFrame(RenderMode.bottomSheet);
+      providerFrame.display({});
+      button.focus();
+      expect(document.activeElement).toBe(frameElement);
+    });
+
+    it('notifies the dismiss listeners on Escape while displayed', () => {
+      createFrame(RenderMode.bottomSheet);
+      const dismissListener = jasmine.createSpy('dismissListener');
+      providerFrame.addDismissListener(dismissListener);
+      const pressEscape = () => {
+        const ev = document.createEvent('Event');
+        ev.initEvent('keydown', true, true);
+        (ev as any).key = 'Escape';
+        document.dispatchEvent(ev);
+      };
+      pressEscape();
+      expect(dismissListener).not.toHaveBeenCalled();
+      providerFrame.display({});
+      pressEscape();
+      expect(dismissListener).toHaveBeenCalledTimes(1);
+      providerFrame.removeDismissListener(dismissListener);
+      pressEscape();
+      expect(dismissListener).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('PropagateFeatureConfig', () => {
@@ -176,4 +433,49 @@ describe('ProviderFrameElement', () => {
       expect(iframeElement.getAttribute('src')).toEqual(expectedUrl);
     });
   });
+
+  describe('lifecycle events', () => {
+    let eventTypes: LifecycleEventType[];
+
+    beforeEach(() => {
+      eventTypes = [];
+      const events = new LifecycleEventEmitter();
+      events.addListener((event: LifecycleEvent) => {
+        eventTypes.push(event.type);
+      });
+      providerFrame = new ProviderFrameElement(
+          clientDocument,
+          instanceIdHash,
+          clientOrigin,
+          RenderMode.bottomSheet,
+          providerUrlBase,
+          undefined,
+          undefined,
+          events);
+    });
+
+    it('emits the creation', () => {
+      expect(eventTypes).toEqual([LifecycleEventType.containerCreated]);
+    });
+
+    it('emits the changes of visibility once', () => {
+      providerFrame.display({});
+      providerFrame.display({height: 100});
+      providerFrame.hide();
+      providerFrame.hide();
+      expect(eventTypes).toEqual([
+        LifecycleEventType.containerCreated,
+        LifecycleEventType.containerDisplayed,
+        LifecycleEventType.containerHidden
+      ]);
+    });
+
+    it('emits the disposal', () => {
+      providerFrame.dispose();
+      expect(eventTypes).toEqual([
+        LifecycleEventType.containerCreated,
+        LifecycleEventType.containerDisposed
+      ]);
+    });
+  });
 });
@@ -0,0 +1,173 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {WindowLike} from '../protocol/comms';
+import {RenderMode} from '../protocol/data';
+import {OpenYoloInternalError} from '../protocol/errors';
+import {FeatureConfig} from '../protocol/feature_config';
+import {PreloadRequest} from '../protocol/preload_request';
+import {DisplayOptions} from '../protocol/rpc_messages';
+
+import {LifecycleEventEmitter, LifecycleEventType} from './lifecycle_events';
+import {createProviderUrl, ProviderContainer} from './provider_frame_elem';
+
+const DEFAULT_POPUP_WIDTH = 480;
+const DEFAULT_POPUP_HEIGHT = 560;
+
+/**
+ * The interval at which the popup is checked for having been closed. There is
+ * no event notifying the opener of the closing of a cross-origin window.
+ */
+export const POPUP_CLOSED_POLLING_INTERVAL_MS = 500;
+
+/**
+ * A container displaying the provider in a separate browser window, for
+ * contexts where third-party IFrames cannot access their storage.
+ *
+ * The popup is opened as soon as the container is created, and is centered
+ * over the client window.
+ */
+export class ProviderPopupElement implements ProviderContainer {
+  private popupWindow: Window;
+  private closeListeners: Array<() => void> = [];
+  private pollingIntervalId: number|null;
+  private width = DEFAULT_POPUP_WIDTH;
+  private height = DEFAULT_POPUP_HEIGHT;
+
+  constructor(
+      clientWindow: Window,
+      instanceIdHash: string,
+      clientOrigin: string,
+      providerUrlBase: string,
+      featureConfig?: FeatureConfig,
+      preloadRequest?: PreloadRequest,
+      private events?: LifecycleEventEmitter) {
+    const url = createProviderUrl(
+        providerUrlBase,
+        instanceIdHash,
+        clientOrigin,
+        RenderMode.popup,
+        featureConfig,
+        preloadRequest);
+    const left =
+        clientWindow.screenX + (clientWindow.outerWidth - this.width) / 2;
+    const top =
+        clientWindow.screenY + (clientWindow.outerHeight - this.height) / 2;
+    const features = `width=${this.width},height=${this.height},` +
+        `left=${Math.round(left)},top=${Math.round(top)},` +
+        `resizable=yes,scrollbars=yes`;
+
+    // The window name is unique to this instance, so the popup never reuses a
+    // window opened by another instance.
+    const popupWindow =
+        clientWindow.open(url, `openyolo-${instanceIdHash}`, features);
+    if (!popupWindow) {
+      throw OpenYoloInternalError.popupBlocked().toExposedError();
+    }
+    this.popupWindow = popupWindow;
+
+    this.pollingIntervalId = window.setInterval(
+        () => this.checkClosed(), POPUP_CLOSED_POLLING_INTERVAL_MS);
+    this.emitEvent(LifecycleEventType.containerCreated);
+  }
+
+  /**
+   * Returns the content window of the container.
+   */
+  getContentWindow(): WindowLike {
+    return this.popupWindow;
+  }
+
+  /**
+   * Displays the container, resizing the popup if dimensions are requested.
+   */
+  display(options: DisplayOptions): void {
+    if (this.popupWindow.closed) {
+      return;
+    }
+    if (options.height || options.width) {
+      this.height = options.height || this.height;
+      this.width = options.width || this.width;
+      this.popupWindow.resizeTo(this.width, this.height);
+    }
+    this.popupWindow.focus();
+  }
+
+  /**
+   * A popup cannot be hidden: it remains open, and its content empty, until the
+   * container is disposed or the user closes it.
+   */
+  hide(): void {}
+
+  /**
+   * Disposes of the container, closing the popup.
+   */
+  dispose(): void {
+    this.stopPolling();
+    this.closeListeners = [];
+    if (!this.popupWindow.closed) {
+      this.popupWindow.close();
+    }
+    this.emitEvent(LifecycleEventType.containerDisposed);
+  }
+
+  addCloseListener(listener: () => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  removeCloseListener(listener: () => void): void {
+    const index = this.closeListeners.indexOf(listener);
+    if (index !== -1) {
+      this.closeListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * The popup has its own window, which the user closes to dismiss it: the
+   * listeners are never notified.
+   */
+  addDismissListener(listener: () => void): void {}
+
+  removeDismissListener(listener: () => void): void {}
+
+  /**
+   * Notifies the listeners once the popup has been closed by the user.
+   */
+  private checkClosed() {
+    if (!this.popupWindow.closed) {
+      return;
+    }
+    this.stopPolling();
+    this.emitEvent(LifecycleEventType.containerClosed);
+    // A listener may dispose of the container, and with it the listeners.
+    this.closeListeners.slice().forEach((listener) => {
+      listener();
+    });
+  }
+
+  private emitEvent(type: LifecycleEventType) {
+    if (this.events) {
+      this.events.emit({type});
+    }
+  }
+
+  private stopPolling() {
+    if (this.pollingIntervalId !== null) {
+      window.clearInterval(this.pollingIntervalId);
+      this.pollingIntervalId = null;
+    }
+  }
+}
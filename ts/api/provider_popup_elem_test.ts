@@ -0,0 +1,145 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenYoloErrorType} from '../protocol/errors';
+
+import {POPUP_CLOSED_POLLING_INTERVAL_MS, ProviderPopupElement} from './provider_popup_elem';
+
+describe('ProviderPopupElement', () => {
+  const instanceIdHash = 'hashId';
+  const clientOrigin = 'https://www.example.com';
+  const providerUrlBase = 'https://provider.openyolo.com/iframe/request';
+
+  let clientWindow: any;
+  let popupWindow: any;
+  let providerPopup: ProviderPopupElement;
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    popupWindow =
+        jasmine.createSpyObj('popupWindow', ['close', 'focus', 'resizeTo']);
+    popupWindow.closed = false;
+    clientWindow = jasmine.createSpyObj('clientWindow', ['open']);
+    clientWindow.screenX = 100;
+    clientWindow.screenY = 50;
+    clientWindow.outerWidth = 1280;
+    clientWindow.outerHeight = 800;
+    clientWindow.open.and.returnValue(popupWindow);
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  describe('when opened', () => {
+    beforeEach(() => {
+      providerPopup = new ProviderPopupElement(
+          clientWindow, instanceIdHash, clientOrigin, providerUrlBase);
+    });
+
+    afterEach(() => {
+      providerPopup.dispose();
+    });
+
+    it('opens the provider centered over the client window', () => {
+      const expectedUrl =
+          `${providerUrlBase}?client=${encodeURIComponent(clientOrigin)}` +
+          `&id=hashId&renderMode=popup`;
+      expect(clientWindow.open)
+          .toHaveBeenCalledWith(
+              expectedUrl,
+              'openyolo-hashId',
+              'width=480,height=560,left=500,top=170,resizable=yes,' +
+                  'scrollbars=yes');
+      expect(providerPopup.getContentWindow()).toBe(popupWindow);
+    });
+
+    it('resizes the popup when displayed', () => {
+      providerPopup.display({height: 300});
+      expect(popupWindow.resizeTo).toHaveBeenCalledWith(480, 300);
+      providerPopup.display({width: 400});
+      expect(popupWindow.resizeTo).toHaveBeenCalledWith(400, 300);
+      expect(popupWindow.focus).toHaveBeenCalled();
+    });
+
+    it('does not resize the popup without dimensions', () => {
+      providerPopup.display({});
+      expect(popupWindow.resizeTo).not.toHaveBeenCalled();
+      expect(popupWindow.focus).toHaveBeenCalled();
+    });
+
+    it('remains open when hidden', () => {
+      providerPopup.hide();
+      expect(popupWindow.close).not.toHaveBeenCalled();
+    });
+
+    it('notifies the listeners when the user closes the popup', () => {
+      const listener = jasmine.createSpy('listener');
+      const removedListener = jasmine.createSpy('removedListener');
+      providerPopup.addCloseListener(listener);
+      providerPopup.addCloseListener(removedListener);
+      providerPopup.removeCloseListener(removedListener);
+
+      jasmine.clock().tick(POPUP_CLOSED_POLLING_INTERVAL_MS);
+      expect(listener).not.toHaveBeenCalled();
+
+      popupWindow.closed = true;
+      jasmine.clock().tick(POPUP_CLOSED_POLLING_INTERVAL_MS);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(removedListener).not.toHaveBeenCalled();
+
+      // The polling stops once the popup is closed.
+      jasmine.clock().tick(POPUP_CLOSED_POLLING_INTERVAL_MS);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('closes the popup when disposed, without notifying', () => {
+      const listener = jasmine.createSpy('listener');
+      providerPopup.addCloseListener(listener);
+      providerPopup.dispose();
+      expect(popupWindow.close).toHaveBeenCalled();
+
+      popupWindow.closed = true;
+      jasmine.clock().tick(POPUP_CLOSED_POLLING_INTERVAL_MS);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  it('propagates the feature config and preload request', () => {
+    const featureConfig = {feature: ['DISPLAY_CLICKJACKING_POPUP']};
+    providerPopup = new ProviderPopupElement(
+        clientWindow,
+        instanceIdHash,
+        clientOrigin,
+        providerUrlBase,
+        featureConfig);
+    expect(clientWindow.open.calls.mostRecent().args[0])
+        .toContain(
+            `&features=${encodeURIComponent(JSON.stringify(featureConfig))}`);
+    providerPopup.dispose();
+  });
+
+  it('throws when the popup is blocked', () => {
+    clientWindow.open.and.returnValue(null);
+    try {
+      new ProviderPopupElement(
+          clientWindow, instanceIdHash, clientOrigin, providerUrlBase);
+      fail('Should have thrown');
+    } catch (err) {
+      expect(err.type).toEqual(OpenYoloErrorType.popupBlocked);
+    }
+  });
+});
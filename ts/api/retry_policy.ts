@@ -0,0 +1,144 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {InternalErrorCode} from '../protocol/errors';
+
+/**
+ * Defines how the initialization of the API is attempted again after a
+ * transient failure. The attempts and the delays between them all run within
+ * the initialization timeout of the call.
+ */
+export interface RetryPolicy {
+  /**
+   * The maximum number of attempts, including the first one. Default: 1, no
+   * retry.
+   */
+  maxAttempts: number;
+
+  /**
+   * The delay before the first retry, in milliseconds. Default: 200.
+   */
+  initialDelayMs?: number;
+
+  /**
+   * The factor applied to the delay on every subsequent retry. Default: 2.
+   */
+  multiplier?: number;
+
+  /**
+   * The maximum delay between two attempts, in milliseconds. Default: 2000.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * The proportion of the delay which is randomized, between 0 and 1, so that
+   * clients failing at the same time do not retry at the same time.
+   * Default: 0.5.
+   */
+  jitter?: number;
+
+  /**
+   * The maximum duration of a single attempt, in milliseconds, so that a
+   * provider which never answers is attempted again before the initialization
+   * timeout expires. Default: the remaining initialization timeout.
+   */
+  attemptTimeoutMs?: number;
+
+  /**
+   * The errors after which the initialization is attempted again.
+   * Default: DEFAULT_RETRYABLE_ERROR_CODES.
+   */
+  retryableErrors?: InternalErrorCode[];
+}
+
+export const DEFAULT_RETRYABLE_ERROR_CODES: InternalErrorCode[] = [
+  InternalErrorCode.providerInitializationFailed,
+  InternalErrorCode.initializationTimeout
+];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1
+};
+
+const DEFAULT_INITIAL_DELAY_MS = 200;
+const DEFAULT_MULTIPLIER = 2;
+const DEFAULT_MAX_DELAY_MS = 2000;
+const DEFAULT_JITTER = 0.5;
+
+/**
+ * Ensures the retry policy provided by the developer is valid.
+ */
+export function checkRetryPolicy(policy: any) {
+  if (!policy || typeof policy !== 'object' ||
+      typeof policy['maxAttempts'] !== 'number' || policy['maxAttempts'] < 1) {
+    throw new Error(
+        'Invalid retry policy. The maximum number of attempts must be a ' +
+        'number greater than or equal to 1.');
+  }
+  ['initialDelayMs', 'maxDelayMs', 'attemptTimeoutMs'].forEach((key) => {
+    const value = policy[key];
+    if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+      throw new Error(
+          `Invalid retry policy. The ${key} must be a number greater than ` +
+          'or equal to 0.');
+    }
+  });
+  const multiplier = policy['multiplier'];
+  if (multiplier !== undefined &&
+      (typeof multiplier !== 'number' || multiplier < 1)) {
+    throw new Error(
+        'Invalid retry policy. The multiplier must be a number greater than ' +
+        'or equal to 1.');
+  }
+  const jitter = policy['jitter'];
+  if (jitter !== undefined &&
+      (typeof jitter !== 'number' || jitter < 0 || jitter > 1)) {
+    throw new Error(
+        'Invalid retry policy. The jitter must be a number between 0 and 1.');
+  }
+  const retryableErrors = policy['retryableErrors'];
+  if (retryableErrors !== undefined && !Array.isArray(retryableErrors)) {
+    throw new Error(
+        'Invalid retry policy. The retryable errors must be an array of ' +
+        'error codes.');
+  }
+}
+
+/**
+ * Computes the delay before the given retry, starting at 1: the exponential
+ * backoff of the policy, of which the jitter proportion is randomized.
+ */
+export function computeRetryDelay(
+    policy: RetryPolicy, retry: number, random = Math.random): number {
+  const initialDelayMs = policy.initialDelayMs !== undefined ?
+      policy.initialDelayMs :
+      DEFAULT_INITIAL_DELAY_MS;
+  const multiplier =
+      policy.multiplier !== undefined ? policy.multiplier : DEFAULT_MULTIPLIER;
+  const maxDelayMs = policy.maxDelayMs !== undefined ? policy.maxDelayMs :
+                                                       DEFAULT_MAX_DELAY_MS;
+  const jitter = policy.jitter !== undefined ? policy.jitter : DEFAULT_JITTER;
+  const delayMs =
+      Math.min(initialDelayMs * Math.pow(multiplier, retry - 1), maxDelayMs);
+  return Math.round(delayMs * (1 - jitter * random()));
+}
+
+/**
+ * Returns the errors after which the initialization is attempted again.
+ */
+export function getRetryableErrors(policy: RetryPolicy): InternalErrorCode[] {
+  return policy.retryableErrors || DEFAULT_RETRYABLE_ERROR_CODES;
+}
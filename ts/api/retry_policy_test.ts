@@ -0,0 +1,76 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {checkRetryPolicy, computeRetryDelay} from './retry_policy';
+
+describe('RetryPolicy', () => {
+  describe('checkRetryPolicy', () => {
+    it('accepts a valid policy', () => {
+      checkRetryPolicy({
+        maxAttempts: 3,
+        initialDelayMs: 100,
+        multiplier: 2,
+        maxDelayMs: 1000,
+        jitter: 0.2,
+        attemptTimeoutMs: 500,
+        retryableErrors: ['initializationTimeout']
+      });
+    });
+
+    it('throws on an invalid number of attempts', () => {
+      expect(() => {
+        checkRetryPolicy({maxAttempts: 0});
+      }).toThrowError(/Invalid retry policy/);
+      expect(() => {
+        checkRetryPolicy({});
+      }).toThrowError(/Invalid retry policy/);
+    });
+
+    it('throws on an invalid jitter', () => {
+      expect(() => {
+        checkRetryPolicy({maxAttempts: 2, jitter: 2});
+      }).toThrowError(/jitter/);
+    });
+
+    it('throws on invalid retryable errors', () => {
+      expect(() => {
+        checkRetryPolicy({maxAttempts: 2, retryableErrors: 'all'});
+      }).toThrowError(/retryable errors/);
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    const noJitter = () => 0;
+
+    it('backs off exponentially', () => {
+      const policy = {maxAttempts: 4, initialDelayMs: 100, multiplier: 3};
+      expect(computeRetryDelay(policy, 1, noJitter)).toEqual(100);
+      expect(computeRetryDelay(policy, 2, noJitter)).toEqual(300);
+      expect(computeRetryDelay(policy, 3, noJitter)).toEqual(900);
+    });
+
+    it('caps the delay', () => {
+      const policy = {maxAttempts: 4, initialDelayMs: 100, maxDelayMs: 150};
+      expect(computeRetryDelay(policy, 3, noJitter)).toEqual(150);
+    });
+
+    it('randomizes the jitter proportion of the delay', () => {
+      const policy = {maxAttempts: 2, initialDelayMs: 100, jitter: 0.4};
+      expect(computeRetryDelay(policy, 1, () => 1)).toEqual(60);
+      expect(computeRetryDelay(policy, 1, () => 0.5)).toEqual(80);
+    });
+  });
+});
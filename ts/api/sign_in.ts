@@ -0,0 +1,200 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenYoloCredential, OpenYoloCredentialHintOptions, OpenYoloCredentialRequestOptions, OpenYoloProxyLoginResponse, RequestContext, TokenProvider} from '../protocol/data';
+import {OpenYoloErrorType} from '../protocol/errors';
+import {PasswordSpecification} from '../protocol/password_spec';
+
+import {CallOptions, OpenYoloApi} from './api';
+
+/**
+ * The outcomes of a sign-in.
+ */
+export const enum SignInResultType {
+  /** The user selected an existing credential. */
+  credential = 'credential',
+  /** The user selected a hint, to sign in or sign up with. */
+  hint = 'hint',
+  /** The credential was dispatched to the authentication system. */
+  proxyLogin = 'proxyLogin',
+  /** No credential or hint is available, or the user canceled. */
+  none = 'none'
+}
+
+export interface CredentialSignInResult {
+  type: SignInResultType.credential;
+  credential: OpenYoloCredential;
+}
+
+export interface HintSignInResult {
+  type: SignInResultType.hint;
+  credential: OpenYoloCredential;
+}
+
+export interface ProxyLoginSignInResult {
+  type: SignInResultType.proxyLogin;
+  credential: OpenYoloCredential;
+  response: OpenYoloProxyLoginResponse;
+}
+
+export interface NoActionSignInResult {
+  type: SignInResultType.none;
+  /**
+   * Why no action was taken: `noCredentialsAvailable` or `userCanceled`.
+   */
+  reason: OpenYoloErrorType;
+}
+
+export type SignInResult = CredentialSignInResult | HintSignInResult |
+    ProxyLoginSignInResult | NoActionSignInResult;
+
+/**
+ * Hooks invoked along the sign-in. A hook may return a promise, awaited before
+ * the next step; a failing hook fails the sign-in.
+ */
+export interface SignInHooks {
+  /** Invoked before retrieving a credential, with the request options. */
+  beforeRetrieve?(options: OpenYoloCredentialRequestOptions): any;
+  /** Invoked once the user selected an existing credential. */
+  onCredential?(credential: OpenYoloCredential): any;
+  /** Invoked before requesting a hint, with the request options. */
+  beforeHint?(options: OpenYoloCredentialHintOptions): any;
+  /** Invoked once the user selected a hint. */
+  onHint?(credential: OpenYoloCredential): any;
+  /** Invoked before dispatching the credential to the authentication system. */
+  beforeProxyLogin?(credential: OpenYoloCredential): any;
+  /** Invoked with the response of the authentication system. */
+  onProxyLogin?(response: OpenYoloProxyLoginResponse): any;
+}
+
+export interface SignInOptions {
+  supportedAuthMethods: string[];
+  supportedIdTokenProviders?: TokenProvider[];
+
+  /**
+   * The context of the requests, propagated to the provider by both the
+   * retrieve and hint requests. Default: signIn.
+   */
+  context?: RequestContext;
+
+  /**
+   * Whether a hint is requested when no credential is available. Default:
+   * true.
+   */
+  hint?: boolean;
+
+  /**
+   * The password specification of the hint request.
+   */
+  passwordSpec?: PasswordSpecification;
+
+  /**
+   * Whether the hint request offers to add an account.
+   */
+  showAddAccount?: boolean;
+
+  /**
+   * Whether a credential requiring it is dispatched to the authentication
+   * system with proxyLogin. Otherwise, it is returned as is. Default: true.
+   */
+  proxyLogin?: boolean;
+
+  /**
+   * The options of every call made by the sign-in, e.g. to abort it.
+   */
+  callOptions?: CallOptions;
+
+  hooks?: SignInHooks;
+}
+
+/**
+ * Signs the user in with the given API: retrieves an existing credential,
+ * dispatching it with proxyLogin if required, or falls back to requesting a
+ * hint when no credential is available.
+ */
+export async function signIn(
+    api: OpenYoloApi, options: SignInOptions): Promise<SignInResult> {
+  const hooks = options.hooks || {};
+  const context = options.context || RequestContext.signIn;
+  const retrieveOptions: OpenYoloCredentialRequestOptions = {
+    supportedAuthMethods: options.supportedAuthMethods,
+    supportedIdTokenProviders: options.supportedIdTokenProviders,
+    context
+  };
+  if (hooks.beforeRetrieve) await hooks.beforeRetrieve(retrieveOptions);
+  let credential: OpenYoloCredential|undefined;
+  try {
+    credential = await api.retrieve(retrieveOptions, options.callOptions);
+  } catch (e) {
+    if (isErrorType(e, OpenYoloErrorType.userCanceled)) {
+      return {type: SignInResultType.none, reason: e.type};
+    }
+    if (!isErrorType(e, OpenYoloErrorType.noCredentialsAvailable)) {
+      throw e;
+    }
+  }
+
+  if (credential) {
+    if (hooks.onCredential) await hooks.onCredential(credential);
+    if (!credential.proxiedAuthRequired || options.proxyLogin === false) {
+      return {type: SignInResultType.credential, credential};
+    }
+    if (hooks.beforeProxyLogin) await hooks.beforeProxyLogin(credential);
+    const response = await api.proxyLogin(credential, options.callOptions);
+    if (hooks.onProxyLogin) await hooks.onProxyLogin(response);
+    return {type: SignInResultType.proxyLogin, credential, response};
+  }
+
+  if (options.hint === false) {
+    return {
+      type: SignInResultType.none,
+      reason: OpenYoloErrorType.noCredentialsAvailable
+    };
+  }
+  const hintOptions: OpenYoloCredentialHintOptions = {
+    supportedAuthMethods: options.supportedAuthMethods,
+    supportedIdTokenProviders: options.supportedIdTokenProviders,
+    passwordSpec: options.passwordSpec,
+    showAddAccount: options.showAddAccount,
+    context
+  };
+  if (hooks.beforeHint) await hooks.beforeHint(hintOptions);
+  let hint: OpenYoloCredential;
+  try {
+    hint = await api.hint(hintOptions, options.callOptions);
+  } catch (e) {
+    if (isErrorType(e, OpenYoloErrorType.userCanceled) ||
+        isErrorType(e, OpenYoloErrorType.noCredentialsAvailable)) {
+      return {type: SignInResultType.none, reason: e.type};
+    }
+    throw e;
+  }
+  if (hooks.onHint) await hooks.onHint(hint);
+  return {type: SignInResultType.hint, credential: hint};
+}
+
+/**
+ * Signs the user out with the given API: disables the automatic sign-in, so
+ * that the user is not signed in again without an interaction.
+ */
+export function signOut(
+    api: OpenYoloApi, callOptions?: CallOptions): Promise<void> {
+  return api.disableAutoSignIn(callOptions);
+}
+
+function isErrorType(error: any, type: OpenYoloErrorType): boolean {
+  return !!error && error['type'] === type;
+}
@@ -0,0 +1,177 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenYoloCredential, RequestContext} from '../protocol/data';
+import {OpenYoloErrorType, OpenYoloInternalError} from '../protocol/errors';
+
+import {OpenYoloApi} from './api';
+import {signIn, SignInOptions, SignInResultType, signOut} from './sign_in';
+
+describe('signIn', () => {
+  const credential: OpenYoloCredential = {
+    id: 'jdoe@example.com',
+    authMethod: 'openyolo://id-and-password'
+  };
+  const proxiedCredential:
+      OpenYoloCredential = {...credential, proxiedAuthRequired: true};
+  const hint: OpenYoloCredential = {id: 'jdoe@example.com', authMethod: 'test'};
+  const response = {statusCode: 200, responseText: 'OK'};
+  const noCredentialsAvailable = () => Promise.reject(
+      OpenYoloInternalError.noCredentialsAvailable().toExposedError());
+  const options: SignInOptions = {supportedAuthMethods: ['test']};
+
+  let api: {[key in keyof OpenYoloApi]: jasmine.Spy};
+
+  beforeEach(() => {
+    api = jasmine.createSpyObj(
+        'OpenYoloApi', ['retrieve', 'hint', 'proxyLogin', 'disableAutoSignIn']);
+  });
+
+  it('returns the existing credential', async function(done) {
+    api.retrieve.and.returnValue(Promise.resolve(credential));
+    const result = await signIn(api as any, options);
+    expect(result).toEqual({type: SignInResultType.credential, credential});
+    expect(api.retrieve)
+        .toHaveBeenCalledWith(
+            {
+              supportedAuthMethods: ['test'],
+              supportedIdTokenProviders: undefined,
+              context: RequestContext.signIn
+            },
+            undefined);
+    expect(api.hint).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('dispatches the credential requiring it with proxyLogin',
+     async function(done) {
+       api.retrieve.and.returnValue(Promise.resolve(proxiedCredential));
+       api.proxyLogin.and.returnValue(Promise.resolve(response));
+       const result = await signIn(api as any, options);
+       expect(result).toEqual({
+         type: SignInResultType.proxyLogin,
+         credential: proxiedCredential,
+         response
+       });
+       done();
+     });
+
+  it('returns the credential as is if proxyLogin is disabled',
+     async function(done) {
+       api.retrieve.and.returnValue(Promise.resolve(proxiedCredential));
+       const result = await signIn(api as any, {...options, proxyLogin: false});
+       expect(result.type).toEqual(SignInResultType.credential);
+       expect(api.proxyLogin).not.toHaveBeenCalled();
+       done();
+     });
+
+  it('falls back to a hint with the same context', async function(done) {
+    api.retrieve.and.callFake(noCredentialsAvailable);
+    api.hint.and.returnValue(Promise.resolve(hint));
+    const callOptions = {timeouts: 1000};
+    const result = await signIn(
+        api as any, {...options, context: RequestContext.signUp, callOptions});
+    expect(result).toEqual({type: SignInResultType.hint, credential: hint});
+    expect(api.hint.calls.mostRecent().args[0].context)
+        .toEqual(RequestContext.signUp);
+    expect(api.hint.calls.mostRecent().args[1]).toBe(callOptions);
+    done();
+  });
+
+  it('takes no action without credential nor hint', async function(done) {
+    api.retrieve.and.callFake(noCredentialsAvailable);
+    api.hint.and.callFake(noCredentialsAvailable);
+    const result = await signIn(api as any, options);
+    expect(result).toEqual({
+      type: SignInResultType.none,
+      reason: OpenYoloErrorType.noCredentialsAvailable
+    });
+    done();
+  });
+
+  it('takes no action once the user canceled', async function(done) {
+    api.retrieve.and.returnValue(
+        Promise.reject(OpenYoloInternalError.userCanceled().toExposedError()));
+    const result = await signIn(api as any, options);
+    expect(result).toEqual(
+        {type: SignInResultType.none, reason: OpenYoloErrorType.userCanceled});
+    expect(api.hint).not.toHaveBeenCalled();
+    done();
+  });
+
+  it('fails on other errors', async function(done) {
+    const error = OpenYoloInternalError.requestFailed('ERROR').toExposedError();
+    api.retrieve.and.returnValue(Promise.reject(error));
+    try {
+      await signIn(api as any, options);
+      done.fail('Should not resolve!');
+    } catch (e) {
+      expect(e).toBe(error);
+      done();
+    }
+  });
+
+  it('invokes the hooks of every step in order', async function(done) {
+    const calls: string[] = [];
+    api.retrieve.and.callFake(noCredentialsAvailable);
+    api.hint.and.returnValue(Promise.resolve(hint));
+    await signIn(api as any, {
+      ...options,
+      hooks: {
+        beforeRetrieve: () => {
+          calls.push('beforeRetrieve');
+        },
+        beforeHint: () => {
+          calls.push('beforeHint');
+          return Promise.resolve();
+        },
+        onHint: (selectedHint) => {
+          calls.push(`onHint:${selectedHint.authMethod}`);
+        }
+      }
+    });
+    expect(calls).toEqual(['beforeRetrieve', 'beforeHint', 'onHint:test']);
+    done();
+  });
+});
+
+describe('signOut', () => {
+  let api: {[key in keyof OpenYoloApi]: jasmine.Spy};
+
+  beforeEach(() => {
+    api = jasmine.createSpyObj('OpenYoloApi', ['disableAutoSignIn']);
+  });
+
+  it('disables the automatic sign-in', async function(done) {
+    const callOptions = {timeouts: 1000};
+    api.disableAutoSignIn.and.returnValue(Promise.resolve());
+    await signOut(api as any, callOptions);
+    expect(api.disableAutoSignIn).toHaveBeenCalledWith(callOptions);
+    done();
+  });
+
+  it('fails if the automatic sign-in cannot be disabled', async function(done) {
+    const error = OpenYoloInternalError.requestFailed('ERROR').toExposedError();
+    api.disableAutoSignIn.and.returnValue(Promise.reject(error));
+    try {
+      await signOut(api as any);
+      done.fail('Should not resolve!');
+    } catch (e) {
+      expect(e).toBe(error);
+      done();
+    }
+  });
+});
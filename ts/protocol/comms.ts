@@ -30,6 +30,17 @@ export interface WindowLike extends EventTarget {
   postMessage(data: any, targetOrigin: string, transfer?: MessagePort[]): void;
 }
 
+/**
+ * Returns the window of the client that embeds the provider window: its parent
+ * frame, or its opener when the provider is displayed in a popup.
+ */
+export function getClientWindow(providerWindow: WindowLike): WindowLike {
+  if (providerWindow.parent === providerWindow && providerWindow.opener) {
+    return providerWindow.opener;
+  }
+  return providerWindow.parent;
+}
+
 /**
  * Sends a message to the specified target frame, optionally restricting
  * delivery to the specified target origin.
@@ -14,9 +14,10 @@
  * limitations under the License.
  */
 
+import {MockWindow} from '../test_utils/frames';
 import {createUntypedMessageEvent} from '../test_utils/messages';
 
-import {createMessageListener, isPermittedOrigin, PostMessageListener, sendMessage} from './comms';
+import {createMessageListener, getClientWindow, isPermittedOrigin, PostMessageListener, sendMessage} from './comms';
 import {channelReadyMessage, PostMessageType} from './post_messages';
 
 describe('comms', () => {
@@ -34,6 +35,24 @@ describe('comms', () => {
     });
   });
 
+  describe('getClientWindow', () => {
+    it('should return the parent of a frame', () => {
+      let parent = new MockWindow();
+      expect(getClientWindow(new MockWindow(parent))).toBe(parent);
+    });
+
+    it('should return the opener of a popup', () => {
+      let opener = new MockWindow();
+      let popup = new MockWindow(undefined, opener);
+      expect(getClientWindow(popup)).toBe(opener);
+    });
+
+    it('should return the window itself otherwise', () => {
+      let window = new MockWindow();
+      expect(getClientWindow(window)).toBe(window);
+    });
+  });
+
   describe('sendMessage', () => {
     it('should send a postMessage to the target', () => {
       let target = jasmine.createSpyObj('target', ['postMessage']);
@@ -83,6 +83,12 @@ export interface OpenYoloCredential {
    */
   idToken?: string;
 
+  /**
+   * The claims of the ID token, once inspected by the client. This is only
+   * set by the client API, when an ID token policy is set.
+   */
+  idTokenClaims?: IdTokenClaims;
+
   /**
    * An optional generated password for the credential. This is only provided
    * for credential hints.
@@ -106,6 +112,25 @@ export interface OpenYoloCredential {
   newGrant?: boolean;
 }
 
+/**
+ * The claims of an OpenID Connect ID token.
+ */
+export interface IdTokenClaims {
+  /** The issuer of the token. */
+  iss: string;
+  /** The subject of the token, identifying the account at the issuer. */
+  sub: string;
+  /** The audience of the token: the client ID it is issued for. */
+  aud: string|string[];
+  /** The expiration time, in seconds since the epoch. */
+  exp: number;
+  /** The issuance time, in seconds since the epoch. */
+  iat: number;
+  /** The nonce of the request, if one was provided. */
+  nonce?: string;
+  [claim: string]: any;
+}
+
 /**
  * Encapsulates the response from the authentication system to a proxy login.
  */
@@ -188,6 +213,8 @@ export interface OpenYoloCredentialHintOptions {
    * This specification must represent a subset of the passwords which can
    * be accepted by the authentication system. If a specification is not
    * explicitly provided, `DEFAULT_PASSWORD_GENERATION_SPEC` will be used.
+   * A specification can be built from the `passwordrules` attribute of an
+   * input with `parsePasswordRules`.
    */
   passwordSpec?: PasswordSpecification;
 
@@ -207,13 +234,24 @@ export interface OpenYoloCredentialHintOptions {
  * - navPopout: The provider is rendered in a pop-up style at the top of the
  *   screen, with a fixed width. The
  *
+ * - popup: The provider is rendered in a separate browser window, opened with
+ *   `window.open` and sized according to the provider's display requests. The
+ *   request should be made in response to a user gesture, as browsers block
+ *   popups otherwise.
+ *
+ * - inline: The provider is rendered in normal flow, filling a container
+ *   element supplied by the client. The container is resized according to the
+ *   provider's display requests.
+ *
  * A const enum is required as string enums in TypeScript get compiled with
  * properties in quotes. For instance, the following RenderMode would be:
  *
  * RenderMode = {
  *   'bottomSheet': 'bottomSheet',
  *   'navPopout': 'navPopout',
- *   'fullScreen': 'fullScreen'
+ *   'fullScreen': 'fullScreen',
+ *   'popup': 'popup',
+ *   'inline': 'inline'
  * }
  *
  * The issue is that the references to this enum are made WITHOUT bracket
@@ -224,8 +262,19 @@ export const enum RenderMode {
   bottomSheet = 'bottomSheet',
   navPopout = 'navPopout',
   fullScreen = 'fullScreen',
+  popup = 'popup',
+  inline = 'inline',
 }
 
+// This is a hack to be able to list the values of a "const enum"
+export const RENDER_MODES: RenderMode[] = [
+  RenderMode.bottomSheet,
+  RenderMode.navPopout,
+  RenderMode.fullScreen,
+  RenderMode.popup,
+  RenderMode.inline
+];
+
 /**
  * A set of commonly-used federated authentication methods. This list is not
  * intended to be an exhaustive enumeration of all identity providers. When
@@ -21,6 +21,8 @@ export const enum InternalErrorCode {
   parentVerifyTimeout = 'parentVerifyTimeout',
   illegalStateError = 'illegalStateError',
   providerInitializationFailed = 'providerInitializationFailed',
+  popupBlocked = 'popupBlocked',
+  containerNotFound = 'containerNotFound',
   apiDisabled = 'apiDisabled',
   untrustedOrigin = 'untrustedOrigin',
   parentIsNotRoot = 'parentIsNotRoot',
@@ -30,8 +32,13 @@ export const enum InternalErrorCode {
   clientDisposed = 'clientDisposed',
   requestFailed = 'requestFailed',
   requestTimeout = 'requestTimeout',
+  invalidIdToken = 'invalidIdToken',
+  // Never emitted: the initialization timing out is reported as a
+  // requestTimeout error. Selects it in the retry and fallback policies.
+  initializationTimeout = 'initializationTimeout',
   illegalConcurrentRequest = 'illegalConcurrentRequest',
   unknownRequest = 'unknownRequest',
+  invalidPasswordSpecification = 'invalidPasswordSpecification',
   browserWrappingRequired = 'browserWrappingRequired',
   unsupportedBrowser = 'unsupportedBrowser',
   unknownError = 'unknownError'
@@ -49,6 +56,7 @@ export const enum OpenYoloErrorType {
   requestFailed = 'requestFailed',
   illegalConcurrentRequest = 'illegalConcurrentRequest',
   browserWrappingRequired = 'browserWrappingRequired',
+  popupBlocked = 'popupBlocked',
   unknownError = 'unknownError'
 }
 
@@ -80,6 +88,8 @@ export interface OpenYoloExposedErrorData {
    * InternalErrorCode for easier reference: `${code}: ${message}`.
    */
   message: string;
+  /** Standardized internal error code, if known. */
+  code?: InternalErrorCode;
 }
 
 /**
@@ -114,7 +124,8 @@ export class OpenYoloInternalError implements CustomError {
   private toExposedErrorData(): OpenYoloExposedErrorData {
     return {
       type: this.data.exposedErrorType,
-      message: `${this.data.code}: ${this.data.message}`
+      message: `${this.data.code}: ${this.data.message}`,
+      code: this.data.code
     };
   }
 
@@ -164,6 +175,24 @@ export class OpenYoloInternalError implements CustomError {
     });
   }
 
+  static popupBlocked() {
+    return new OpenYoloInternalError({
+      code: InternalErrorCode.popupBlocked,
+      exposedErrorType: OpenYoloErrorType.popupBlocked,
+      message: 'The credentials provider popup could not be opened. Requests ' +
+          'using the popup render mode must be made in response to a user ' +
+          'gesture.'
+    });
+  }
+
+  static containerNotFound(selector: string) {
+    return new OpenYoloInternalError({
+      code: InternalErrorCode.containerNotFound,
+      exposedErrorType: OpenYoloErrorType.configurationError,
+      message: `No element matches the inline container selector ${selector}.`
+    });
+  }
+
   static apiDisabled() {
     return new OpenYoloInternalError({
       code: InternalErrorCode.apiDisabled,
@@ -239,11 +268,20 @@ export class OpenYoloInternalError implements CustomError {
     });
   }
 
+  static invalidIdToken(reason: string) {
+    return new OpenYoloInternalError({
+      code: InternalErrorCode.invalidIdToken,
+      exposedErrorType: OpenYoloErrorType.requestFailed,
+      message: `The ID token returned is invalid: ${reason}`
+    });
+  }
+
   static requestTimeout() {
     return new OpenYoloInternalError({
       code: InternalErrorCode.requestTimeout,
       exposedErrorType: OpenYoloErrorType.requestFailed,
-      message: 'The API request timed out.'
+      message: 'The API request timed out while waiting for the response of ' +
+          'the provider.'
     });
   }
 
@@ -251,7 +289,8 @@ export class OpenYoloInternalError implements CustomError {
     return new OpenYoloInternalError({
       code: InternalErrorCode.requestTimeout,
       exposedErrorType: OpenYoloErrorType.requestFailed,
-      message: 'The API request timed out. This may occur when error is ' +
+      message: 'The API request timed out while initializing the provider ' +
+          'frame and the secure channel. This may occur when error is ' +
           'returned upon initialization. If you are using Google Yolo, ' +
           'this error could happen if you haven\'t registered the origin ' +
           'with your OAuth client.'
@@ -277,6 +316,14 @@ export class OpenYoloInternalError implements CustomError {
     });
   }
 
+  static invalidPasswordSpecification(reason: string) {
+    return new OpenYoloInternalError({
+      code: InternalErrorCode.invalidPasswordSpecification,
+      exposedErrorType: OpenYoloErrorType.requestFailed,
+      message: `The password specification is invalid: ${reason}`
+    });
+  }
+
   static browserWrappingRequired() {
     return new OpenYoloInternalError({
       code: InternalErrorCode.browserWrappingRequired,
@@ -322,21 +369,26 @@ export declare interface OpenYoloError extends CustomError {
    * InternalErrorCode for easier reference: `${code}: ${message}`.
    */
   message: string;
+  /** Standardized internal error code, if known. */
+  code?: InternalErrorCode;
 }
 
 export class OpenYoloError {
   name = 'OpenYoloError';
   message: string;
 
-  constructor(message: string, public type: OpenYoloErrorType) {
+  constructor(
+      message: string,
+      public type: OpenYoloErrorType,
+      public code?: InternalErrorCode) {
     this.message = message;
   }
 
   toData(): OpenYoloExposedErrorData {
-    return {message: this.message, type: this.type};
+    return {message: this.message, type: this.type, code: this.code};
   }
 
   static fromData(data: OpenYoloExposedErrorData): OpenYoloError {
-    return new OpenYoloError(data.message, data.type);
+    return new OpenYoloError(data.message, data.type, data.code);
   }
 }
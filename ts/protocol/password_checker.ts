@@ -0,0 +1,247 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenYoloInternalError} from './errors';
+import {PasswordSpecification} from './password_spec';
+
+/**
+ * The printable ASCII characters range from space (0x20) to tilde (0x7E).
+ */
+const PRINTABLE_ASCII_REGEX = /^[\x20-\x7E]*$/;
+
+/**
+ * The ways in which a password can fail to conform to a specification.
+ */
+export const enum PasswordViolationType {
+  /**
+   * The password is shorter than the minimum length.
+   */
+  tooShort = 'tooShort',
+  /**
+   * The password is longer than the maximum length.
+   */
+  tooLong = 'tooLong',
+  /**
+   * The password does not contain enough characters from a required set.
+   */
+  missingRequiredChars = 'missingRequiredChars',
+  /**
+   * The password contains characters which are neither allowed nor part of a
+   * required set.
+   */
+  disallowedChars = 'disallowedChars'
+}
+
+/**
+ * Describes a single way in which a password does not conform to a
+ * specification.
+ */
+export interface PasswordViolation {
+  type: PasswordViolationType;
+
+  /**
+   * The violated length bound for `tooShort` and `tooLong`, or the required
+   * count of characters for `missingRequiredChars`.
+   */
+  expected?: number;
+
+  /**
+   * The length of the password for `tooShort` and `tooLong`, or the number of
+   * characters found from the required set for `missingRequiredChars`.
+   */
+  actual?: number;
+
+  /**
+   * The characters of the required set for `missingRequiredChars`, or the
+   * offending characters of the password for `disallowedChars`.
+   */
+  chars?: string;
+}
+
+/**
+ * Returns the list of rules of the `PasswordSpecification` definition broken
+ * by the provided value, as human readable reasons. The list is empty if the
+ * value is a valid specification.
+ */
+export function findPasswordSpecificationErrors(spec: any): string[] {
+  if (!spec || typeof spec !== 'object') {
+    return ['the specification must be an object.'];
+  }
+
+  const errors: string[] = [];
+  const minLength = spec['minLength'];
+  const maxLength = spec['maxLength'];
+  const lengthsValid =
+      isNonNegativeInteger(minLength) && isNonNegativeInteger(maxLength);
+  if (!lengthsValid) {
+    errors.push('the length bounds must be non-negative integers.');
+  } else if (maxLength < 1 || minLength > maxLength) {
+    errors.push('the length bounds do not allow any password.');
+  }
+
+  if (!isPrintableAsciiString(spec['allowedChars'])) {
+    errors.push('the allowed characters must be printable ASCII characters.');
+  }
+
+  const requiredCharSets = spec['requiredCharSets'];
+  if (!Array.isArray(requiredCharSets)) {
+    errors.push('the required character sets must be an array.');
+    return errors;
+  }
+
+  let requiredCount = 0;
+  let seenChars = '';
+  let overlapping = false;
+  for (let i = 0; i < requiredCharSets.length; i++) {
+    const charSet = requiredCharSets[i];
+    if (!charSet || typeof charSet !== 'object') {
+      errors.push(`the required character set ${i} must be an object.`);
+      continue;
+    }
+
+    if (!isNonNegativeInteger(charSet['count'])) {
+      errors.push(
+          `the required character count ${i} must be a non-negative integer.`);
+    } else {
+      requiredCount += charSet['count'];
+    }
+
+    const chars = charSet['chars'];
+    if (!isPrintableAsciiString(chars)) {
+      errors.push(
+          `the required character set ${i} must be composed of ` +
+          'printable ASCII characters.');
+      continue;
+    }
+
+    if (chars.length < 1 && charSet['count'] > 0) {
+      errors.push(`the required character set ${i} is empty.`);
+    }
+
+    const distinct = distinctChars(chars);
+    for (let j = 0; j < distinct.length; j++) {
+      if (seenChars.indexOf(distinct.charAt(j)) !== -1) {
+        overlapping = true;
+      }
+    }
+    seenChars += distinct;
+  }
+
+  if (overlapping) {
+    errors.push('the required character sets must be disjoint.');
+  }
+
+  if (lengthsValid && requiredCount > minLength) {
+    errors.push(
+        'more characters are required than the minimum length permits.');
+  }
+
+  return errors;
+}
+
+/**
+ * Checks the conformance of a password to the provided specification, and
+ * returns the list of violations found. The list is empty if the password
+ * conforms. Characters of the required sets are always permitted, even when
+ * absent from the allowed characters.
+ *
+ * Throws an `invalidPasswordSpecification` error if the specification is not
+ * valid.
+ */
+export function checkPassword(
+    password: string, spec: PasswordSpecification): PasswordViolation[] {
+  const specErrors = findPasswordSpecificationErrors(spec);
+  if (specErrors.length > 0) {
+    throw OpenYoloInternalError.invalidPasswordSpecification(specErrors[0]);
+  }
+
+  const violations: PasswordViolation[] = [];
+  if (password.length < spec.minLength) {
+    violations.push({
+      type: PasswordViolationType.tooShort,
+      expected: spec.minLength,
+      actual: password.length
+    });
+  }
+
+  if (password.length > spec.maxLength) {
+    violations.push({
+      type: PasswordViolationType.tooLong,
+      expected: spec.maxLength,
+      actual: password.length
+    });
+  }
+
+  let permittedChars = spec.allowedChars;
+  spec.requiredCharSets.forEach((charSet) => {
+    permittedChars += charSet.chars;
+    const found = countChars(password, charSet.chars);
+    if (found < charSet.count) {
+      violations.push({
+        type: PasswordViolationType.missingRequiredChars,
+        expected: charSet.count,
+        actual: found,
+        chars: charSet.chars
+      });
+    }
+  });
+
+  let disallowed = '';
+  for (let i = 0; i < password.length; i++) {
+    const c = password.charAt(i);
+    if (permittedChars.indexOf(c) === -1 && disallowed.indexOf(c) === -1) {
+      disallowed += c;
+    }
+  }
+
+  if (disallowed.length > 0) {
+    violations.push(
+        {type: PasswordViolationType.disallowedChars, chars: disallowed});
+  }
+
+  return violations;
+}
+
+/**
+ * Removes the duplicate characters of the provided string.
+ */
+export function distinctChars(chars: string): string {
+  let result = '';
+  for (let i = 0; i < chars.length; i++) {
+    if (result.indexOf(chars.charAt(i)) === -1) {
+      result += chars.charAt(i);
+    }
+  }
+  return result;
+}
+
+function countChars(password: string, chars: string): number {
+  let count = 0;
+  for (let i = 0; i < password.length; i++) {
+    if (chars.indexOf(password.charAt(i)) !== -1) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function isPrintableAsciiString(value: any): boolean {
+  return typeof value === 'string' && PRINTABLE_ASCII_REGEX.test(value);
+}
+
+function isNonNegativeInteger(value: any): boolean {
+  return typeof value === 'number' && value >= 0 && Math.floor(value) === value;
+}
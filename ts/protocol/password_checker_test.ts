@@ -0,0 +1,104 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {InternalErrorCode, OpenYoloInternalError} from './errors';
+import {checkPassword, PasswordViolationType} from './password_checker';
+import {DEFAULT_PASSWORD_GENERATION_SPEC, PasswordSpecification} from './password_spec';
+
+describe('checkPassword', () => {
+  const spec: PasswordSpecification = {
+    minLength: 6,
+    maxLength: 10,
+    requiredCharSets:
+        [{chars: '0123456789', count: 2}, {chars: '#$%', count: 1}],
+    allowedChars: 'abcdef'
+  };
+
+  it('returns no violation for a conforming password', () => {
+    expect(checkPassword('ab12#cd', spec)).toEqual([]);
+    expect(checkPassword('ab3D5fGh7kmn', DEFAULT_PASSWORD_GENERATION_SPEC))
+        .toEqual([]);
+  });
+
+  it('permits additional characters from the required sets', () => {
+    expect(checkPassword('1234##', spec)).toEqual([]);
+  });
+
+  it('reports a password too short', () => {
+    expect(checkPassword('12#', spec)).toEqual([
+      {type: PasswordViolationType.tooShort, expected: 6, actual: 3}
+    ]);
+  });
+
+  it('reports a password too long', () => {
+    expect(checkPassword('12#abcdefab', spec)).toEqual([
+      {type: PasswordViolationType.tooLong, expected: 10, actual: 11}
+    ]);
+  });
+
+  it('reports every missing required character set', () => {
+    expect(checkPassword('abcde1', spec)).toEqual([
+      {
+        type: PasswordViolationType.missingRequiredChars,
+        expected: 2,
+        actual: 1,
+        chars: '0123456789'
+      },
+      {
+        type: PasswordViolationType.missingRequiredChars,
+        expected: 1,
+        actual: 0,
+        chars: '#$%'
+      }
+    ]);
+  });
+
+  it('reports the distinct disallowed characters', () => {
+    expect(checkPassword('12#abzzy', spec)).toEqual([
+      {type: PasswordViolationType.disallowedChars, chars: 'zy'}
+    ]);
+  });
+
+  it('reports all the violations at once', () => {
+    expect(checkPassword('xyz', spec)).toEqual([
+      {type: PasswordViolationType.tooShort, expected: 6, actual: 3},
+      {
+        type: PasswordViolationType.missingRequiredChars,
+        expected: 2,
+        actual: 0,
+        chars: '0123456789'
+      },
+      {
+        type: PasswordViolationType.missingRequiredChars,
+        expected: 1,
+        actual: 0,
+        chars: '#$%'
+      },
+      {type: PasswordViolationType.disallowedChars, chars: 'xyz'}
+    ]);
+  });
+
+  it('rejects an invalid specification', () => {
+    try {
+      checkPassword('abc', {...spec, minLength: 2});
+      fail('The specification should be rejected.');
+    } catch (e) {
+      expect(OpenYoloInternalError.errorIs(
+                 e, InternalErrorCode.invalidPasswordSpecification))
+          .toBe(true);
+    }
+  });
+});
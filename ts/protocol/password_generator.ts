@@ -0,0 +1,102 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenYoloInternalError} from './errors';
+import {distinctChars, findPasswordSpecificationErrors} from './password_checker';
+import {PasswordSpecification} from './password_spec';
+
+/**
+ * The number of distinct values of a Uint32, i.e. 2^32.
+ */
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Generates a random password conforming to the provided specification. The
+ * required character sets are satisfied first, then the password is padded
+ * to a random length within the specification bounds with characters drawn
+ * from the allowed set, and finally shuffled.
+ *
+ * Throws an `invalidPasswordSpecification` error if the specification cannot
+ * be satisfied.
+ */
+export function generatePassword(spec: PasswordSpecification): string {
+  const specErrors = findPasswordSpecificationErrors(spec);
+  if (specErrors.length > 0) {
+    throw OpenYoloInternalError.invalidPasswordSpecification(specErrors[0]);
+  }
+
+  const requiredCharSets = spec.requiredCharSets.map((charSet) => {
+    return {count: charSet.count, chars: distinctChars(charSet.chars)};
+  });
+  const allowedChars = distinctChars(spec.allowedChars);
+  const requiredCount =
+      requiredCharSets.reduce((total, charSet) => total + charSet.count, 0);
+
+  // without allowed characters, the password can only be composed of the
+  // required ones.
+  const minLength = spec.minLength;
+  const maxLength = allowedChars.length > 0 ? spec.maxLength : requiredCount;
+  if (minLength > maxLength) {
+    throw OpenYoloInternalError.invalidPasswordSpecification(
+        'no characters are allowed beyond the required ones.');
+  }
+
+  const length = minLength + randomInt(maxLength - minLength + 1);
+  const password: string[] = [];
+
+  requiredCharSets.forEach((charSet) => {
+    for (let i = 0; i < charSet.count; i++) {
+      password.push(randomChar(charSet.chars));
+    }
+  });
+
+  while (password.length < length) {
+    password.push(randomChar(allowedChars));
+  }
+
+  // Fisher-Yates shuffle, so the required characters are not all at the
+  // start of the password.
+  for (let i = password.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    const swap = password[i];
+    password[i] = password[j];
+    password[j] = swap;
+  }
+
+  return password.join('');
+}
+
+/**
+ * Returns a uniformly distributed random integer in [0, bound). Values
+ * that would introduce a modulo bias are rejected and redrawn.
+ */
+function randomInt(bound: number): number {
+  if (bound <= 1) {
+    return 0;
+  }
+
+  const limit = UINT32_RANGE - (UINT32_RANGE % bound);
+  const buf = new Uint32Array(1);
+  do {
+    window.crypto.getRandomValues(buf);
+  } while (buf[0] >= limit);
+
+  return buf[0] % bound;
+}
+
+function randomChar(chars: string): string {
+  return chars.charAt(randomInt(chars.length));
+}
@@ -0,0 +1,153 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {InternalErrorCode, OpenYoloInternalError} from './errors';
+import {generatePassword} from './password_generator';
+import {CHARACTER_SETS, DEFAULT_PASSWORD_GENERATION_SPEC, PasswordSpecification} from './password_spec';
+
+describe('generatePassword', () => {
+
+  function countChars(password: string, chars: string): number {
+    let count = 0;
+    for (let i = 0; i < password.length; i++) {
+      if (chars.indexOf(password.charAt(i)) !== -1) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  function expectInvalid(spec: PasswordSpecification) {
+    try {
+      generatePassword(spec);
+      fail('The specification should be rejected.');
+    } catch (e) {
+      expect(OpenYoloInternalError.errorIs(
+                 e, InternalErrorCode.invalidPasswordSpecification))
+          .toBe(true);
+    }
+  }
+
+  it('satisfies the default specification', () => {
+    for (let i = 0; i < 50; i++) {
+      const password = generatePassword(DEFAULT_PASSWORD_GENERATION_SPEC);
+      expect(password.length).toBeGreaterThanOrEqual(12);
+      expect(password.length).toBeLessThanOrEqual(16);
+      expect(countChars(password, CHARACTER_SETS.LOWER_ALPHA_DISTINGUISHABLE))
+          .toBeGreaterThanOrEqual(1);
+      expect(countChars(password, CHARACTER_SETS.UPPER_ALPHA_DISTINGUISHABLE))
+          .toBeGreaterThanOrEqual(1);
+      expect(countChars(password, CHARACTER_SETS.NUMERALS_DISTINGUISHABLE))
+          .toBeGreaterThanOrEqual(1);
+      expect(countChars(password, CHARACTER_SETS.ALPHANUMERIC_DISTINGUISHABLE))
+          .toEqual(password.length);
+    }
+  });
+
+  it('satisfies every required character count', () => {
+    const spec: PasswordSpecification = {
+      minLength: 10,
+      maxLength: 10,
+      requiredCharSets: [
+        {chars: CHARACTER_SETS.NUMERALS, count: 4},
+        {chars: '#$%', count: 2}
+      ],
+      allowedChars: CHARACTER_SETS.LOWER_ALPHA
+    };
+    for (let i = 0; i < 50; i++) {
+      const password = generatePassword(spec);
+      expect(password.length).toEqual(10);
+      expect(countChars(password, CHARACTER_SETS.NUMERALS)).toEqual(4);
+      expect(countChars(password, '#$%')).toEqual(2);
+      expect(countChars(password, CHARACTER_SETS.LOWER_ALPHA)).toEqual(4);
+    }
+  });
+
+  it('only uses required characters when none are allowed', () => {
+    const password = generatePassword({
+      minLength: 6,
+      maxLength: 12,
+      requiredCharSets: [{chars: 'ab', count: 6}],
+      allowedChars: ''
+    });
+    expect(password).toMatch(/^[ab]{6}$/);
+  });
+
+  it('rejects values which would introduce a modulo bias', () => {
+    // 2^32 - 1 is above the largest multiple of 3 below 2^32, and must be
+    // redrawn. 5 then maps to the index 2 in the single character set.
+    const values = [0xFFFFFFFF, 5];
+    spyOn(window.crypto, 'getRandomValues').and.callFake((buf: Uint32Array) => {
+      buf[0] = values.shift()!;
+      return buf;
+    });
+
+    const password = generatePassword({
+      minLength: 1,
+      maxLength: 1,
+      requiredCharSets: [],
+      allowedChars: 'abc'
+    });
+
+    expect(password).toEqual('c');
+    expect(window.crypto.getRandomValues).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects inverted length bounds', () => {
+    expectInvalid({
+      minLength: 12,
+      maxLength: 8,
+      requiredCharSets: [],
+      allowedChars: CHARACTER_SETS.ALPHANUMERIC
+    });
+  });
+
+  it('rejects non-integer lengths', () => {
+    expectInvalid({
+      minLength: 1.5,
+      maxLength: 8,
+      requiredCharSets: [],
+      allowedChars: CHARACTER_SETS.ALPHANUMERIC
+    });
+  });
+
+  it('rejects required counts above the maximum length', () => {
+    expectInvalid({
+      minLength: 4,
+      maxLength: 4,
+      requiredCharSets: [{chars: CHARACTER_SETS.NUMERALS, count: 5}],
+      allowedChars: CHARACTER_SETS.ALPHANUMERIC
+    });
+  });
+
+  it('rejects empty required character sets', () => {
+    expectInvalid({
+      minLength: 4,
+      maxLength: 8,
+      requiredCharSets: [{chars: '', count: 1}],
+      allowedChars: CHARACTER_SETS.ALPHANUMERIC
+    });
+  });
+
+  it('rejects specifications without enough allowed characters', () => {
+    expectInvalid({
+      minLength: 8,
+      maxLength: 8,
+      requiredCharSets: [{chars: CHARACTER_SETS.NUMERALS, count: 2}],
+      allowedChars: ''
+    });
+  });
+});
@@ -0,0 +1,373 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Conversion between `PasswordSpecification` and the password rules
+ * syntax used by browsers in the `passwordrules` attribute, for example
+ * `minlength: 12; maxlength: 16; required: lower; required: upper, digit;
+ * allowed: [-_]`.
+ */
+
+import {OpenYoloInternalError} from './errors';
+import {distinctChars, findPasswordSpecificationErrors} from './password_checker';
+import {CHARACTER_SETS, DEFAULT_PASSWORD_GENERATION_SPEC, PasswordSpecification, RequiredCharacterSet} from './password_spec';
+
+/**
+ * The named character classes of the password rules syntax, in the order in
+ * which they are preferred during serialization.
+ */
+const NAMED_CLASSES: {[name: string]: string} = {
+  'ascii-printable': CHARACTER_SETS.ALPHANUMERIC + CHARACTER_SETS.SYMBOLS,
+  'upper': CHARACTER_SETS.UPPER_ALPHA,
+  'lower': CHARACTER_SETS.LOWER_ALPHA,
+  'digit': CHARACTER_SETS.NUMERALS,
+  'special': CHARACTER_SETS.SYMBOLS
+};
+
+/**
+ * The `unicode` class cannot be represented, as password specifications are
+ * restricted to printable ASCII characters.
+ */
+const UNICODE_CLASS = 'unicode';
+
+const PRINTABLE_ASCII_REGEX = /^[\x20-\x7E]$/;
+
+interface PasswordRule {
+  name: string;
+  /**
+   * The value of the `minlength`, `maxlength` and `max-consecutive`
+   * properties.
+   */
+  length?: number;
+  /**
+   * The union of the classes of the `required` and `allowed` properties.
+   */
+  chars?: string;
+}
+
+/**
+ * A recursive descent parser of the password rules syntax. Property and class
+ * names are case insensitive, and whitespace is permitted around tokens.
+ */
+class PasswordRulesParser {
+  private position = 0;
+
+  constructor(private input: string) {}
+
+  parse(): PasswordRule[] {
+    const rules: PasswordRule[] = [];
+    this.skipWhitespace();
+    while (this.position < this.input.length) {
+      rules.push(this.parseProperty());
+      this.skipWhitespace();
+      if (this.position < this.input.length) {
+        this.expect(';');
+        this.skipWhitespace();
+      }
+    }
+    return rules;
+  }
+
+  private parseProperty(): PasswordRule {
+    const name = this.parseIdentifier();
+    this.skipWhitespace();
+    this.expect(':');
+    this.skipWhitespace();
+
+    switch (name) {
+      case 'minlength':
+      case 'maxlength':
+      case 'max-consecutive':
+        return {name, length: this.parseInteger()};
+      case 'required':
+      case 'allowed':
+        return {name, chars: this.parseCharacterClasses()};
+      default:
+        throw this.error(`unknown property "${name}"`);
+    }
+  }
+
+  private parseCharacterClasses(): string {
+    let chars = this.parseCharacterClass();
+    this.skipWhitespace();
+    while (this.peek() === ',') {
+      this.position++;
+      this.skipWhitespace();
+      chars += this.parseCharacterClass();
+      this.skipWhitespace();
+    }
+    return sortChars(chars);
+  }
+
+  private parseCharacterClass(): string {
+    if (this.peek() === '[') {
+      return this.parseCustomClass();
+    }
+
+    const name = this.parseIdentifier();
+    if (name === UNICODE_CLASS) {
+      throw this.error('the unicode class is not supported');
+    }
+    if (!NAMED_CLASSES.hasOwnProperty(name)) {
+      throw this.error(`unknown character class "${name}"`);
+    }
+    return NAMED_CLASSES[name];
+  }
+
+  /**
+   * Parses a custom class such as `[-_.]`. A ']' is only permitted as the
+   * last character of the class, and is then followed by the closing ']'.
+   */
+  private parseCustomClass(): string {
+    this.expect('[');
+    let chars = '';
+    while (this.position < this.input.length) {
+      const c = this.input.charAt(this.position);
+      if (c === ']' && this.input.charAt(this.position + 1) !== ']') {
+        break;
+      }
+      if (!PRINTABLE_ASCII_REGEX.test(c)) {
+        throw this.error('non-printable character in custom class');
+      }
+      chars += c;
+      this.position++;
+    }
+    this.expect(']');
+
+    if (chars.length === 0) {
+      throw this.error('empty custom class');
+    }
+    return chars;
+  }
+
+  private parseIdentifier(): string {
+    const start = this.position;
+    while (/^[a-zA-Z-]$/.test(this.peek())) {
+      this.position++;
+    }
+    if (start === this.position) {
+      throw this.error('expected an identifier');
+    }
+    return this.input.substring(start, this.position).toLowerCase();
+  }
+
+  private parseInteger(): number {
+    const start = this.position;
+    while (/^[0-9]$/.test(this.peek())) {
+      this.position++;
+    }
+    if (start === this.position) {
+      throw this.error('expected an integer');
+    }
+    return parseInt(this.input.substring(start, this.position), 10);
+  }
+
+  private expect(c: string) {
+    if (this.peek() !== c) {
+      throw this.error(`expected "${c}"`);
+    }
+    this.position++;
+  }
+
+  private peek(): string {
+    return this.input.charAt(this.position);
+  }
+
+  private skipWhitespace() {
+    while (/^\s$/.test(this.peek())) {
+      this.position++;
+    }
+  }
+
+  private error(reason: string) {
+    return OpenYoloInternalError.invalidPasswordSpecification(
+        `${reason} at position ${this.position} of the password rules.`);
+  }
+}
+
+/**
+ * Parses password rules into a password specification.
+ *
+ * Each `required` property becomes a required character set with a count of
+ * one, and identical `required` properties increment the count of the same
+ * set. The allowed characters are the union of the `allowed` and `required`
+ * classes, or every printable ASCII character if neither is present. When
+ * `minlength` or `maxlength` is absent, the bound of
+ * `DEFAULT_PASSWORD_GENERATION_SPEC` is used, adjusted to the other bound.
+ * The `max-consecutive` property has no equivalent and is ignored.
+ *
+ * Throws an `invalidPasswordSpecification` error if the rules are malformed,
+ * or do not result in a valid specification.
+ */
+export function parsePasswordRules(rules: string): PasswordSpecification {
+  const parser = new PasswordRulesParser(rules);
+  const properties = parser.parse();
+
+  let minLength: number|undefined;
+  let maxLength: number|undefined;
+  let allowedChars = '';
+  const requiredCharSets: RequiredCharacterSet[] = [];
+
+  properties.forEach((property) => {
+    switch (property.name) {
+      case 'minlength':
+        minLength = Math.max(minLength || 0, property.length!);
+        break;
+      case 'maxlength':
+        maxLength = maxLength === undefined ?
+            property.length! :
+            Math.min(maxLength, property.length!);
+        break;
+      case 'required': {
+        const chars = property.chars!;
+        const existing =
+            requiredCharSets.filter((charSet) => charSet.chars === chars)[0];
+        if (existing) {
+          existing.count++;
+        } else {
+          requiredCharSets.push({chars, count: 1});
+        }
+        allowedChars += chars;
+        break;
+      }
+      case 'allowed':
+        allowedChars += property.chars!;
+        break;
+      default:
+        // max-consecutive
+        break;
+    }
+  });
+
+  if (allowedChars.length === 0) {
+    allowedChars = NAMED_CLASSES['ascii-printable'];
+  }
+
+  const requiredCount =
+      requiredCharSets.reduce((total, charSet) => total + charSet.count, 0);
+  if (minLength === undefined) {
+    minLength = Math.max(
+        requiredCount,
+        Math.min(
+            DEFAULT_PASSWORD_GENERATION_SPEC.minLength,
+            maxLength === undefined ? Infinity : maxLength));
+  }
+  if (maxLength === undefined) {
+    maxLength = Math.max(DEFAULT_PASSWORD_GENERATION_SPEC.maxLength, minLength);
+  }
+
+  const spec: PasswordSpecification = {
+    minLength,
+    maxLength,
+    requiredCharSets,
+    allowedChars: sortChars(allowedChars)
+  };
+
+  const specErrors = findPasswordSpecificationErrors(spec);
+  if (specErrors.length > 0) {
+    throw OpenYoloInternalError.invalidPasswordSpecification(specErrors[0]);
+  }
+
+  return spec;
+}
+
+/**
+ * Serializes a password specification into password rules. Character sets
+ * are expressed with the named classes they contain, plus a custom class for
+ * the remaining characters. Required characters are implicitly allowed in
+ * the password rules syntax, so they are omitted from the `allowed`
+ * property.
+ *
+ * Throws an `invalidPasswordSpecification` error if the specification is not
+ * valid.
+ */
+export function serializePasswordRules(spec: PasswordSpecification): string {
+  const specErrors = findPasswordSpecificationErrors(spec);
+  if (specErrors.length > 0) {
+    throw OpenYoloInternalError.invalidPasswordSpecification(specErrors[0]);
+  }
+
+  const properties =
+      [`minlength: ${spec.minLength}`, `maxlength: ${spec.maxLength}`];
+
+  let requiredChars = '';
+  spec.requiredCharSets.forEach((charSet) => {
+    requiredChars += charSet.chars;
+    for (let i = 0; i < charSet.count; i++) {
+      properties.push(`required: ${serializeCharacterClasses(charSet.chars)}`);
+    }
+  });
+
+  const allowedChars = removeChars(spec.allowedChars, requiredChars);
+  if (allowedChars.length > 0) {
+    properties.push(`allowed: ${serializeCharacterClasses(allowedChars)}`);
+  }
+
+  return properties.join('; ');
+}
+
+/**
+ * Expresses a set of characters as a comma separated list of character
+ * classes.
+ */
+function serializeCharacterClasses(chars: string): string {
+  let remaining = distinctChars(chars);
+  const classes: string[] = [];
+  Object.keys(NAMED_CLASSES).forEach((name) => {
+    const classChars = NAMED_CLASSES[name];
+    if (removeChars(classChars, remaining).length === 0) {
+      classes.push(name);
+      remaining = removeChars(remaining, classChars);
+    }
+  });
+
+  if (remaining.length > 0) {
+    classes.push(serializeCustomClass(remaining));
+  }
+
+  return classes.join(', ');
+}
+
+/**
+ * In a custom class, a '-' must come first and a ']' must come last.
+ */
+function serializeCustomClass(chars: string): string {
+  let body = sortChars(removeChars(chars, '-]'));
+  if (chars.indexOf('-') !== -1) {
+    body = '-' + body;
+  }
+  if (chars.indexOf(']') !== -1) {
+    body = body + ']';
+  }
+  return `[${body}]`;
+}
+
+/**
+ * Removes the characters found in `removed` from `chars`.
+ */
+function removeChars(chars: string, removed: string): string {
+  let result = '';
+  for (let i = 0; i < chars.length; i++) {
+    if (removed.indexOf(chars.charAt(i)) === -1) {
+      result += chars.charAt(i);
+    }
+  }
+  return result;
+}
+
+function sortChars(chars: string): string {
+  return distinctChars(chars).split('').sort().join('');
+}
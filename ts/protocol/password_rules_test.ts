@@ -0,0 +1,203 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {InternalErrorCode, OpenYoloInternalError} from './errors';
+import {parsePasswordRules, serializePasswordRules} from './password_rules';
+import {CHARACTER_SETS, DEFAULT_PASSWORD_GENERATION_SPEC, PasswordSpecification} from './password_spec';
+
+describe('password rules', () => {
+
+  function sorted(chars: string): string {
+    return chars.split('').sort().join('');
+  }
+
+  const LOWER = sorted(CHARACTER_SETS.LOWER_ALPHA);
+  const UPPER_AND_DIGIT =
+      sorted(CHARACTER_SETS.UPPER_ALPHA + CHARACTER_SETS.NUMERALS);
+  const PRINTABLE =
+      sorted(CHARACTER_SETS.ALPHANUMERIC + CHARACTER_SETS.SYMBOLS);
+
+  describe('parsePasswordRules', () => {
+
+    function expectInvalid(rules: string) {
+      try {
+        parsePasswordRules(rules);
+        fail('The rules should be rejected.');
+      } catch (e) {
+        expect(OpenYoloInternalError.errorIs(
+                   e, InternalErrorCode.invalidPasswordSpecification))
+            .toBe(true);
+      }
+    }
+
+    it('parses lengths, required and allowed classes', () => {
+      expect(parsePasswordRules(
+                 'minlength: 12; maxlength: 16; required: lower; ' +
+                 'required: upper, digit; allowed: [-_]'))
+          .toEqual({
+            minLength: 12,
+            maxLength: 16,
+            requiredCharSets:
+                [{chars: LOWER, count: 1}, {chars: UPPER_AND_DIGIT, count: 1}],
+            allowedChars: sorted(LOWER + UPPER_AND_DIGIT + '-_')
+          });
+    });
+
+    it('is case insensitive and tolerates whitespace', () => {
+      expect(parsePasswordRules(
+                 '  MinLength :8 ;MAXLENGTH:  10;required :Digit , [#] ; '))
+          .toEqual({
+            minLength: 8,
+            maxLength: 10,
+            requiredCharSets:
+                [{chars: sorted(CHARACTER_SETS.NUMERALS + '#'), count: 1}],
+            allowedChars: sorted(CHARACTER_SETS.NUMERALS + '#')
+          });
+    });
+
+    it('increments the count of repeated required classes', () => {
+      const spec = parsePasswordRules(
+          'minlength: 8; required: digit; required: digit; allowed: lower');
+      expect(spec.requiredCharSets).toEqual([
+        {chars: CHARACTER_SETS.NUMERALS.split('').sort().join(''), count: 2}
+      ]);
+    });
+
+    it('defaults to printable characters and the default lengths', () => {
+      expect(parsePasswordRules('')).toEqual({
+        minLength: DEFAULT_PASSWORD_GENERATION_SPEC.minLength,
+        maxLength: DEFAULT_PASSWORD_GENERATION_SPEC.maxLength,
+        requiredCharSets: [],
+        allowedChars: PRINTABLE
+      });
+    });
+
+    it('adjusts the default lengths to the explicit bounds', () => {
+      expect(parsePasswordRules('maxlength: 8').minLength).toEqual(8);
+      expect(parsePasswordRules('minlength: 20').maxLength).toEqual(20);
+    });
+
+    it('uses the most restrictive of repeated length bounds', () => {
+      const spec = parsePasswordRules(
+          'minlength: 6; minlength: 8; maxlength: 20; maxlength: 12');
+      expect(spec.minLength).toEqual(8);
+      expect(spec.maxLength).toEqual(12);
+    });
+
+    it('parses dashes and closing brackets in custom classes', () => {
+      expect(parsePasswordRules('allowed: [-a]]').allowedChars)
+          .toEqual(sorted('-a]'));
+    });
+
+    it('ignores max-consecutive', () => {
+      expect(parsePasswordRules('max-consecutive: 2; allowed: digit'))
+          .toEqual(parsePasswordRules('allowed: digit'));
+    });
+
+    it('rejects an unknown property', () => {
+      expectInvalid('minlen: 8');
+    });
+
+    it('rejects an unknown character class', () => {
+      expectInvalid('required: letters');
+    });
+
+    it('rejects the unicode class', () => {
+      expectInvalid('allowed: unicode');
+    });
+
+    it('rejects an unterminated custom class', () => {
+      expectInvalid('allowed: [abc');
+    });
+
+    it('rejects a missing separator', () => {
+      expectInvalid('minlength 8');
+      expectInvalid('minlength: 8 maxlength: 10');
+    });
+
+    it('rejects a non-integer length', () => {
+      expectInvalid('minlength: eight');
+    });
+
+    it('rejects overlapping required classes', () => {
+      expectInvalid('required: lower; required: lower, digit');
+    });
+
+    it('rejects inverted length bounds', () => {
+      expectInvalid('minlength: 16; maxlength: 12');
+    });
+  });
+
+  describe('serializePasswordRules', () => {
+    it('uses named classes where possible', () => {
+      const spec: PasswordSpecification = {
+        minLength: 6,
+        maxLength: 10,
+        requiredCharSets: [{chars: CHARACTER_SETS.NUMERALS, count: 2}],
+        allowedChars: CHARACTER_SETS.LOWER_ALPHA + CHARACTER_SETS.UPPER_ALPHA +
+            CHARACTER_SETS.NUMERALS + '-_'
+      };
+      expect(serializePasswordRules(spec))
+          .toEqual(
+              'minlength: 6; maxlength: 10; required: digit; ' +
+              'required: digit; allowed: upper, lower, [-_]');
+    });
+
+    it('uses custom classes for the remaining characters', () => {
+      expect(serializePasswordRules(DEFAULT_PASSWORD_GENERATION_SPEC))
+          .toEqual(
+              'minlength: 12; maxlength: 16; ' +
+              'required: [abcdefghijkmnopqrstxyz]; ' +
+              'required: [ABCDEFGHJKLMNPQRSTXY]; required: [3456789]');
+    });
+
+    it('places dashes first and closing brackets last', () => {
+      const spec: PasswordSpecification = {
+        minLength: 4,
+        maxLength: 4,
+        requiredCharSets: [],
+        allowedChars: 'a]b-'
+      };
+      expect(serializePasswordRules(spec))
+          .toEqual('minlength: 4; maxlength: 4; allowed: [-ab]]');
+    });
+
+    it('uses the ascii-printable class for every printable character', () => {
+      expect(serializePasswordRules(parsePasswordRules('')))
+          .toEqual('minlength: 12; maxlength: 16; allowed: ascii-printable');
+    });
+
+    it('produces rules which parse to the same specification', () => {
+      [DEFAULT_PASSWORD_GENERATION_SPEC,
+       parsePasswordRules(
+           'minlength: 8; maxlength: 64; required: upper; required: digit; ' +
+           'required: digit; required: [!#$]; allowed: lower, [-]]')]
+          .forEach((spec) => {
+            const parsed = parsePasswordRules(serializePasswordRules(spec));
+            expect(parsed.minLength).toEqual(spec.minLength);
+            expect(parsed.maxLength).toEqual(spec.maxLength);
+            expect(parsed.requiredCharSets.length)
+                .toEqual(spec.requiredCharSets.length);
+            expect(checkSameChars(parsed.allowedChars, spec.allowedChars))
+                .toBe(true);
+          });
+    });
+
+    function checkSameChars(a: string, b: string): boolean {
+      return sorted(a) === sorted(b);
+    }
+  });
+});
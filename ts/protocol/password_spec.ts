@@ -35,14 +35,14 @@ export interface PasswordSpecification {
    * less than or equal to the minimum length of the password.
    * @type {RequiredCharacterSet}
    */
-  requiredCharSets: RequiredCharacterSet[];
+  requiredCharSets: ReadonlyArray<RequiredCharacterSet>;
 
   /**
    * The set of allowable characters in a password, once the required character
    * set constraints have been satisifed. The string must be composed of
    * ASCII-printable characters only. Duplicate characters are ignored.
    */
-  allowsChars: string;
+  allowedChars: string;
 }
 
 export interface RequiredCharacterSet {
@@ -176,15 +176,17 @@ export const CHARACTER_SETS = Object.freeze({
  * composed of distinguishable alphanumeric characters, between 12 and 16
  * characters long.
  */
-export const DEFAULT_PASSWORD_GENERATION_SPEC = Object.freeze({
-  minLength: 12,
-  maxLength: 16,
-  requiredCharSets: Object.freeze([
-    Object.freeze(
-        {chars: CHARACTER_SETS.LOWER_ALPHA_DISTINGUISHABLE, count: 1}),
-    Object.freeze(
-        {chars: CHARACTER_SETS.UPPER_ALPHA_DISTINGUISHABLE, count: 1}),
-    Object.freeze({chars: CHARACTER_SETS.NUMERALS_DISTINGUISHABLE, count: 1})
-  ]),
-  allowedChars: CHARACTER_SETS.ALPHANUMERIC_DISTINGUISHABLE
-});
+export const DEFAULT_PASSWORD_GENERATION_SPEC: PasswordSpecification =
+    Object.freeze({
+      minLength: 12,
+      maxLength: 16,
+      requiredCharSets: Object.freeze([
+        Object.freeze(
+            {chars: CHARACTER_SETS.LOWER_ALPHA_DISTINGUISHABLE, count: 1}),
+        Object.freeze(
+            {chars: CHARACTER_SETS.UPPER_ALPHA_DISTINGUISHABLE, count: 1}),
+        Object.freeze(
+            {chars: CHARACTER_SETS.NUMERALS_DISTINGUISHABLE, count: 1})
+      ]),
+      allowedChars: CHARACTER_SETS.ALPHANUMERIC_DISTINGUISHABLE
+    });
@@ -16,7 +16,7 @@
 
 import {OpenYoloCredential, OpenYoloCredentialHintOptions, OpenYoloCredentialRequestOptions, OpenYoloProxyLoginResponse} from './data';
 import {OpenYoloError, OpenYoloExposedErrorData} from './errors';
-import {DataValidator, isBoolean, isUndefined, isValidCredential, isValidDisplayOptions, isValidError, isValidHintOptions, isValidProxyLoginResponse, isValidRequestOptions} from './validators';
+import {DataValidator, isBoolean, isNonEmptyString, isUndefined, isValidCredential, isValidDisplayOptions, isValidError, isValidHintOptions, isValidProxyLoginResponse, isValidRequestOptions} from './validators';
 
 export const enum RpcMessageType {
   disableAutoSignIn = 'disableAutoSignIn',
@@ -27,13 +27,18 @@ export const enum RpcMessageType {
   hint = 'hint',
   save = 'save',
   saveResult = 'saveResult',
+  deleteCredential = 'deleteCredential',
+  deleteCredentialResult = 'deleteCredentialResult',
   proxy = 'proxy',
   proxyResult = 'proxyResult',
   showProvider = 'showProvider',
+  dismiss = 'dismiss',
   credential = 'credential',
   error = 'error',
   cancelLastOperation = 'cancelLastOperation',
-  cancelLastOperationResult = 'cancelLastOperationResult'
+  cancelLastOperationResult = 'cancelLastOperationResult',
+  cancelOperation = 'cancelOperation',
+  cancelOperationResult = 'cancelOperationResult'
 }
 
 // Hack to be able to use the list of values of the const enum above.
@@ -46,13 +51,18 @@ export const RPC_MESSAGE_TYPES: RpcMessageType[] = [
   RpcMessageType.hint,
   RpcMessageType.save,
   RpcMessageType.saveResult,
+  RpcMessageType.deleteCredential,
+  RpcMessageType.deleteCredentialResult,
   RpcMessageType.proxy,
   RpcMessageType.proxyResult,
   RpcMessageType.showProvider,
+  RpcMessageType.dismiss,
   RpcMessageType.credential,
   RpcMessageType.error,
   RpcMessageType.cancelLastOperation,
-  RpcMessageType.cancelLastOperationResult
+  RpcMessageType.cancelLastOperationResult,
+  RpcMessageType.cancelOperation,
+  RpcMessageType.cancelOperationResult
 ];
 
 export type RpcMessageArgumentTypes = {
@@ -64,13 +74,19 @@ export type RpcMessageArgumentTypes = {
   'hint': OpenYoloCredentialHintOptions,
   'save': OpenYoloCredential,
   'saveResult': boolean,
+  'deleteCredential': OpenYoloCredential,
+  'deleteCredentialResult': boolean,
   'proxy': OpenYoloCredential,
   'proxyResult': OpenYoloProxyLoginResponse,
   'showProvider': DisplayOptions,
+  'dismiss': undefined,
   'credential': OpenYoloCredential,
   'error': OpenYoloExposedErrorData,
   'cancelLastOperation': undefined,
-  'cancelLastOperationResult': undefined
+  'cancelLastOperationResult': undefined,
+  // the ID of the request to cancel.
+  'cancelOperation': string,
+  'cancelOperationResult': undefined
 };
 
 export interface RpcMessageData<T extends RpcMessageType> {
@@ -106,13 +122,18 @@ export const RPC_MESSAGE_DATA_VALIDATORS: RpcMessageDataValidators = {
   'hint': rpcDataValidator(isValidHintOptions),
   'save': rpcDataValidator(isValidCredential),
   'saveResult': rpcDataValidator(isBoolean),
+  'deleteCredential': rpcDataValidator(isValidCredential),
+  'deleteCredentialResult': rpcDataValidator(isBoolean),
   'proxy': rpcDataValidator(isValidCredential),
   'proxyResult': rpcDataValidator(isValidProxyLoginResponse),
   'showProvider': rpcDataValidator(isValidDisplayOptions),
+  'dismiss': rpcDataValidator(isUndefined),
   'credential': rpcDataValidator(isValidCredential),
   'error': rpcDataValidator(isValidError),
   'cancelLastOperation': rpcDataValidator(isUndefined),
-  'cancelLastOperationResult': rpcDataValidator(isUndefined)
+  'cancelLastOperationResult': rpcDataValidator(isUndefined),
+  'cancelOperation': rpcDataValidator(isNonEmptyString),
+  'cancelOperationResult': rpcDataValidator(isUndefined)
 };
 
 export interface DisplayOptions {
@@ -174,6 +195,10 @@ export function showProviderMessage(id: string, options: DisplayOptions) {
   return rpcMessage(RpcMessageType.showProvider, id, options);
 }
 
+export function dismissMessage(id: string) {
+  return rpcMessage(RpcMessageType.dismiss, id, undefined);
+}
+
 export function saveMessage(id: string, credential: OpenYoloCredential) {
   return rpcMessage(RpcMessageType.save, id, credential);
 }
@@ -182,6 +207,15 @@ export function saveResultMessage(id: string, saved: boolean) {
   return rpcMessage(RpcMessageType.saveResult, id, saved);
 }
 
+export function deleteCredentialMessage(
+    id: string, credential: OpenYoloCredential) {
+  return rpcMessage(RpcMessageType.deleteCredential, id, credential);
+}
+
+export function deleteCredentialResultMessage(id: string, deleted: boolean) {
+  return rpcMessage(RpcMessageType.deleteCredentialResult, id, deleted);
+}
+
 export function errorMessage(id: string, error: OpenYoloError) {
   return rpcMessage(RpcMessageType.error, id, error.toData());
 }
@@ -193,3 +227,11 @@ export function cancelLastOperationMessage(id: string) {
 export function cancelLastOperationResultMessage(id: string) {
   return rpcMessage(RpcMessageType.cancelLastOperationResult, id, undefined);
 }
+
+export function cancelOperationMessage(id: string, requestId: string) {
+  return rpcMessage(RpcMessageType.cancelOperation, id, requestId);
+}
+
+export function cancelOperationResultMessage(id: string) {
+  return rpcMessage(RpcMessageType.cancelOperationResult, id, undefined);
+}
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import {createMessageListener, FilteringEventListener, isPermittedOrigin, RpcMessageListener, WindowLike} from './comms';
+import {createMessageListener, FilteringEventListener, getClientWindow, isPermittedOrigin, RpcMessageListener, WindowLike} from './comms';
 import {OpenYoloError, OpenYoloInternalError} from './errors';
 import {ackMessage, channelConnectMessage, channelReadyMessage, PostMessageType, readyForConnectMessage} from './post_messages';
 import {RpcMessage, RpcMessageData, RpcMessageType} from './rpc_messages';
@@ -151,8 +151,8 @@ export class SecureChannel {
           }
 
           port = ev.ports[0] as MessagePort;
-          providerWindow.parent.postMessage(
-              channelReadyMessage(connectionNonce), ev.origin);
+          getClientWindow(providerWindow)
+              .postMessage(channelReadyMessage(connectionNonce), ev.origin);
           promiseResolver.resolve(new SecureChannel(port));
         });
 
@@ -168,8 +168,8 @@ export class SecureChannel {
         });
 
     // send the 'ready to connect' message to the client.
-    providerWindow.parent.postMessage(
-        readyForConnectMessage(connectionNonce), '*');
+    getClientWindow(providerWindow)
+        .postMessage(readyForConnectMessage(connectionNonce), '*');
 
     return promiseResolver.promise;
   }
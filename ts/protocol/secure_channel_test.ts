@@ -229,6 +229,27 @@ describe('SecureChannel', () => {
       }
     });
 
+    it('notifies the opener when in a popup', async function(done) {
+      let popupWindow = new MockWindow(undefined, clientWindow);
+      spyOn(clientWindow, 'postMessage');
+      let promise =
+          SecureChannel.providerConnect(popupWindow, permittedOrigins, hashId);
+      expect(clientWindow.postMessage)
+          .toHaveBeenCalledWith(readyForConnectMessage(hashId), '*');
+
+      popupWindow.postMessageFromOrigin(
+          channelConnectMessage(id), [port], origin, clientWindow);
+
+      try {
+        await promise;
+        expect(clientWindow.postMessage)
+            .toHaveBeenCalledWith(channelReadyMessage(hashId), origin);
+        done();
+      } catch (err) {
+        done.fail('Promise should resolve');
+      }
+    });
+
     it('rejects if invalid origin', async function(done) {
       let evilOrigin = 'https://evil.example.com';
       let connectPromise = SecureChannel.providerConnect(
@@ -14,6 +14,8 @@
  * limitations under the License.
  */
 
+import {RequestContext} from './data';
+import {findPasswordSpecificationErrors} from './password_checker';
 import {getPath, isHierarchical, parseUri} from './uri';
 
 export type DataValidator = (data?: any) => boolean;
@@ -117,7 +119,95 @@ export function isValidRequestOptions(value: any): boolean {
 }
 
 export function isValidHintOptions(value: any): boolean {
-  // TODO: implement
+  if (!isObject(value)) {
+    return false;
+  }
+
+  if (!Array.isArray(value['supportedAuthMethods']) ||
+      !value['supportedAuthMethods'].every(isNonEmptyString)) {
+    return false;
+  }
+
+  if (!isUndefined(value['supportedIdTokenProviders']) &&
+      (!Array.isArray(value['supportedIdTokenProviders']) ||
+       !value['supportedIdTokenProviders'].every(isValidTokenProvider))) {
+    return false;
+  }
+
+  if (!isUndefined(value['context']) &&
+      !isValidRequestContext(value['context'])) {
+    return false;
+  }
+
+  if ('passwordSpec' in value && !isUndefined(value['passwordSpec']) &&
+      !isValidPasswordSpecification(value['passwordSpec'])) {
+    return false;
+  }
+
+  return true;
+}
+
+export function isValidTokenProvider(value: any): boolean {
+  if (!isObject(value) || !isNonEmptyString(value['uri'])) {
+    return false;
+  }
+
+  if (!isUndefined(value['clientId']) && !isNonEmptyString(value['clientId'])) {
+    return false;
+  }
+
+  if (!isUndefined(value['nonce']) && !isNonEmptyString(value['nonce'])) {
+    return false;
+  }
+
+  return true;
+}
+
+export function isValidRequestContext(value: any): boolean {
+  return value === RequestContext.signIn || value === RequestContext.signUp ||
+      value === RequestContext.continue || value === RequestContext.use;
+}
+
+/**
+ * Checks that the provided value satisfies every rule of the
+ * `PasswordSpecification` definition.
+ */
+export function isValidPasswordSpecification(value: any): boolean {
+  return findPasswordSpecificationErrors(value).length === 0;
+}
+
+/**
+ * Checks that the provided value is a well-formed client configuration, as
+ * found in the `.well-known/openyolo.json` file of a client. Unknown
+ * properties are ignored.
+ */
+export function isValidClientConfiguration(value: any): boolean {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  if (value['type'] === 'reference') {
+    return isSchemeAndAuthorityOnlyUrl(value['domain']);
+  }
+
+  if (value['type'] !== 'primary') {
+    return false;
+  }
+
+  const booleanProperties =
+      ['apiEnabled', 'requireProxyLogin', 'allowNestedFrameRequests'];
+  for (let i = 0; i < booleanProperties.length; i++) {
+    if (booleanProperties[i] in value &&
+        !isBoolean(value[booleanProperties[i]])) {
+      return false;
+    }
+  }
+
+  if ('authenticationEndpoint' in value &&
+      !isWebUrl(value['authenticationEndpoint'])) {
+    return false;
+  }
+
   return true;
 }
 
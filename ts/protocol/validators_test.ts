@@ -15,6 +15,7 @@
  */
 
 import {AUTHENTICATION_METHODS} from '../protocol/data';
+import {DEFAULT_PASSWORD_GENERATION_SPEC} from '../protocol/password_spec';
 import * as v from './validators';
 
 const ALICE = 'alice@gmail.com';
@@ -244,5 +245,185 @@ describe('validators', () => {
         {id: ALICE, authMethod: GOOGLE, proxiedAuthRequired: false},
         true,
         'proxied auth true'
-      ], );
+      ],
+  );
+
+  const VALID_SPEC = {
+    minLength: 8,
+    maxLength: 16,
+    requiredCharSets: [{chars: 'abc', count: 2}, {chars: '123', count: 1}],
+    allowedChars: 'abcdef123456'
+  };
+
+  validatorSuite(
+      'isValidPasswordSpecification',
+      v.isValidPasswordSpecification,
+      [undefined, false],
+      [null, false],
+      ['', false],
+      [{}, false],
+      [VALID_SPEC, true, 'valid specification'],
+      [DEFAULT_PASSWORD_GENERATION_SPEC, true, 'default specification'],
+      [{...VALID_SPEC, minLength: -1}, false, 'negative minimum length'],
+      [{...VALID_SPEC, maxLength: 8.5}, false, 'non-integer maximum length'],
+      [
+        {...VALID_SPEC, minLength: 17},
+        false,
+        'minimum length above maximum length'
+      ],
+      [
+        {...VALID_SPEC, minLength: 0, maxLength: 0, requiredCharSets: []},
+        false,
+        'zero maximum length'
+      ],
+      [
+        {
+          minLength: 8,
+          maxLength: 16,
+          requiredCharSets: [],
+          allowsChars: 'abcdef'
+        },
+        false,
+        'misspelled allowedChars field'
+      ],
+      [
+        {...VALID_SPEC, allowedChars: 'abc\u00e9'},
+        false,
+        'non-ASCII allowed character'
+      ],
+      [
+        {...VALID_SPEC, allowedChars: 'abc\n'},
+        false,
+        'non-printable allowed character'
+      ],
+      [
+        {...VALID_SPEC, requiredCharSets: undefined},
+        false,
+        'missing required character sets'
+      ],
+      [
+        {...VALID_SPEC, requiredCharSets: [{chars: 'a\t', count: 1}]},
+        false,
+        'non-printable required character'
+      ],
+      [
+        {...VALID_SPEC, requiredCharSets: [{chars: 'abc', count: -1}]},
+        false,
+        'negative required count'
+      ],
+      [
+        {...VALID_SPEC, requiredCharSets: [{chars: '', count: 1}]},
+        false,
+        'empty required character set'
+      ],
+      [
+        {
+          ...VALID_SPEC,
+          requiredCharSets:
+              [{chars: 'abc', count: 1}, {chars: 'c12', count: 1}]
+        },
+        false,
+        'overlapping required character sets'
+      ],
+      [
+        {...VALID_SPEC, requiredCharSets: [{chars: 'abc', count: 9}]},
+        false,
+        'required count above the minimum length'
+      ],
+      [
+        {...VALID_SPEC, requiredCharSets: [{chars: 'aab', count: 1}]},
+        true,
+        'duplicate characters within a set'
+      ]);
+
+  validatorSuite(
+      'isValidHintOptions',
+      v.isValidHintOptions,
+      [undefined, false],
+      [null, false],
+      [{supportedAuthMethods: [PASSWORD]}, true, 'no password specification'],
+      [
+        {supportedAuthMethods: [PASSWORD], passwordSpec: VALID_SPEC},
+        true,
+        'valid password specification'
+      ],
+      [
+        {supportedAuthMethods: [PASSWORD], passwordSpec: {minLength: 8}},
+        false,
+        'invalid password specification'
+      ],
+      [{}, false, 'missing authentication methods'],
+      [{supportedAuthMethods: PASSWORD}, false, 'non-array methods'],
+      [{supportedAuthMethods: [PASSWORD, '']}, false, 'empty method'],
+      [
+        {
+          supportedAuthMethods: [PASSWORD],
+          supportedIdTokenProviders: [
+            {uri: 'https://accounts.google.com', clientId: 'id', nonce: 'n'}
+          ],
+          context: 'signUp'
+        },
+        true,
+        'valid token providers and context'
+      ],
+      [
+        {supportedAuthMethods: [PASSWORD], supportedIdTokenProviders: [{}]},
+        false,
+        'token provider without URI'
+      ],
+      [
+        {
+          supportedAuthMethods: [PASSWORD],
+          supportedIdTokenProviders: [{uri: 'https://a.com', nonce: 1}]
+        },
+        false,
+        'non-string nonce'
+      ],
+      [
+        {supportedAuthMethods: [PASSWORD], context: 'unknown'},
+        false,
+        'unknown context'
+      ]);
+
+  validatorSuite(
+      'isValidClientConfiguration',
+      v.isValidClientConfiguration,
+      [undefined, false],
+      [null, false],
+      ['', false],
+      [{}, false, 'missing type'],
+      [{type: 'unknown'}, false, 'unknown type'],
+      [{type: 'primary'}, true, 'minimal primary configuration'],
+      [
+        {
+          type: 'primary',
+          apiEnabled: true,
+          requireProxyLogin: false,
+          allowNestedFrameRequests: true,
+          authenticationEndpoint: 'https://www.example.com/login'
+        },
+        true,
+        'complete primary configuration'
+      ],
+      [
+        {type: 'primary', apiEnabled: 'true'},
+        false,
+        'non-boolean apiEnabled field'
+      ],
+      [
+        {type: 'primary', authenticationEndpoint: '/login'},
+        false,
+        'relative authentication endpoint'
+      ],
+      [
+        {type: 'reference', domain: 'https://www.example.com'},
+        true,
+        'reference configuration'
+      ],
+      [{type: 'reference'}, false, 'reference without a domain'],
+      [
+        {type: 'reference', domain: 'https://www.example.com/path'},
+        false,
+        'reference to a domain with a path'
+      ]);
 });
@@ -0,0 +1,340 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {isObject, isSchemeAndAuthorityOnlyUrl, isWebUrl} from '../protocol/validators';
+
+import {fetchPublicResource} from './fetch_http_transport';
+import {AffiliationProvider, HttpResponse} from './provider_config';
+
+/**
+ * The path of the asset links statements, relative to a web domain.
+ */
+export const ASSET_LINKS_PATH = '/.well-known/assetlinks.json';
+
+/**
+ * The relation which must hold between two domains for them to share
+ * credentials.
+ */
+export const GET_LOGIN_CREDS_RELATION =
+    'delegate_permission/common.get_login_creds';
+
+/**
+ * Fetches the resource at the provided URL with a GET request.
+ */
+export type AssetLinksFetcher = (url: string) => Promise<HttpResponse>;
+
+/**
+ * Returns the asset statements declared by an Android application, in the
+ * `assetlinks.json` format, as they cannot be fetched from a web domain.
+ */
+export type AndroidAppStatementsFetcher =
+    (packageName: string, sha256CertFingerprint: string) => Promise<any>;
+
+export interface AssetLinksAffiliationOptions {
+  /**
+   * Fetches the statements of web domains. Defaults to an implementation
+   * based on `window.fetch`.
+   */
+  fetcher?: AssetLinksFetcher;
+
+  /**
+   * Fetches the statements of Android applications. Without it, the
+   * relations to Android applications cannot be verified in both directions,
+   * and such applications are never considered equivalent.
+   */
+  androidAppStatementsFetcher?: AndroidAppStatementsFetcher;
+
+  /**
+   * The maximum number of statement files read for a single source,
+   * including the ones reached through include statements. Default: 10.
+   */
+  maxIncludes?: number;
+
+  /**
+   * The maximum number of domains in an equivalence class. Default: 20.
+   */
+  maxDomains?: number;
+
+  /**
+   * The duration, in milliseconds, for which an equivalence class is cached.
+   * Default: 1 hour.
+   */
+  cacheTtlMs?: number;
+}
+
+const DEFAULT_MAX_INCLUDES = 10;
+const DEFAULT_MAX_DOMAINS = 20;
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
+
+interface CacheEntry {
+  domains: string[];
+  expiresAt: number;
+}
+
+/**
+ * Affiliation provider based on Digital Asset Links. Two domains are
+ * equivalent if each declares the `get_login_creds` relation to the other.
+ * Web domains declare their statements in `/.well-known/assetlinks.json`,
+ * and Android applications are represented by authentication domains of the
+ * form `android://<certificate hash>@<package name>`.
+ *
+ * Equivalence is transitive: the statements of the equivalent web domains
+ * are followed in turn, up to the maximum number of domains. The resulting
+ * equivalence class is cached for each of its web domains.
+ */
+export class AssetLinksAffiliationProvider implements AffiliationProvider {
+  private fetcher: AssetLinksFetcher;
+  private androidAppStatementsFetcher: AndroidAppStatementsFetcher|null;
+  private maxIncludes: number;
+  private maxDomains: number;
+  private cacheTtlMs: number;
+  private cache: {[authDomain: string]: CacheEntry} = {};
+
+  constructor(options: AssetLinksAffiliationOptions = {}) {
+    this.fetcher = options.fetcher || fetchPublicResource;
+    this.androidAppStatementsFetcher =
+        options.androidAppStatementsFetcher || null;
+    this.maxIncludes = options.maxIncludes === undefined ?
+        DEFAULT_MAX_INCLUDES :
+        options.maxIncludes;
+    this.maxDomains = options.maxDomains === undefined ? DEFAULT_MAX_DOMAINS :
+                                                         options.maxDomains;
+    this.cacheTtlMs = options.cacheTtlMs === undefined ? DEFAULT_CACHE_TTL_MS :
+                                                         options.cacheTtlMs;
+  }
+
+  async getEquivalentDomains(authDomain: string): Promise<string[]> {
+    const cached = this.cache[authDomain];
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.domains.slice();
+    }
+
+    const domains = await this.computeEquivalenceClass(authDomain);
+    const entry = {domains, expiresAt: Date.now() + this.cacheTtlMs};
+    domains.filter(isWebDomain).forEach((domain) => {
+      this.cache[domain] = entry;
+    });
+    // the requested domain is always cached, even if it is not a web domain.
+    this.cache[authDomain] = entry;
+    return domains.slice();
+  }
+
+  /**
+   * Explores the domains reachable through bidirectional relations from the
+   * provided domain.
+   */
+  private async computeEquivalenceClass(authDomain: string): Promise<string[]> {
+    const domains = [authDomain];
+    if (!isWebDomain(authDomain)) {
+      return domains;
+    }
+
+    // the statements of each source are only read once per computation.
+    const statements: {[source: string]: Promise<string[]>} = {};
+    const getTargets = (source: string) => {
+      if (!(source in statements)) {
+        statements[source] = this.readTargets(source);
+      }
+      return statements[source];
+    };
+
+    for (let i = 0; i < domains.length && domains.length < this.maxDomains;
+         i++) {
+      // Android applications do not declare further web domains to explore.
+      if (!isWebDomain(domains[i])) {
+        continue;
+      }
+
+      const targets = await getTargets(domains[i]);
+      for (let j = 0; j < targets.length; j++) {
+        const target = targets[j];
+        if (domains.indexOf(target) !== -1 ||
+            domains.length >= this.maxDomains) {
+          continue;
+        }
+
+        const reverseTargets = await getTargets(target);
+        if (reverseTargets.indexOf(domains[i]) !== -1) {
+          domains.push(target);
+        }
+      }
+    }
+
+    return domains;
+  }
+
+  /**
+   * Reads the domains targeted by the `get_login_creds` relation in the
+   * statements of the provided source domain. Failures to read the
+   * statements are treated as the absence of statements.
+   */
+  private async readTargets(source: string): Promise<string[]> {
+    let statements: any[];
+    if (isWebDomain(source)) {
+      statements = await this.readWebStatements(source + ASSET_LINKS_PATH);
+    } else {
+      statements = await this.readAndroidAppStatements(source);
+    }
+
+    const targets: string[] = [];
+    statements.forEach((statement) => {
+      if (!isObject(statement) || !Array.isArray(statement['relation']) ||
+          statement['relation'].indexOf(GET_LOGIN_CREDS_RELATION) === -1) {
+        return;
+      }
+
+      targetToDomains(statement['target']).forEach((domain) => {
+        if (targets.indexOf(domain) === -1) {
+          targets.push(domain);
+        }
+      });
+    });
+    return targets;
+  }
+
+  /**
+   * Reads the statements found at the provided URL, and those of the files
+   * it includes, breadth first.
+   */
+  private async readWebStatements(url: string): Promise<any[]> {
+    const urls = [url];
+    const statements: any[] = [];
+    for (let i = 0; i < urls.length && i < this.maxIncludes; i++) {
+      const fileStatements = await this.fetchStatements(urls[i]);
+      fileStatements.forEach((statement) => {
+        if (isObject(statement) && 'include' in statement) {
+          const include = statement['include'];
+          if (isWebUrl(include) && urls.indexOf(include) === -1) {
+            urls.push(include);
+          }
+        } else {
+          statements.push(statement);
+        }
+      });
+    }
+    return statements;
+  }
+
+  private async fetchStatements(url: string): Promise<any[]> {
+    try {
+      const response = await this.fetcher(url);
+      if (response.statusCode !== 200) {
+        return [];
+      }
+      const statements = JSON.parse(response.responseText);
+      return Array.isArray(statements) ? statements : [];
+    } catch (err) {
+      // network failure, or malformed JSON.
+      return [];
+    }
+  }
+
+  private async readAndroidAppStatements(facet: string): Promise<any[]> {
+    const app = parseAndroidFacet(facet);
+    if (!app || !this.androidAppStatementsFetcher) {
+      return [];
+    }
+
+    try {
+      const statements = await this.androidAppStatementsFetcher(
+          app.packageName, app.sha256CertFingerprint);
+      return Array.isArray(statements) ? statements : [];
+    } catch (err) {
+      return [];
+    }
+  }
+}
+
+/**
+ * Converts the target of a statement to the authentication domains it
+ * designates. Android applications designate one domain per certificate.
+ */
+function targetToDomains(target: any): string[] {
+  if (!isObject(target)) {
+    return [];
+  }
+
+  if (target['namespace'] === 'web') {
+    const site = typeof target['site'] === 'string' ?
+        target['site'].replace(/\/$/, '') :
+        null;
+    return site && isWebDomain(site) ? [site] : [];
+  }
+
+  if (target['namespace'] === 'android_app' &&
+      typeof target['package_name'] === 'string' &&
+      Array.isArray(target['sha256_cert_fingerprints'])) {
+    const fingerprints: any[] = target['sha256_cert_fingerprints'];
+    return fingerprints.filter(isSha256Fingerprint)
+        .map(
+            (fingerprint) => androidFacet(target['package_name'], fingerprint));
+  }
+
+  return [];
+}
+
+const SHA256_FINGERPRINT_REGEX = /^([0-9A-Fa-f]{2}:){31}[0-9A-Fa-f]{2}$/;
+
+function isSha256Fingerprint(value: any): boolean {
+  return typeof value === 'string' && SHA256_FINGERPRINT_REGEX.test(value);
+}
+
+/**
+ * Builds the authentication domain of an Android application. The
+ * certificate hash is the URL-safe base64 encoding, with padding, of the
+ * SHA-256 fingerprint of the signing certificate.
+ */
+export function androidFacet(
+    packageName: string, sha256CertFingerprint: string): string {
+  const bytes = sha256CertFingerprint.split(':').map(
+      (hex) => String.fromCharCode(parseInt(hex, 16)));
+  const hash = btoa(bytes.join('')).replace(/\+/g, '-').replace(/\//g, '_');
+  return `android://${hash}@${packageName}`;
+}
+
+/**
+ * Extracts the package name and certificate fingerprint of the provided
+ * Android application authentication domain.
+ */
+function parseAndroidFacet(facet: string):
+    {packageName: string, sha256CertFingerprint: string}|null {
+  const match = /^android:\/\/([A-Za-z0-9_=-]+)@([A-Za-z0-9_.]+)$/.exec(facet);
+  if (!match) {
+    return null;
+  }
+
+  let bytes: string;
+  try {
+    bytes = atob(match[1].replace(/-/g, '+').replace(/_/g, '/'));
+  } catch (err) {
+    return null;
+  }
+
+  const hex: string[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    hex.push(('0' + bytes.charCodeAt(i).toString(16).toUpperCase()).slice(-2));
+  }
+  const sha256CertFingerprint = hex.join(':');
+  if (!isSha256Fingerprint(sha256CertFingerprint)) {
+    return null;
+  }
+
+  return {packageName: match[2], sha256CertFingerprint};
+}
+
+function isWebDomain(domain: string): boolean {
+  return isSchemeAndAuthorityOnlyUrl(domain) && isWebUrl(domain);
+}
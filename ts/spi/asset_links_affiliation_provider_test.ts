@@ -0,0 +1,221 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {androidFacet, AssetLinksAffiliationProvider, GET_LOGIN_CREDS_RELATION} from './asset_links_affiliation_provider';
+import {HttpResponse} from './provider_config';
+
+describe('AssetLinksAffiliationProvider', () => {
+  const SITE_A = 'https://a.example.com';
+  const SITE_B = 'https://b.example.com';
+  const SITE_C = 'https://c.example.com';
+  const PACKAGE = 'com.example.app';
+  const FINGERPRINT = new Array(32).fill('FB').join(':');
+  const APP_FACET =
+      `android://-_v7-_v7-_v7-_v7-_v7-_v7-_v7-_v7-_v7-_v7-_s=@${PACKAGE}`;
+
+  let files: {[url: string]: HttpResponse};
+  let fetcher: jasmine.Spy;
+  let provider: AssetLinksAffiliationProvider;
+
+  function webTarget(site: string) {
+    return {namespace: 'web', site};
+  }
+
+  function appTarget() {
+    return {
+      namespace: 'android_app',
+      package_name: PACKAGE,
+      sha256_cert_fingerprints: [FINGERPRINT]
+    };
+  }
+
+  function loginCreds(target: any) {
+    return {relation: [GET_LOGIN_CREDS_RELATION], target};
+  }
+
+  function serve(url: string, statements: any[]) {
+    files[url] = {statusCode: 200, responseText: JSON.stringify(statements)};
+  }
+
+  function serveSite(site: string, statements: any[]) {
+    serve(`${site}/.well-known/assetlinks.json`, statements);
+  }
+
+  beforeEach(() => {
+    files = {};
+    fetcher = jasmine.createSpy('fetcher').and.callFake((url: string) => {
+      return Promise.resolve(files[url] || {statusCode: 404, responseText: ''});
+    });
+    provider = new AssetLinksAffiliationProvider({fetcher, cacheTtlMs: 1000});
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2017, 0, 1));
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('returns the domain alone without statements', async function(done) {
+    expect(await provider.getEquivalentDomains(SITE_A)).toEqual([SITE_A]);
+    done();
+  });
+
+  it('returns the domains related in both directions', async function(done) {
+    serveSite(SITE_A, [loginCreds(webTarget(SITE_B))]);
+    serveSite(SITE_B, [loginCreds(webTarget(SITE_A + '/'))]);
+    expect(await provider.getEquivalentDomains(SITE_A))
+        .toEqual([SITE_A, SITE_B]);
+    done();
+  });
+
+  it('ignores relations in a single direction', async function(done) {
+    serveSite(SITE_A, [loginCreds(webTarget(SITE_B))]);
+    serveSite(SITE_B, []);
+    expect(await provider.getEquivalentDomains(SITE_A)).toEqual([SITE_A]);
+    done();
+  });
+
+  it('ignores other relations', async function(done) {
+    serveSite(SITE_A, [{
+                relation: ['delegate_permission/common.handle_all_urls'],
+                target: webTarget(SITE_B)
+              }]);
+    serveSite(SITE_B, [loginCreds(webTarget(SITE_A))]);
+    expect(await provider.getEquivalentDomains(SITE_A)).toEqual([SITE_A]);
+    done();
+  });
+
+  it('ignores malformed statement files', async function(done) {
+    files[`${SITE_A}/.well-known/assetlinks.json`] = {
+      statusCode: 200,
+      responseText: '[{"relation": '
+    };
+    fetcher.and.callFake((url: string) => {
+      return url.startsWith(SITE_B) ?
+          Promise.reject(new Error('network failure')) :
+          Promise.resolve(files[url]);
+    });
+    expect(await provider.getEquivalentDomains(SITE_A)).toEqual([SITE_A]);
+    done();
+  });
+
+  it('follows include statements', async function(done) {
+    const includedUrl = 'https://static.example.com/links.json';
+    serveSite(SITE_A, [{include: includedUrl}]);
+    serve(includedUrl, [
+      loginCreds(webTarget(SITE_B)),
+      {include: `${SITE_A}/.well-known/assetlinks.json`}
+    ]);
+    serveSite(SITE_B, [loginCreds(webTarget(SITE_A))]);
+    expect(await provider.getEquivalentDomains(SITE_A))
+        .toEqual([SITE_A, SITE_B]);
+    expect(fetcher.calls.allArgs()).toEqual([
+      [`${SITE_A}/.well-known/assetlinks.json`],
+      [includedUrl],
+      [`${SITE_B}/.well-known/assetlinks.json`]
+    ]);
+    done();
+  });
+
+  it('follows relations transitively', async function(done) {
+    serveSite(SITE_A, [loginCreds(webTarget(SITE_B))]);
+    serveSite(
+        SITE_B, [loginCreds(webTarget(SITE_A)), loginCreds(webTarget(SITE_C))]);
+    serveSite(SITE_C, [loginCreds(webTarget(SITE_B))]);
+    expect(await provider.getEquivalentDomains(SITE_A))
+        .toEqual([SITE_A, SITE_B, SITE_C]);
+    done();
+  });
+
+  it('limits the size of the equivalence class', async function(done) {
+    provider = new AssetLinksAffiliationProvider({fetcher, maxDomains: 2});
+    serveSite(
+        SITE_A, [loginCreds(webTarget(SITE_B)), loginCreds(webTarget(SITE_C))]);
+    serveSite(SITE_B, [loginCreds(webTarget(SITE_A))]);
+    serveSite(SITE_C, [loginCreds(webTarget(SITE_A))]);
+    expect(await provider.getEquivalentDomains(SITE_A))
+        .toEqual([SITE_A, SITE_B]);
+    done();
+  });
+
+  describe('android applications', () => {
+    it('builds the authentication domain of an application', () => {
+      expect(androidFacet(PACKAGE, FINGERPRINT)).toEqual(APP_FACET);
+    });
+
+    it('ignores applications without a statements fetcher',
+       async function(done) {
+         serveSite(SITE_A, [loginCreds(appTarget())]);
+         expect(await provider.getEquivalentDomains(SITE_A)).toEqual([SITE_A]);
+         done();
+       });
+
+    it('returns applications related in both directions', async function(done) {
+      const androidAppStatementsFetcher =
+          jasmine.createSpy('androidAppStatementsFetcher')
+              .and.returnValue(
+                  Promise.resolve([loginCreds(webTarget(SITE_A))]));
+      provider = new AssetLinksAffiliationProvider(
+          {fetcher, androidAppStatementsFetcher});
+      serveSite(SITE_A, [loginCreds(appTarget())]);
+      expect(await provider.getEquivalentDomains(SITE_A))
+          .toEqual([SITE_A, APP_FACET]);
+      expect(androidAppStatementsFetcher)
+          .toHaveBeenCalledWith(PACKAGE, FINGERPRINT);
+      done();
+    });
+
+    it('ignores applications related in a single direction',
+       async function(done) {
+         provider = new AssetLinksAffiliationProvider(
+             {fetcher, androidAppStatementsFetcher: () => Promise.resolve([])});
+         serveSite(SITE_A, [loginCreds(appTarget())]);
+         expect(await provider.getEquivalentDomains(SITE_A)).toEqual([SITE_A]);
+         done();
+       });
+  });
+
+  describe('caching', () => {
+    beforeEach(() => {
+      serveSite(SITE_A, [loginCreds(webTarget(SITE_B))]);
+      serveSite(SITE_B, [loginCreds(webTarget(SITE_A))]);
+    });
+
+    it('caches the equivalence class until it expires', async function(done) {
+      await provider.getEquivalentDomains(SITE_A);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+
+      jasmine.clock().tick(999);
+      expect(await provider.getEquivalentDomains(SITE_A))
+          .toEqual([SITE_A, SITE_B]);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+
+      jasmine.clock().tick(1);
+      await provider.getEquivalentDomains(SITE_A);
+      expect(fetcher).toHaveBeenCalledTimes(4);
+      done();
+    });
+
+    it('caches the equivalence class for each of its domains',
+       async function(done) {
+         await provider.getEquivalentDomains(SITE_A);
+         expect(await provider.getEquivalentDomains(SITE_B))
+             .toEqual([SITE_A, SITE_B]);
+         expect(fetcher).toHaveBeenCalledTimes(2);
+         done();
+       });
+  });
+});
@@ -0,0 +1,39 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {HttpResponse, HttpTransport} from './provider_config';
+
+/**
+ * Default HTTP transport, relying on `window.fetch`.
+ */
+export class FetchHttpTransport implements HttpTransport {
+  async post(url: string, body: string, headers: {[name: string]: string}):
+      Promise<HttpResponse> {
+    const response = await fetch(url, {method: 'POST', headers, body});
+    const responseText = await response.text();
+    return {statusCode: response.status, responseText};
+  }
+}
+
+/**
+ * Fetches a public resource with a GET request, relying on `window.fetch`.
+ * Credentials are never sent.
+ */
+export async function fetchPublicResource(url: string): Promise<HttpResponse> {
+  const response = await fetch(url, {method: 'GET', credentials: 'omit'});
+  const responseText = await response.text();
+  return {statusCode: response.status, responseText};
+}
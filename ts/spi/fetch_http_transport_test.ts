@@ -0,0 +1,69 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {FetchHttpTransport, fetchPublicResource} from './fetch_http_transport';
+
+describe('FetchHttpTransport', () => {
+  const url = 'https://www.example.com/login';
+  const headers = {'Content-Type': 'application/x-www-form-urlencoded'};
+  let transport: FetchHttpTransport;
+
+  beforeEach(() => {
+    transport = new FetchHttpTransport();
+  });
+
+  it('posts the body and returns the response', async function(done) {
+    const response = jasmine.createSpyObj('Response', ['text']);
+    response.status = 401;
+    response.text.and.returnValue(Promise.resolve('Unauthorized'));
+    spyOn(window, 'fetch').and.returnValue(Promise.resolve(response));
+
+    const result = await transport.post(url, 'a=b', headers);
+    expect(window.fetch)
+        .toHaveBeenCalledWith(url, {method: 'POST', headers, body: 'a=b'});
+    expect(result).toEqual({statusCode: 401, responseText: 'Unauthorized'});
+    done();
+  });
+
+  it('rejects on network failure', async function(done) {
+    const expectedError = new TypeError('Failed to fetch');
+    spyOn(window, 'fetch').and.returnValue(Promise.reject(expectedError));
+
+    try {
+      await transport.post(url, 'a=b', headers);
+      done.fail('Should not resolve!');
+    } catch (e) {
+      expect(e).toBe(expectedError);
+      done();
+    }
+  });
+});
+
+describe('fetchPublicResource', () => {
+  it('gets the resource without credentials', async function(done) {
+    const url = 'https://www.example.com/.well-known/assetlinks.json';
+    const response = jasmine.createSpyObj('Response', ['text']);
+    response.status = 200;
+    response.text.and.returnValue(Promise.resolve('[]'));
+    spyOn(window, 'fetch').and.returnValue(Promise.resolve(response));
+
+    const result = await fetchPublicResource(url);
+    expect(window.fetch)
+        .toHaveBeenCalledWith(url, {method: 'GET', credentials: 'omit'});
+    expect(result).toEqual({statusCode: 200, responseText: '[]'});
+    done();
+  });
+});
@@ -52,6 +52,52 @@ export interface ProviderConfiguration {
    * plain-text secrets to the client, is permitted by this provider.
    */
   allowDirectAuth: boolean;
+
+  /**
+   * The transport used to dispatch proxied logins to the client's
+   * authentication endpoint. Defaults to an implementation based on
+   * `window.fetch`.
+   */
+  httpTransport?: HttpTransport;
+
+  /**
+   * How requests received while another one is in progress are handled.
+   * Defaults to rejecting them with an `illegalConcurrentRequest` error.
+   */
+  requestQueueingPolicy?: RequestQueueingPolicy;
+}
+
+/**
+ * The ways the provider frame can handle a request received while another
+ * one is in progress.
+ */
+export const enum RequestQueueingMode {
+  /**
+   * The request is rejected with an `illegalConcurrentRequest` error.
+   */
+  reject = 'reject',
+  /**
+   * The request is processed once the preceding ones complete, in the order
+   * of reception.
+   */
+  queue = 'queue',
+  /**
+   * Non-interactive requests, such as `hintAvailable` and
+   * `disableAutoSignIn`, are processed immediately alongside any other
+   * request. Interactive requests are rejected while another interactive
+   * request is in progress.
+   */
+  concurrentNonInteractive = 'concurrentNonInteractive'
+}
+
+export interface RequestQueueingPolicy {
+  mode: RequestQueueingMode;
+
+  /**
+   * The maximum number of requests waiting in the queue, beyond which
+   * requests are rejected. Only applies to the `queue` mode. Default: 5.
+   */
+  maxQueueDepth?: number;
 }
 
 /**
@@ -66,6 +112,27 @@ export interface WindowLike extends EventTarget {
   postMessage(data: any, targetOrigin: string, transfer?: MessagePort[]): void;
 }
 
+/**
+ * The response of an HTTP request dispatched through an {@link HttpTransport}.
+ */
+export interface HttpResponse {
+  statusCode: number;
+  responseText: string;
+}
+
+/**
+ * Dispatches HTTP requests on behalf of the provider frame.
+ */
+export interface HttpTransport {
+  /**
+   * Sends a POST request with the provided body and headers. The promise
+   * should resolve with the response whatever its status code, and only be
+   * rejected if the request could not be completed (e.g. network failure).
+   */
+  post(url: string, body: string, headers: {[name: string]: string}):
+      Promise<HttpResponse>;
+}
+
 /**
  * A service which is able to provide an equivalence class of authentication
  * domains.
@@ -159,6 +226,16 @@ export interface InteractionProvider {
       credential: OpenYoloCredential,
       displayCallbacks: DisplayCallbacks): Promise<boolean>;
 
+  /**
+   * Requests the display of a confirmation screen, allowing the user to
+   * choose whether to delete the provided credential. The returned promise
+   * should resolve {@code true} if the user consents to deleting the
+   * credential, false otherwise.
+   */
+  showDeleteConfirmation(
+      credential: OpenYoloCredential,
+      displayCallbacks: DisplayCallbacks): Promise<boolean>;
+
   /**
    * Requests the display of an auto sign in screen. The promise should always
    * resolve, as no action is required.
@@ -15,17 +15,46 @@
  */
 
 import {PrimaryClientConfiguration} from '../protocol/client_config';
-import {sendMessage} from '../protocol/comms';
+import {getClientWindow, sendMessage} from '../protocol/comms';
 import {AUTHENTICATION_METHODS, OpenYoloCredential, OpenYoloCredentialHintOptions, OpenYoloCredentialRequestOptions} from '../protocol/data';
 import {OpenYoloInternalError} from '../protocol/errors';
 import {isOpenYoloMessageFormat} from '../protocol/messages';
+import {generatePassword} from '../protocol/password_generator';
+import {DEFAULT_PASSWORD_GENERATION_SPEC} from '../protocol/password_spec';
 import {channelErrorMessage} from '../protocol/post_messages';
 import * as msg from '../protocol/rpc_messages';
 import {SecureChannel} from '../protocol/secure_channel';
 import {CancellablePromise} from '../protocol/utils';
+import {isWebUrl} from '../protocol/validators';
 
 import {AncestorOriginVerifier} from './ancestor_origin_verifier';
-import {AffiliationProvider, CredentialDataProvider, DisplayCallbacks, InteractionProvider, LocalStateProvider, ProviderConfiguration, WindowLike} from './provider_config';
+import {FetchHttpTransport} from './fetch_http_transport';
+import {AffiliationProvider, CredentialDataProvider, DisplayCallbacks, HttpResponse, HttpTransport, InteractionProvider, LocalStateProvider, ProviderConfiguration, RequestQueueingMode, RequestQueueingPolicy, WindowLike} from './provider_config';
+
+/**
+ * The requests which do not require any user interaction.
+ */
+const NON_INTERACTIVE_REQUESTS: msg.RpcMessageType[] =
+    [msg.RpcMessageType.hintAvailable, msg.RpcMessageType.disableAutoSignIn];
+
+/**
+ * The requests cancelling other ones, which are processed immediately.
+ */
+const CANCELLATION_REQUESTS: msg.RpcMessageType[] = [
+  msg.RpcMessageType.cancelLastOperation,
+  msg.RpcMessageType.cancelOperation
+];
+
+const DEFAULT_MAX_QUEUE_DEPTH = 5;
+
+/**
+ * A request waiting for the preceding ones to complete.
+ */
+interface QueuedRequest {
+  id: string;
+  // resolves whether the request can start, or was dropped.
+  resolve: (started: boolean) => void;
+}
 
 /**
  * Handles request from the client.
@@ -40,12 +69,22 @@ export class ProviderFrame {
   private localStateProvider: LocalStateProvider;
   private credentialDataProvider: CredentialDataProvider;
   private interactionProvider: InteractionProvider;
+  private httpTransport: HttpTransport;
+  private requestQueueingPolicy: RequestQueueingPolicy;
   private requestInProgress = false;
+  // the ID of the request in progress, if any.
+  private requestInProgressId: string|null = null;
+  // the number of non-interactive requests running alongside other requests
+  private concurrentRequestCount = 0;
+  private requestQueue: QueuedRequest[] = [];
   // represents a potential cancellable operation
   private cancellable: CancellablePromise<never>|null = null;
 
   private closeListener: EventListener;
+  private keydownListener: EventListener;
   private window: WindowLike;
+  // the ID of the request displaying the provider UI, if any.
+  private displayedRequestId: string|null = null;
 
   private proxyLoginCredential: OpenYoloCredential|null = null;
 
@@ -101,11 +140,11 @@ export class ProviderFrame {
       // may not actually be their fault.
       if (err instanceof OpenYoloInternalError) {
         sendMessage(
-            providerConfig.window.parent,
+            getClientWindow(providerConfig.window),
             channelErrorMessage(err.toExposedError()));
       } else {
         sendMessage(
-            providerConfig.window.parent,
+            getClientWindow(providerConfig.window),
             channelErrorMessage(
                 OpenYoloInternalError.providerInitializationFailed()
                     .toExposedError()));
@@ -127,11 +166,21 @@ export class ProviderFrame {
     this.credentialDataProvider = providerConfig.credentialDataProvider;
     this.interactionProvider = providerConfig.interactionProvider;
     this.localStateProvider = providerConfig.localStateProvider;
+    this.httpTransport =
+        providerConfig.httpTransport || new FetchHttpTransport();
+    this.requestQueueingPolicy = providerConfig.requestQueueingPolicy ||
+        {mode: RequestQueueingMode.reject};
     this.window = window;
 
     // start listening for specific request types from the client
     this.registerListeners();
 
+    // the user pressing Escape within the provider UI dismisses it: the client
+    // document does not receive the key events of the focused frame.
+    this.keydownListener = (ev: Event) => this.handleKeydown(ev);
+    this.providerConfig.window.addEventListener(
+        'keydown', this.keydownListener);
+
     // if we are in a popup and closed, send a message to the parent
     if (this.window.opener) {
       this.closeListener = (() => this.handleClose());
@@ -143,15 +192,28 @@ export class ProviderFrame {
     this.clientChannel.dispose();
     this.interactionProvider.dispose();
     this.window.removeEventListener('beforeunload', this.closeListener);
+    this.providerConfig.window.removeEventListener(
+        'keydown', this.keydownListener);
   }
 
   private async handleClose() {
     sendMessage(
-        this.providerConfig.window.parent,
+        getClientWindow(this.providerConfig.window),
         channelErrorMessage(
             OpenYoloInternalError.userCanceled().toExposedError()));
   }
 
+  /**
+   * Asks the client to dismiss the provider UI on Escape, which cancels the
+   * request displaying it.
+   */
+  private handleKeydown(ev: Event) {
+    const key = (ev as KeyboardEvent).key;
+    if ((key === 'Escape' || key === 'Esc') && this.displayedRequestId) {
+      this.clientChannel.send(msg.dismissMessage(this.displayedRequestId));
+    }
+  }
+
   private registerListeners() {
     this.addRpcListener(
         msg.RpcMessageType.disableAutoSignIn,
@@ -172,6 +234,10 @@ export class ProviderFrame {
         msg.RpcMessageType.save,
         (m) => this.handleSaveCredentialRequest(m.id, m.args));
 
+    this.addRpcListener(
+        msg.RpcMessageType.deleteCredential,
+        (m) => this.handleDeleteCredentialRequest(m.id, m.args));
+
     this.addRpcListener(
         msg.RpcMessageType.proxy,
         (m) => this.handleProxyLoginRequest(m.id, m.args));
@@ -180,6 +246,10 @@ export class ProviderFrame {
         msg.RpcMessageType.cancelLastOperation,
         (m) => this.handleCancelLastOperation(m.id));
 
+    this.addRpcListener(
+        msg.RpcMessageType.cancelOperation,
+        (m) => this.handleCancelOperation(m.id, m.args));
+
     this.clientChannel.addFallbackListener((ev) => {
       this.handleUnknownMessage(ev);
       return false;
@@ -199,7 +269,8 @@ export class ProviderFrame {
       type: T,
       m: msg.RpcMessageData<T>,
       messageHandler: (message: msg.RpcMessageData<T>) => Promise<void>) {
-    if (!this.recordRequestStart(type, m.id)) {
+    if (!this.recordRequestStart(type, m.id) &&
+        !await this.queueRequest(m.id)) {
       return;
     }
 
@@ -207,32 +278,64 @@ export class ProviderFrame {
       await messageHandler(m);
     } catch (error) {
       if (error && error === CancellablePromise.CANCELLED_ERROR) {
-        // reset cancellable promise, for the next set of requests
-        this.cancellable = null;
         this.clientChannel.send(msg.errorMessage(
             m.id, OpenYoloInternalError.operationCanceled().toExposedError()));
       } else {
         throw error;
       }
     } finally {
-      this.recordRequestStop();
+      if (this.displayedRequestId === m.id) {
+        this.displayedRequestId = null;
+      }
+      this.recordRequestStop(type);
     }
   }
 
+  /**
+   * Records the start of the request if it can be processed immediately,
+   * according to the queueing policy.
+   */
   private recordRequestStart<T extends msg.RpcMessageType>(
       requestType: T,
       requestId: string) {
-    // Cancel last operation requests should not be recorded.
-    if (requestType === 'cancelLastOperation') {
-      // allow cancelLastOperation even if its a concurrent request
+    // Cancellation requests should not be recorded.
+    if (CANCELLATION_REQUESTS.indexOf(requestType) !== -1) {
+      // allow cancellations even if they are concurrent requests
+      return true;
+    }
+
+    if (this.runsConcurrently(requestType)) {
+      this.concurrentRequestCount++;
       return true;
     }
 
     if (!this.requestInProgress) {
       this.requestInProgress = true;
+      this.requestInProgressId = requestId;
       return true;
     }
 
+    return false;
+  }
+
+  /**
+   * Queues a request which cannot be processed immediately, if the queueing
+   * policy permits. The returned promise resolves once the request can start,
+   * or with false if it was rejected or dropped, in which case the client has
+   * already been notified.
+   */
+  private async queueRequest(requestId: string): Promise<boolean> {
+    const maxQueueDepth =
+        this.requestQueueingPolicy.maxQueueDepth === undefined ?
+        DEFAULT_MAX_QUEUE_DEPTH :
+        this.requestQueueingPolicy.maxQueueDepth;
+    if (this.requestQueueingPolicy.mode === RequestQueueingMode.queue &&
+        this.requestQueue.length < maxQueueDepth) {
+      return new Promise<boolean>((resolve) => {
+        this.requestQueue.push({id: requestId, resolve});
+      });
+    }
+
     this.clientChannel.send(msg.errorMessage(
         requestId,
         OpenYoloInternalError.illegalConcurrentRequestError()
@@ -240,8 +343,35 @@ export class ProviderFrame {
     return false;
   }
 
-  private recordRequestStop() {
-    this.requestInProgress = false;
+  private recordRequestStop<T extends msg.RpcMessageType>(requestType: T) {
+    if (CANCELLATION_REQUESTS.indexOf(requestType) !== -1) {
+      return;
+    }
+
+    if (this.runsConcurrently(requestType)) {
+      this.concurrentRequestCount--;
+      return;
+    }
+
+    // reset cancellable promise, for the next set of requests
+    this.cancellable = null;
+
+    // hand over to the next queued request, if any, which is then considered
+    // in progress.
+    const next = this.requestQueue.shift();
+    if (next) {
+      this.requestInProgressId = next.id;
+      next.resolve(true);
+    } else {
+      this.requestInProgress = false;
+      this.requestInProgressId = null;
+    }
+  }
+
+  private runsConcurrently<T extends msg.RpcMessageType>(requestType: T) {
+    return this.requestQueueingPolicy.mode ===
+        RequestQueueingMode.concurrentNonInteractive &&
+        NON_INTERACTIVE_REQUESTS.indexOf(requestType) !== -1;
   }
 
   private async handleDisableAutoSignInRequest(requestId: string) {
@@ -288,10 +418,16 @@ export class ProviderFrame {
       // requester, as that is where the hint would be used.
       selectedHint.authDomain = this.clientAuthDomain;
 
-      // TODO: if the authentication method is id-and-password, generate
-      // a password using the provided password specification
+      // if the authentication method is id-and-password, generate a password
+      // using the provided password specification, or the default one.
+      if (selectedHint.authMethod === AUTHENTICATION_METHODS.ID_AND_PASSWORD) {
+        selectedHint.generatedPassword = generatePassword(
+            options.passwordSpec || DEFAULT_PASSWORD_GENERATION_SPEC);
+      }
 
-      // TODO: retain the credential hint for a potential automatic save later.
+      // retain the hint for the session, such that a later save of the
+      // resulting credential does not require another confirmation.
+      await this.retainHint(selectedHint);
 
       this.clientChannel.send(
           msg.credentialResultMessage(requestId, selectedHint));
@@ -313,7 +449,13 @@ export class ProviderFrame {
       id: string,
       options: OpenYoloCredentialHintOptions) {
     try {
-      const hints = await this.cancellablePromise(this.getHints(options));
+      // a request running concurrently must not be affected by the
+      // cancellation of the request in progress.
+      const hintsPromise = this.getHints(options);
+      const hints = await(
+          this.runsConcurrently(msg.RpcMessageType.hintAvailable) ?
+              hintsPromise :
+              this.cancellablePromise(hintsPromise));
       this.clientChannel.send(
           msg.hintAvailableResponseMessage(id, hints.length > 0));
     } catch (err) {
@@ -406,20 +548,246 @@ export class ProviderFrame {
   }
 
   private async handleSaveCredentialRequest(
-      id: string,
+      requestId: string,
+      credential: OpenYoloCredential) {
+    try {
+      if (credential.authMethod === AUTHENTICATION_METHODS.ID_AND_PASSWORD &&
+          !credential.password) {
+        throw OpenYoloInternalError.requestFailed(
+            'A password is required to save an id-and-password credential.');
+      }
+
+      if (credential.authMethod !== AUTHENTICATION_METHODS.ID_AND_PASSWORD &&
+          credential.password) {
+        throw OpenYoloInternalError.requestFailed(
+            'A password can only be saved for an id-and-password credential.');
+      }
+
+      // the credential is always saved against the client's authentication
+      // domain, whatever the client may have specified.
+      let credentialToSave = this.copyCredentialForSave(credential);
+
+      // look for an existing credential with the same identifier and
+      // authentication method, which the saved credential will replace.
+      let existingCredentials = await this.cancellablePromise(
+          this.credentialDataProvider.getAllCredentials(
+              [this.clientAuthDomain],
+              {supportedAuthMethods: [credential.authMethod]}));
+      let original = existingCredentials.find((existing) => {
+        return existing.id === credentialToSave.id &&
+            existing.authMethod === credentialToSave.authMethod &&
+            existing.authDomain === credentialToSave.authDomain;
+      });
+
+      // the user already selected this credential as a hint during the
+      // session, so the save can proceed without another confirmation unless
+      // it overwrites a stored credential with another password than the
+      // generated one. Otherwise, user interaction is required: instruct the
+      // interaction provider to ask the user whether the credential should be
+      // saved.
+      let confirmed =
+          await this.matchesRetainedHint(credentialToSave, original);
+      if (!confirmed) {
+        confirmed = await this.cancellablePromise(
+            this.interactionProvider.showSaveConfirmation(
+                credentialToSave, this.createDisplayCallbacks(requestId)));
+      }
+
+      if (!confirmed) {
+        this.clientChannel.send(msg.saveResultMessage(requestId, false));
+        return;
+      }
+
+      try {
+        await this.cancellablePromise(
+            this.credentialDataProvider.upsertCredential(
+                credentialToSave, original));
+      } catch (err) {
+        this.handleWellKnownErrors(err);
+        throw OpenYoloInternalError.requestFailed(
+            'The credential could not be saved.');
+      }
+
+      this.clientChannel.send(msg.saveResultMessage(requestId, true));
+    } catch (err) {
+      this.handleWellKnownErrors(err);
+      if (err instanceof OpenYoloInternalError) {
+        this.clientChannel.send(
+            msg.errorMessage(requestId, err.toExposedError()));
+      } else {
+        this.clientChannel.send(msg.errorMessage(
+            requestId,
+            OpenYoloInternalError.requestFailed('Implementation error.')
+                .toExposedError()));
+      }
+    }
+  }
+
+  private async handleDeleteCredentialRequest(
+      requestId: string,
       credential: OpenYoloCredential) {
-    // TODO(iainmcgin): implement
-    return this.handleUnimplementedRequest(id, msg.RpcMessageType.save);
+    try {
+      // only a stored credential the client has access to can be deleted,
+      // whatever the rest of the provided credential may contain.
+      let credentials = await this.cancellablePromise(
+          this.credentialDataProvider.getAllCredentials(
+              this.equivalentAuthDomains,
+              {supportedAuthMethods: [credential.authMethod]}));
+      let credentialToDelete = credentials.find((existing) => {
+        return existing.id === credential.id &&
+            existing.authMethod === credential.authMethod;
+      });
+
+      if (!credentialToDelete) {
+        throw OpenYoloInternalError.noCredentialsAvailable();
+      }
+
+      // user interaction is always required: instruct the interaction provider
+      // to ask the user whether the credential should be deleted.
+      let confirmed = await this.cancellablePromise(
+          this.interactionProvider.showDeleteConfirmation(
+              credentialToDelete, this.createDisplayCallbacks(requestId)));
+
+      if (!confirmed) {
+        this.clientChannel.send(
+            msg.deleteCredentialResultMessage(requestId, false));
+        return;
+      }
+
+      try {
+        await this.cancellablePromise(
+            this.credentialDataProvider.deleteCredential(credentialToDelete));
+      } catch (err) {
+        this.handleWellKnownErrors(err);
+        throw OpenYoloInternalError.requestFailed(
+            'The credential could not be deleted.');
+      }
+
+      // a deleted credential must not be dispatched through a proxy login.
+      if (this.proxyLoginCredential &&
+          this.proxyLoginCredential.id === credentialToDelete.id &&
+          this.proxyLoginCredential.authMethod ===
+              credentialToDelete.authMethod) {
+        this.proxyLoginCredential = null;
+      }
+
+      this.clientChannel.send(
+          msg.deleteCredentialResultMessage(requestId, true));
+    } catch (err) {
+      this.handleWellKnownErrors(err);
+      if (err instanceof OpenYoloInternalError) {
+        this.clientChannel.send(
+            msg.errorMessage(requestId, err.toExposedError()));
+      } else {
+        this.clientChannel.send(msg.errorMessage(
+            requestId,
+            OpenYoloInternalError.requestFailed('Implementation error.')
+                .toExposedError()));
+      }
+    }
+  }
+
+  /**
+   * Retains the selected hint for the session. Failing to do so is not fatal,
+   * as the save of the credential will simply require a confirmation.
+   */
+  private async retainHint(hint: OpenYoloCredential) {
+    try {
+      await this.cancellablePromise(
+          this.localStateProvider.retainCredentialForSession(
+              this.clientAuthDomain, hint));
+    } catch (err) {
+      this.handleWellKnownErrors(err);
+    }
+  }
+
+  /**
+   * Determines whether the credential matches the hint retained for the
+   * client, and either creates a credential or saves the password generated
+   * with the hint. The retained hint is consumed by this check.
+   */
+  private async matchesRetainedHint(
+      credential: OpenYoloCredential,
+      original: OpenYoloCredential|undefined): Promise<boolean> {
+    let retained: OpenYoloCredential;
+    try {
+      retained = await this.cancellablePromise(
+          this.localStateProvider.getRetainedCredential(this.clientAuthDomain));
+    } catch (err) {
+      this.handleWellKnownErrors(err);
+      // no hint is retained for the client.
+      return false;
+    }
+
+    if (retained.id !== credential.id ||
+        retained.authMethod !== credential.authMethod) {
+      return false;
+    }
+    return !original ||
+        (!!retained.generatedPassword &&
+         credential.password === retained.generatedPassword);
   }
 
   private async handleProxyLoginRequest(
-      id: string,
+      requestId: string,
       credential: OpenYoloCredential) {
-    // TODO(iainmcgin): implement
-    return this.handleUnimplementedRequest(id, msg.RpcMessageType.proxy);
+    try {
+      const endpoint = this.clientConfig.authenticationEndpoint;
+      if (!endpoint || !isWebUrl(endpoint)) {
+        throw OpenYoloInternalError.requestFailed(
+            'No valid authentication endpoint is configured for the client.');
+      }
+
+      // only the credential last released to the client with
+      // proxiedAuthRequired set can be dispatched.
+      const storedCredential = this.proxyLoginCredential;
+      if (!storedCredential || !storedCredential.password ||
+          storedCredential.id !== credential.id ||
+          storedCredential.authMethod !== credential.authMethod) {
+        throw OpenYoloInternalError.requestFailed(
+            'The credential does not match the one previously retrieved.');
+      }
+
+      const body = `username=${encodeURIComponent(storedCredential.id)}` +
+          `&password=${encodeURIComponent(storedCredential.password)}`;
+
+      let response: HttpResponse;
+      try {
+        response = await this.cancellablePromise(this.httpTransport.post(
+            endpoint,
+            body,
+            {'Content-Type': 'application/x-www-form-urlencoded'}));
+      } catch (err) {
+        this.handleWellKnownErrors(err);
+        throw OpenYoloInternalError.requestFailed(
+            'The authentication endpoint could not be reached.');
+      }
+
+      // the credential has been used, and must not be dispatched again.
+      this.proxyLoginCredential = null;
+
+      this.clientChannel.send(msg.proxyLoginResponseMessage(requestId, {
+        statusCode: response.statusCode,
+        responseText: response.responseText
+      }));
+    } catch (err) {
+      this.handleWellKnownErrors(err);
+      if (err instanceof OpenYoloInternalError) {
+        this.clientChannel.send(
+            msg.errorMessage(requestId, err.toExposedError()));
+      } else {
+        this.clientChannel.send(msg.errorMessage(
+            requestId,
+            OpenYoloInternalError.requestFailed('Implementation error.')
+                .toExposedError()));
+      }
+    }
   }
 
   private async handleCancelLastOperation(id: string) {
+    // only the request in progress races against the cancellable, as the
+    // requests running concurrently are not interactive. The queued requests
+    // are left untouched, and can be canceled with cancelOperation.
     if (!this.requestInProgress || this.cancellable === null) {
       // no request in progress
     } else {
@@ -434,11 +802,28 @@ export class ProviderFrame {
   }
 
   /**
-   * Responds to unknown request types with an error message.
+   * Cancels the request with the given ID, whether queued or in progress. Does
+   * nothing if the request already completed.
    */
-  private async handleUnimplementedRequest(id: string, type: string) {
-    this.clientChannel.send(msg.errorMessage(
-        id, OpenYoloInternalError.unknownRequest(type).toExposedError()));
+  private async handleCancelOperation(id: string, requestId: string) {
+    const queuedIndex =
+        this.requestQueue.findIndex((queued) => queued.id === requestId);
+    if (queuedIndex !== -1) {
+      const queued = this.requestQueue.splice(queuedIndex, 1)[0];
+      this.clientChannel.send(msg.errorMessage(
+          queued.id,
+          OpenYoloInternalError.operationCanceled().toExposedError()));
+      queued.resolve(false);
+    } else if (
+        this.requestInProgressId === requestId && this.cancellable !== null) {
+      try {
+        this.cancellable.cancel();
+      } finally {
+        // cancel any pending UI
+        this.interactionProvider.dispose();
+      }
+    }
+    this.clientChannel.send(msg.cancelOperationResultMessage(id));
   }
 
   private handleUnknownMessage(ev: MessageEvent) {
@@ -530,9 +915,38 @@ export class ProviderFrame {
     return copy;
   }
 
+  /**
+   * Provides a copy of a credential sent by the client for saving. Only the
+   * properties which are meaningful to store are kept, and the authentication
+   * domain is set to that of the client.
+   */
+  private copyCredentialForSave(credential: OpenYoloCredential):
+      OpenYoloCredential {
+    let copy: OpenYoloCredential = {
+      id: credential.id,
+      authMethod: credential.authMethod,
+      authDomain: this.clientAuthDomain
+    };
+
+    if (credential.displayName) {
+      copy.displayName = credential.displayName;
+    }
+
+    if (credential.profilePicture) {
+      copy.profilePicture = credential.profilePicture;
+    }
+
+    if (credential.password) {
+      copy.password = credential.password;
+    }
+
+    return copy;
+  }
+
   private createDisplayCallbacks(requestId: string): DisplayCallbacks {
     return {
       requestDisplayOptions: (options: msg.DisplayOptions): Promise<void> => {
+        this.displayedRequestId = requestId;
         return this.clientChannel.sendAndWaitAck(
             msg.showProviderMessage(requestId, options));
       }
@@ -547,8 +961,7 @@ export class ProviderFrame {
       Promise<OpenYoloCredential[]> {
     // get all credentials across all domains; from this, we can filter down
     // to the set of credentials
-    let allCredentials = await this.cancellablePromise(
-        this.credentialDataProvider.getAllHints(options));
+    let allCredentials = await this.credentialDataProvider.getAllHints(options);
 
     if (allCredentials.length < 1) {
       return [];
@@ -634,8 +1047,8 @@ export class ProviderFrame {
 
   private cancellablePromise<T>(producer: Promise<T>): Promise<T> {
     // creates a new cancellable promise if and only if one does not already
-    // exist for the provider frame. This should get reset only when a cancel
-    // signal has already been caught.
+    // exist for the provider frame. This gets reset when the request in
+    // progress completes.
     if (!this.cancellable) {
       this.cancellable = new CancellablePromise();
     }
@@ -17,6 +17,7 @@
 import {PrimaryClientConfiguration} from '../protocol/client_config';
 import {AUTHENTICATION_METHODS, OpenYoloCredential, OpenYoloCredentialHintOptions, OpenYoloCredentialRequestOptions} from '../protocol/data';
 import {OpenYoloErrorType, OpenYoloInternalError} from '../protocol/errors';
+import {PasswordSpecification} from '../protocol/password_spec';
 import * as msg from '../protocol/rpc_messages';
 import {SecureChannel} from '../protocol/secure_channel';
 import {PromiseResolver} from '../protocol/utils';
@@ -25,7 +26,7 @@ import {MockWindow} from '../test_utils/frames';
 import {JasmineTimeoutManager} from '../test_utils/timeout';
 
 import {AncestorOriginVerifier} from './ancestor_origin_verifier';
-import {AffiliationProvider, ClientConfigurationProvider, CredentialDataProvider, DisplayCallbacks, InteractionProvider, LocalStateProvider, ProviderConfiguration} from './provider_config';
+import {AffiliationProvider, ClientConfigurationProvider, CredentialDataProvider, DisplayCallbacks, HttpTransport, InteractionProvider, LocalStateProvider, ProviderConfiguration, RequestQueueingMode, RequestQueueingPolicy} from './provider_config';
 import {ProviderFrame} from './provider_frame';
 
 const TEST_AUTH_DOMAIN = 'https://www.example.com';
@@ -40,6 +41,7 @@ describe('ProviderFrame', () => {
   let credentialDataProvider: TestCredentialDataProvider;
   let interactionProvider: InteractionProvider;
   let localStateProvider: TestLocalStateProvider;
+  let httpTransport: HttpTransport;
 
   let clientChannel: SecureChannel;
   let providerChannel: SecureChannel;
@@ -65,10 +67,12 @@ describe('ProviderFrame', () => {
       'showCredentialPicker',
       'showHintPicker',
       'showSaveConfirmation',
+      'showDeleteConfirmation',
       'showAutoSignIn',
       'dispose'
     ]);
     localStateProvider = new TestLocalStateProvider();
+    httpTransport = jasmine.createSpyObj('HttpTransport', ['post']);
 
     let connection = new FakeProviderConnection();
     clientChannel = connection.clientChannel;
@@ -83,7 +87,8 @@ describe('ProviderFrame', () => {
       credentialDataProvider,
       interactionProvider,
       localStateProvider,
-      allowDirectAuth: true
+      allowDirectAuth: true,
+      httpTransport
     };
 
     alicePwdCred = {
@@ -443,6 +448,45 @@ describe('ProviderFrame', () => {
         clientChannel.send(msg.retrieveMessage(requestId, passwordOnlyRequest));
       });
 
+      it('should ask the client to dismiss the displayed UI on Escape',
+         async function(done) {
+           credentialDataProvider.credentials = [alicePwdCred];
+           localStateProvider.autoSignIn[TEST_AUTH_DOMAIN] = false;
+           spyOn(providerChannel, 'sendAndWaitAck')
+               .and.returnValue(Promise.resolve());
+           const pressEscape = () => {
+             const ev = document.createEvent('Event');
+             ev.initEvent('keydown', true, true);
+             (ev as any).key = 'Escape';
+             window.dispatchEvent(ev);
+           };
+
+           let displayed = false;
+           clientChannel.listen(msg.RpcMessageType.dismiss, (data) => {
+             expect(displayed).toBe(true);
+             expectMessageContents(data, msg.dismissMessage(requestId));
+             done();
+           });
+
+           (interactionProvider.showCredentialPicker as jasmine.Spy)
+               .and.callFake(
+                   (credentials: OpenYoloCredential[],
+                    options: OpenYoloCredentialRequestOptions,
+                    displayCallbacks: DisplayCallbacks) => {
+                     // Nothing is displayed yet.
+                     pressEscape();
+                     return displayCallbacks.requestDisplayOptions({}).then(
+                         () => {
+                           displayed = true;
+                           pressEscape();
+                           return new Promise(() => {});
+                         });
+                   });
+
+           clientChannel.send(
+               msg.retrieveMessage(requestId, passwordOnlyRequest));
+         });
+
       it('should interact with user and return selected credential ' +
              'when multiple options',
          async function(done) {
@@ -692,7 +736,8 @@ describe('ProviderFrame', () => {
         let redactedElisaCred: OpenYoloCredential = {
           id: elisaOtherDomainCred.id,
           authMethod: elisaOtherDomainCred.authMethod,
-          authDomain: TEST_AUTH_DOMAIN
+          authDomain: TEST_AUTH_DOMAIN,
+          generatedPassword: jasmine.any(String) as any
         };
 
         // the data store might actually be defining additional properties on
@@ -717,6 +762,73 @@ describe('ProviderFrame', () => {
         clientChannel.send(msg.hintMessage(requestId, pwdOrFbHintOptions));
       });
 
+      it('should retain the selected hint for the session',
+         async function(done) {
+           credentialDataProvider.credentials = [alicePwdCred];
+           (interactionProvider.showHintPicker as jasmine.Spy)
+               .and.returnValue(Promise.resolve(alicePwdCred));
+
+           clientChannel.listen(msg.RpcMessageType.credential, (data) => {
+             expect(localStateProvider.retained[TEST_AUTH_DOMAIN])
+                 .toEqual(data.args);
+             done();
+           });
+
+           clientChannel.send(msg.hintMessage(requestId, pwdOrFbHintOptions));
+         });
+
+      it('should return the hint even if it cannot be retained',
+         async function(done) {
+           credentialDataProvider.credentials = [alicePwdCred];
+           (interactionProvider.showHintPicker as jasmine.Spy)
+               .and.returnValue(Promise.resolve(alicePwdCred));
+           spyOn(localStateProvider, 'retainCredentialForSession')
+               .and.returnValue(Promise.reject(new Error('storage failure')));
+
+           clientChannel.listen(msg.RpcMessageType.credential, (data) => {
+             expect(data.args.id).toEqual(alicePwdCred.id);
+             done();
+           });
+
+           clientChannel.send(msg.hintMessage(requestId, pwdOrFbHintOptions));
+         });
+
+      it('should generate a password for password hints', async function(done) {
+        credentialDataProvider.credentials = [alicePwdCred];
+        const passwordSpec: PasswordSpecification = {
+          minLength: 8,
+          maxLength: 8,
+          requiredCharSets: [{chars: '0123456789', count: 8}],
+          allowedChars: ''
+        };
+
+        (interactionProvider.showHintPicker as jasmine.Spy)
+            .and.returnValue(Promise.resolve(alicePwdCred));
+
+        clientChannel.listen(msg.RpcMessageType.credential, (data) => {
+          expect(data.args.generatedPassword).toMatch(/^[0-9]{8}$/);
+          expect(data.args.password).toBeUndefined();
+          done();
+        });
+
+        clientChannel.send(
+            msg.hintMessage(requestId, {...pwdOrFbHintOptions, passwordSpec}));
+      });
+
+      it('should not generate a password for federated hints',
+         async function(done) {
+           credentialDataProvider.credentials = [deliaFbCred];
+           (interactionProvider.showHintPicker as jasmine.Spy)
+               .and.returnValue(Promise.resolve(deliaFbCred));
+
+           clientChannel.listen(msg.RpcMessageType.credential, (data) => {
+             expect(data.args.generatedPassword).toBeUndefined();
+             done();
+           });
+
+           clientChannel.send(msg.hintMessage(requestId, pwdOrFbHintOptions));
+         });
+
       it('should notify the client of user cancellation', async function(done) {
         credentialDataProvider.credentials = [deliaFbCred];
         expectPickFromHints(
@@ -838,6 +950,662 @@ describe('ProviderFrame', () => {
         clientChannel.send(msg.hintMessage(requestId, pwdOrFbHintOptions));
       });
     });
+
+    describe('handling credential save', () => {
+      it('should save the credential once the user confirms',
+         async function(done) {
+           credentialDataProvider.credentials = [];
+           (interactionProvider.showSaveConfirmation as jasmine.Spy)
+               .and.callFake(
+                   (credential: OpenYoloCredential,
+                    displayCallbacks: DisplayCallbacks) => {
+                     expect(credential).toEqual(alicePwdCred);
+                     expect(displayCallbacks).toBeDefined();
+                     return Promise.resolve(true);
+                   });
+
+           clientChannel.listen(msg.RpcMessageType.saveResult, (data) => {
+             expectMessageContents(
+                 data, msg.saveResultMessage(requestId, true));
+             expect(credentialDataProvider.credentials).toEqual([alicePwdCred]);
+             done();
+           });
+
+           clientChannel.send(msg.saveMessage(requestId, alicePwdCred));
+         });
+
+      it('should not save the credential if the user refuses',
+         async function(done) {
+           credentialDataProvider.credentials = [];
+           (interactionProvider.showSaveConfirmation as jasmine.Spy)
+               .and.returnValue(Promise.resolve(false));
+
+           clientChannel.listen(msg.RpcMessageType.saveResult, (data) => {
+             expectMessageContents(
+                 data, msg.saveResultMessage(requestId, false));
+             expect(credentialDataProvider.credentials).toEqual([]);
+             done();
+           });
+
+           clientChannel.send(msg.saveMessage(requestId, alicePwdCred));
+         });
+
+      it('should force the authentication domain to the client\'s',
+         async function(done) {
+           credentialDataProvider.credentials = [];
+           (interactionProvider.showSaveConfirmation as jasmine.Spy)
+               .and.returnValue(Promise.resolve(true));
+
+           clientChannel.listen(msg.RpcMessageType.saveResult, (data) => {
+             expect(credentialDataProvider.credentials).toEqual([{
+               id: elisaOtherDomainCred.id,
+               authMethod: elisaOtherDomainCred.authMethod,
+               authDomain: TEST_AUTH_DOMAIN,
+               password: elisaOtherDomainCred.password
+             }]);
+             done();
+           });
+
+           clientChannel.send(msg.saveMessage(requestId, elisaOtherDomainCred));
+         });
+
+      it('should save a retained hint without confirmation',
+         async function(done) {
+           credentialDataProvider.credentials = [];
+           localStateProvider.retained[TEST_AUTH_DOMAIN] = {
+             id: alicePwdCred.id,
+             authMethod: alicePwdCred.authMethod,
+             authDomain: TEST_AUTH_DOMAIN,
+             generatedPassword: 'g3nerated'
+           };
+
+           clientChannel.listen(msg.RpcMessageType.saveResult, (data) => {
+             expectMessageContents(
+                 data, msg.saveResultMessage(requestId, true));
+             expect(interactionProvider.showSaveConfirmation)
+                 .not.toHaveBeenCalled();
+             expect(credentialDataProvider.credentials).toEqual([alicePwdCred]);
+             expect(localStateProvider.retained[TEST_AUTH_DOMAIN])
+                 .toBeUndefined();
+             done();
+           });
+
+           clientChannel.send(msg.saveMessage(requestId, alicePwdCred));
+         });
+
+      it('should save the generated password of a retained hint without ' +
+             'confirmation',
+         async function(done) {
+           const storedAliceCred = {...alicePwdCred, password: 'old'};
+           credentialDataProvider.credentials = [storedAliceCred];
+           localStateProvider.retained[TEST_AUTH_DOMAIN] = {
+             id: alicePwdCred.id,
+             authMethod: alicePwdCred.authMethod,
+             authDomain: TEST_AUTH_DOMAIN,
+             generatedPassword: alicePwdCred.password
+           };
+
+           clientChannel.listen(msg.RpcMessageType.saveResult, (data) => {
+             expectMessageContents(
+                 data, msg.saveResultMessage(requestId, true));
+             expect(interactionProvider.showSaveConfirmation)
+                 .not.toHaveBeenCalled();
+             expect(credentialDataProvider.credentials).toEqual([alicePwdCred]);
+             done();
+           });
+
+           clientChannel.send(msg.saveMessage(requestId, alicePwdCred));
+         });
+
+      it('should ask for confirmation before overwriting a stored credential',
+         async function(done) {
+           const storedAliceCred = {...alicePwdCred, password: 'old'};
+           credentialDataProvider.credentials = [storedAliceCred];
+           localStateProvider.retained[TEST_AUTH_DOMAIN] = {
+             id: alicePwdCred.id,
+             authMethod: alicePwdCred.authMethod,
+             authDomain: TEST_AUTH_DOMAIN,
+             generatedPassword: 'g3nerated'
+           };
+           (interactionProvider.showSaveConfirmation as jasmine.Spy)
+               .and.returnValue(Promise.resolve(false));
+
+           clientChannel.listen(msg.RpcMessageType.saveResult, (data) => {
+             expectMessageContents(
+                 data, msg.saveResultMessage(requestId, false));
+             expect(interactionProvider.showSaveConfirmation)
+                 .toHaveBeenCalled();
+             expect(credentialDataProvider.credentials).toEqual([
+               storedAliceCred
+             ]);
+             done();
+           });
+
+           clientChannel.send(msg.saveMessage(requestId, alicePwdCred));
+         });
+
+      it('should ask for confirmation if the retained hint differs',
+         async function(done) {
+           credentialDataProvider.credentials = [];
+           localStateProvider.retained[TEST_AUTH_DOMAIN] = {
+             id: bobPwdCred.id,
+             authMethod: bobPwdCred.authMethod,
+             authDomain: TEST_AUTH_DOMAIN
+           };
+           (interactionProvider.showSaveConfirmation as jasmine.Spy)
+               .and.returnValue(Promise.resolve(false));
+
+           clientChannel.listen(msg.RpcMessageType.saveResult, (data) => {
+             expectMessageContents(
+                 data, msg.saveResultMessage(requestId, false));
+             expect(interactionProvider.showSaveConfirmation)
+                 .toHaveBeenCalled();
+             expect(credentialDataProvider.credentials).toEqual([]);
+             done();
+           });
+
+           clientChannel.send(msg.saveMessage(requestId, alicePwdCred));
+         });
+
+      it('should update an existing credential', async function(done) {
+        credentialDataProvider.credentials = [alicePwdCred, bobPwdCred];
+        let updatedAliceCred: OpenYoloCredential = {
+          id: alicePwdCred.id,
+          authMethod: alicePwdCred.authMethod,
+          authDomain: TEST_AUTH_DOMAIN,
+          password: 'n3wpassw0rd'
+        };
+        (interactionProvider.showSaveConfirmation as jasmine.Spy)
+            .and.returnValue(Promise.resolve(true));
+        spyOn(credentialDataProvider, 'upsertCredential').and.callThrough();
+
+        clientChannel.listen(msg.RpcMessageType.saveResult, (data) => {
+          expectMessageContents(data, msg.saveResultMessage(requestId, true));
+          expect(credentialDataProvider.upsertCredential)
+              .toHaveBeenCalledWith(updatedAliceCred, alicePwdCred);
+          expect(credentialDataProvider.credentials)
+              .toEqual([bobPwdCred, updatedAliceCred]);
+          done();
+        });
+
+        clientChannel.send(msg.saveMessage(requestId, updatedAliceCred));
+      });
+
+      it('should reject password credentials without a password',
+         async function(done) {
+           clientChannel.listen(msg.RpcMessageType.error, (data) => {
+             expect(data.args.type).toEqual(OpenYoloErrorType.requestFailed);
+             expect(interactionProvider.showSaveConfirmation)
+                 .not.toHaveBeenCalled();
+             done();
+           });
+
+           clientChannel.send(msg.saveMessage(requestId, {
+             id: alicePwdCred.id,
+             authMethod: AUTHENTICATION_METHODS.ID_AND_PASSWORD
+           }));
+         });
+
+      it('should notify the client if the credential cannot be stored',
+         async function(done) {
+           (interactionProvider.showSaveConfirmation as jasmine.Spy)
+               .and.returnValue(Promise.resolve(true));
+           spyOn(credentialDataProvider, 'upsertCredential')
+               .and.returnValue(Promise.reject(new Error('Storage full')));
+
+           clientChannel.listen(msg.RpcMessageType.error, (data) => {
+             expect(data.args.type).toEqual(OpenYoloErrorType.requestFailed);
+             done();
+           });
+
+           clientChannel.send(msg.saveMessage(requestId, alicePwdCred));
+         });
+    });
+
+    describe('handling credential deletion', () => {
+      it('should delete the credential once the user confirms',
+         async function(done) {
+           credentialDataProvider.credentials = [alicePwdCred, bobPwdCred];
+           (interactionProvider.showDeleteConfirmation as jasmine.Spy)
+               .and.callFake(
+                   (credential: OpenYoloCredential,
+                    displayCallbacks: DisplayCallbacks) => {
+                     expect(credential).toEqual(alicePwdCred);
+                     expect(displayCallbacks).toBeDefined();
+                     return Promise.resolve(true);
+                   });
+
+           clientChannel.listen(
+               msg.RpcMessageType.deleteCredentialResult, (data) => {
+                 expectMessageContents(
+                     data, msg.deleteCredentialResultMessage(requestId, true));
+                 expect(credentialDataProvider.credentials).toEqual([
+                   bobPwdCred
+                 ]);
+                 done();
+               });
+
+           clientChannel.send(msg.deleteCredentialMessage(
+               requestId,
+               {id: alicePwdCred.id, authMethod: alicePwdCred.authMethod}));
+         });
+
+      it('should not delete the credential if the user refuses',
+         async function(done) {
+           credentialDataProvider.credentials = [alicePwdCred];
+           (interactionProvider.showDeleteConfirmation as jasmine.Spy)
+               .and.returnValue(Promise.resolve(false));
+
+           clientChannel.listen(
+               msg.RpcMessageType.deleteCredentialResult, (data) => {
+                 expectMessageContents(
+                     data, msg.deleteCredentialResultMessage(requestId, false));
+                 expect(credentialDataProvider.credentials).toEqual([
+                   alicePwdCred
+                 ]);
+                 done();
+               });
+
+           clientChannel.send(
+               msg.deleteCredentialMessage(requestId, alicePwdCred));
+         });
+
+      it('should fail if no matching credential is stored',
+         async function(done) {
+           credentialDataProvider.credentials =
+               [bobPwdCred, elisaOtherDomainCred];
+
+           clientChannel.listen(msg.RpcMessageType.error, (data) => {
+             expect(data.args.type)
+                 .toEqual(OpenYoloErrorType.noCredentialsAvailable);
+             expect(interactionProvider.showDeleteConfirmation)
+                 .not.toHaveBeenCalled();
+             expect(credentialDataProvider.credentials)
+                 .toEqual([bobPwdCred, elisaOtherDomainCred]);
+             done();
+           });
+
+           clientChannel.send(
+               msg.deleteCredentialMessage(requestId, elisaOtherDomainCred));
+         });
+
+      it('should notify the client if the credential cannot be deleted',
+         async function(done) {
+           credentialDataProvider.credentials = [alicePwdCred];
+           (interactionProvider.showDeleteConfirmation as jasmine.Spy)
+               .and.returnValue(Promise.resolve(true));
+           spyOn(credentialDataProvider, 'deleteCredential')
+               .and.returnValue(Promise.reject(new Error('Read only')));
+
+           clientChannel.listen(msg.RpcMessageType.error, (data) => {
+             expect(data.args.type).toEqual(OpenYoloErrorType.requestFailed);
+             done();
+           });
+
+           clientChannel.send(
+               msg.deleteCredentialMessage(requestId, alicePwdCred));
+         });
+    });
+
+    describe('handling proxy login', () => {
+      const authenticationEndpoint = 'https://www.example.com/login';
+      const passwordOnlyRequest: OpenYoloCredentialRequestOptions = {
+        supportedAuthMethods: [AUTHENTICATION_METHODS.ID_AND_PASSWORD]
+      };
+
+      let redactedAliceCred: OpenYoloCredential;
+
+      beforeEach(() => {
+        frameConfig.allowDirectAuth = false;
+        clientConfig.authenticationEndpoint = authenticationEndpoint;
+        credentialDataProvider.credentials = [alicePwdCred];
+        redactedAliceCred = {
+          id: alicePwdCred.id,
+          authMethod: alicePwdCred.authMethod,
+          authDomain: TEST_AUTH_DOMAIN,
+          proxiedAuthRequired: true
+        };
+      });
+
+      // retrieves the alice credential, which is then stored for proxy login.
+      async function retrieveForProxyLogin(): Promise<void> {
+        let promiseResolver = new PromiseResolver<void>();
+        clientChannel.listen(msg.RpcMessageType.credential, (data) => {
+          expectMessageContents(
+              data, msg.credentialResultMessage(requestId, redactedAliceCred));
+          promiseResolver.resolve();
+        });
+        clientChannel.send(msg.retrieveMessage(requestId, passwordOnlyRequest));
+        await promiseResolver.promise;
+        await waitForRequestEnd();
+      }
+
+      // the fake channel delivers responses synchronously, before the provider
+      // frame records the end of the request: let it complete before sending
+      // a follow-up request.
+      async function waitForRequestEnd(): Promise<void> {
+        for (let i = 0; i < 10; i++) {
+          await Promise.resolve();
+        }
+      }
+
+      it('should dispatch the stored credential to the endpoint',
+         async function(done) {
+           (httpTransport.post as jasmine.Spy)
+               .and.returnValue(
+                   Promise.resolve({statusCode: 200, responseText: 'OK'}));
+
+           clientChannel.listen(msg.RpcMessageType.proxyResult, (data) => {
+             expectMessageContents(
+                 data,
+                 msg.proxyLoginResponseMessage(
+                     requestId, {statusCode: 200, responseText: 'OK'}));
+             expect(httpTransport.post)
+                 .toHaveBeenCalledWith(
+                     authenticationEndpoint,
+                     'username=alice%40example.com&password=passw0rd',
+                     {'Content-Type': 'application/x-www-form-urlencoded'});
+             done();
+           });
+
+           await retrieveForProxyLogin();
+           clientChannel.send(
+               msg.proxyLoginMessage(requestId, redactedAliceCred));
+         });
+
+      it('should return unsuccessful responses', async function(done) {
+        (httpTransport.post as jasmine.Spy)
+            .and.returnValue(
+                Promise.resolve({statusCode: 401, responseText: 'Denied'}));
+
+        clientChannel.listen(msg.RpcMessageType.proxyResult, (data) => {
+          expect(data.args).toEqual({statusCode: 401, responseText: 'Denied'});
+          done();
+        });
+
+        await retrieveForProxyLogin();
+        clientChannel.send(msg.proxyLoginMessage(requestId, redactedAliceCred));
+      });
+
+      it('should fail if no endpoint is configured', async function(done) {
+        delete clientConfig.authenticationEndpoint;
+
+        clientChannel.listen(msg.RpcMessageType.error, (data) => {
+          expect(data.args.type).toEqual(OpenYoloErrorType.requestFailed);
+          expect(httpTransport.post).not.toHaveBeenCalled();
+          done();
+        });
+
+        await retrieveForProxyLogin();
+        clientChannel.send(msg.proxyLoginMessage(requestId, redactedAliceCred));
+      });
+
+      it('should fail if no credential was retrieved', async function(done) {
+        clientChannel.listen(msg.RpcMessageType.error, (data) => {
+          expect(data.args.type).toEqual(OpenYoloErrorType.requestFailed);
+          expect(httpTransport.post).not.toHaveBeenCalled();
+          done();
+        });
+
+        clientChannel.send(msg.proxyLoginMessage(requestId, redactedAliceCred));
+      });
+
+      it('should fail if the credential does not match', async function(done) {
+        clientChannel.listen(msg.RpcMessageType.error, (data) => {
+          expect(data.args.type).toEqual(OpenYoloErrorType.requestFailed);
+          expect(httpTransport.post).not.toHaveBeenCalled();
+          done();
+        });
+
+        await retrieveForProxyLogin();
+        clientChannel.send(msg.proxyLoginMessage(requestId, bobPwdCred));
+      });
+
+      it('should fail on network failure', async function(done) {
+        (httpTransport.post as jasmine.Spy)
+            .and.returnValue(Promise.reject(new TypeError('Failed to fetch')));
+
+        clientChannel.listen(msg.RpcMessageType.error, (data) => {
+          expect(data.args.type).toEqual(OpenYoloErrorType.requestFailed);
+          done();
+        });
+
+        await retrieveForProxyLogin();
+        clientChannel.send(msg.proxyLoginMessage(requestId, redactedAliceCred));
+      });
+
+      it('should not dispatch the same credential twice', async function(done) {
+        (httpTransport.post as jasmine.Spy)
+            .and.returnValue(
+                Promise.resolve({statusCode: 200, responseText: 'OK'}));
+
+        clientChannel.listen(msg.RpcMessageType.proxyResult, async (data) => {
+          await waitForRequestEnd();
+          clientChannel.send(
+              msg.proxyLoginMessage(requestId, redactedAliceCred));
+        });
+        clientChannel.listen(msg.RpcMessageType.error, (data) => {
+          expect(data.args.type).toEqual(OpenYoloErrorType.requestFailed);
+          expect(httpTransport.post).toHaveBeenCalledTimes(1);
+          done();
+        });
+
+        await retrieveForProxyLogin();
+        clientChannel.send(msg.proxyLoginMessage(requestId, redactedAliceCred));
+      });
+    });
+  });
+
+  describe('with a request queueing policy', () => {
+    const clientConfig:
+        PrimaryClientConfiguration = {type: 'primary', apiEnabled: true};
+    const passwordOnlyRequest: OpenYoloCredentialRequestOptions = {
+      supportedAuthMethods: [AUTHENTICATION_METHODS.ID_AND_PASSWORD]
+    };
+    const hintOptions: OpenYoloCredentialHintOptions = {
+      supportedAuthMethods: [AUTHENTICATION_METHODS.ID_AND_PASSWORD]
+    };
+
+    let pendingRetrievals: Array<PromiseResolver<OpenYoloCredential[]>>;
+    let errors: Array<[string, OpenYoloErrorType]>;
+    let cancellationResults: string[];
+
+    function createFrame(requestQueueingPolicy: RequestQueueingPolicy) {
+      return new ProviderFrame(
+          {...frameConfig, requestQueueingPolicy},
+          providerChannel,
+          clientConfig,
+          [TEST_AUTH_DOMAIN]);
+    }
+
+    // the retrievals only complete once resolved by the test, with no
+    // credential available.
+    function completeRetrieval(index: number) {
+      pendingRetrievals[index].resolve([]);
+    }
+
+    async function flushMessages() {
+      for (let i = 0; i < 10; i++) {
+        await Promise.resolve();
+      }
+    }
+
+    beforeEach(() => {
+      pendingRetrievals = [];
+      errors = [];
+      cancellationResults = [];
+      spyOn(credentialDataProvider, 'getAllCredentials').and.callFake(() => {
+        const resolver = new PromiseResolver<OpenYoloCredential[]>();
+        pendingRetrievals.push(resolver);
+        return resolver.promise;
+      });
+      clientChannel.listen(msg.RpcMessageType.error, (data) => {
+        errors.push([data.id, data.args.type]);
+      });
+      clientChannel.listen(
+          msg.RpcMessageType.cancelLastOperationResult, (data) => {});
+      clientChannel.listen(msg.RpcMessageType.cancelOperationResult, (data) => {
+        cancellationResults.push(data.id);
+      });
+    });
+
+    describe('queue', () => {
+      it('processes the requests in order', async function(done) {
+        createFrame({mode: RequestQueueingMode.queue});
+        clientChannel.send(msg.retrieveMessage('1', passwordOnlyRequest));
+        clientChannel.send(msg.retrieveMessage('2', passwordOnlyRequest));
+        await flushMessages();
+        expect(pendingRetrievals.length).toBe(1);
+
+        completeRetrieval(0);
+        await flushMessages();
+        expect(errors).toEqual(
+            [['1', OpenYoloErrorType.noCredentialsAvailable]]);
+        expect(pendingRetrievals.length).toBe(2);
+
+        completeRetrieval(1);
+        await flushMessages();
+        expect(errors).toEqual([
+          ['1', OpenYoloErrorType.noCredentialsAvailable],
+          ['2', OpenYoloErrorType.noCredentialsAvailable]
+        ]);
+        done();
+      });
+
+      it('rejects requests beyond the maximum depth', async function(done) {
+        createFrame({mode: RequestQueueingMode.queue, maxQueueDepth: 1});
+        clientChannel.send(msg.retrieveMessage('1', passwordOnlyRequest));
+        clientChannel.send(msg.retrieveMessage('2', passwordOnlyRequest));
+        clientChannel.send(msg.retrieveMessage('3', passwordOnlyRequest));
+        await flushMessages();
+        expect(errors).toEqual(
+            [['3', OpenYoloErrorType.illegalConcurrentRequest]]);
+        done();
+      });
+
+      it('only cancels the running request on cancellation',
+         async function(done) {
+           createFrame({mode: RequestQueueingMode.queue});
+           clientChannel.send(msg.retrieveMessage('1', passwordOnlyRequest));
+           clientChannel.send(msg.retrieveMessage('2', passwordOnlyRequest));
+           await flushMessages();
+           clientChannel.send(msg.cancelLastOperationMessage('3'));
+           await flushMessages();
+           expect(errors).toEqual([['1', OpenYoloErrorType.operationCanceled]]);
+
+           // the queued request then starts and is processed normally.
+           expect(pendingRetrievals.length).toBe(2);
+           completeRetrieval(1);
+           await flushMessages();
+           expect(errors[1]).toEqual(
+               ['2', OpenYoloErrorType.noCredentialsAvailable]);
+           done();
+         });
+
+      it('drops only the queued request targeted by a cancellation',
+         async function(done) {
+           createFrame({mode: RequestQueueingMode.queue});
+           clientChannel.send(msg.retrieveMessage('1', passwordOnlyRequest));
+           clientChannel.send(msg.retrieveMessage('2', passwordOnlyRequest));
+           clientChannel.send(msg.retrieveMessage('3', passwordOnlyRequest));
+           await flushMessages();
+           clientChannel.send(msg.cancelOperationMessage('4', '2'));
+           await flushMessages();
+           expect(errors).toEqual([['2', OpenYoloErrorType.operationCanceled]]);
+           expect(cancellationResults).toEqual(['4']);
+
+           completeRetrieval(0);
+           await flushMessages();
+           completeRetrieval(1);
+           await flushMessages();
+           expect(errors).toEqual([
+             ['2', OpenYoloErrorType.operationCanceled],
+             ['1', OpenYoloErrorType.noCredentialsAvailable],
+             ['3', OpenYoloErrorType.noCredentialsAvailable]
+           ]);
+           done();
+         });
+
+      it('cancels the request in progress targeted by a cancellation',
+         async function(done) {
+           createFrame({mode: RequestQueueingMode.queue});
+           clientChannel.send(msg.retrieveMessage('1', passwordOnlyRequest));
+           clientChannel.send(msg.retrieveMessage('2', passwordOnlyRequest));
+           await flushMessages();
+           clientChannel.send(msg.cancelOperationMessage('3', '1'));
+           await flushMessages();
+           expect(errors).toEqual([['1', OpenYoloErrorType.operationCanceled]]);
+           expect(interactionProvider.dispose).toHaveBeenCalled();
+
+           // the next queued request is then processed.
+           expect(pendingRetrievals.length).toBe(2);
+           done();
+         });
+
+      it('ignores the cancellation of an unknown request',
+         async function(done) {
+           createFrame({mode: RequestQueueingMode.queue});
+           clientChannel.send(msg.retrieveMessage('1', passwordOnlyRequest));
+           await flushMessages();
+           clientChannel.send(msg.cancelOperationMessage('2', '5'));
+           await flushMessages();
+           expect(cancellationResults).toEqual(['2']);
+           expect(errors).toEqual([]);
+
+           completeRetrieval(0);
+           await flushMessages();
+           expect(errors).toEqual(
+               [['1', OpenYoloErrorType.noCredentialsAvailable]]);
+           done();
+         });
+    });
+
+    describe('concurrentNonInteractive', () => {
+      it('processes non-interactive requests alongside interactive ones',
+         async function(done) {
+           createFrame({mode: RequestQueueingMode.concurrentNonInteractive});
+           credentialDataProvider.credentials = [alicePwdCred];
+           clientChannel.listen(
+               msg.RpcMessageType.hintAvailableResult, (data) => {
+                 expect(data.id).toEqual('2');
+                 expect(data.args).toBe(true);
+                 expect(errors).toEqual([]);
+                 done();
+               });
+
+           clientChannel.send(msg.retrieveMessage('1', passwordOnlyRequest));
+           clientChannel.send(msg.hintAvailableMessage('2', hintOptions));
+         });
+
+      it('rejects concurrent interactive requests', async function(done) {
+        createFrame({mode: RequestQueueingMode.concurrentNonInteractive});
+        clientChannel.send(msg.retrieveMessage('1', passwordOnlyRequest));
+        clientChannel.send(msg.retrieveMessage('2', passwordOnlyRequest));
+        await flushMessages();
+        expect(errors).toEqual(
+            [['2', OpenYoloErrorType.illegalConcurrentRequest]]);
+        done();
+      });
+
+      it('only cancels the interactive request', async function(done) {
+        createFrame({mode: RequestQueueingMode.concurrentNonInteractive});
+        const pendingHints = new PromiseResolver<OpenYoloCredential[]>();
+        spyOn(credentialDataProvider, 'getAllHints')
+            .and.returnValue(pendingHints.promise);
+        clientChannel.listen(msg.RpcMessageType.hintAvailableResult, (data) => {
+          expect(data.id).toEqual('2');
+          expect(errors).toEqual([['1', OpenYoloErrorType.operationCanceled]]);
+          done();
+        });
+
+        clientChannel.send(msg.retrieveMessage('1', passwordOnlyRequest));
+        clientChannel.send(msg.hintAvailableMessage('2', hintOptions));
+        await flushMessages();
+        clientChannel.send(msg.cancelLastOperationMessage('3'));
+        await flushMessages();
+        pendingHints.resolve([alicePwdCred]);
+      });
+    });
   });
 });
 
@@ -954,7 +1722,7 @@ class TestCredentialDataProvider implements CredentialDataProvider {
       return;
     }
 
-    this.credentials = this.credentials.splice(existing, 1);
+    this.credentials.splice(existing, 1);
   }
 }
 
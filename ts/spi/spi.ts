@@ -21,21 +21,34 @@
 
 import {OpenYoloInternalError} from '../protocol/errors';
 
+import {AssetLinksAffiliationProvider} from './asset_links_affiliation_provider';
 import {ProviderFrame} from './provider_frame';
+import {WellKnownClientConfigurationProvider} from './well_known_client_config_provider';
 
 export {OpenYoloInternalError} from '../protocol/errors';
-
+export {AndroidAppStatementsFetcher, androidFacet, ASSET_LINKS_PATH, AssetLinksAffiliationOptions, AssetLinksAffiliationProvider, AssetLinksFetcher, GET_LOGIN_CREDS_RELATION} from './asset_links_affiliation_provider';
 export {ProviderFrame} from './provider_frame';
+export {CLIENT_CONFIGURATION_PATH, ConfigurationFetcher, WellKnownClientConfigurationOptions, WellKnownClientConfigurationProvider} from './well_known_client_config_provider';
 
 export * from './provider_config';
 export * from '../protocol/data';
 export * from '../protocol/client_config';
+export {checkPassword, PasswordViolation, PasswordViolationType} from '../protocol/password_checker';
+export {parsePasswordRules, serializePasswordRules} from '../protocol/password_rules';
 
 // Export the public method.
 const windowAsAny = window as any;
 windowAsAny['openyolo_spi'] = windowAsAny['openyolo_spi'] || {};
 windowAsAny['openyolo_spi']['ProviderFrame'] = ProviderFrame;
 ProviderFrame['initialize'] = ProviderFrame.initialize;
+windowAsAny['openyolo_spi']['WellKnownClientConfigurationProvider'] =
+    WellKnownClientConfigurationProvider;
+WellKnownClientConfigurationProvider.prototype['getConfiguration'] =
+    WellKnownClientConfigurationProvider.prototype.getConfiguration;
+windowAsAny['openyolo_spi']['AssetLinksAffiliationProvider'] =
+    AssetLinksAffiliationProvider;
+AssetLinksAffiliationProvider.prototype['getEquivalentDomains'] =
+    AssetLinksAffiliationProvider.prototype.getEquivalentDomains;
 windowAsAny['openyolo_spi']['Error'] = OpenYoloInternalError;
 // Expose a subset of errors that providers' implementations can use to trigger
 // specific flows or propagate particular errors back to the client.
@@ -0,0 +1,188 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ClientConfiguration, PrimaryClientConfiguration} from '../protocol/client_config';
+import {isSchemeAndAuthorityOnlyUrl, isValidClientConfiguration} from '../protocol/validators';
+
+import {fetchPublicResource} from './fetch_http_transport';
+import {AffiliationProvider, ClientConfigurationProvider, HttpResponse} from './provider_config';
+
+/**
+ * The path of the client configuration, relative to the client's domain.
+ */
+export const CLIENT_CONFIGURATION_PATH = '/.well-known/openyolo.json';
+
+/**
+ * Fetches the resource at the provided URL with a GET request.
+ */
+export type ConfigurationFetcher = (url: string) => Promise<HttpResponse>;
+
+export interface WellKnownClientConfigurationOptions {
+  /**
+   * Used to verify that the domain of a referenced configuration is
+   * affiliated with the referencing domain.
+   */
+  affiliationProvider: AffiliationProvider;
+
+  /**
+   * Fetches the configuration files. Defaults to an implementation based on
+   * `window.fetch`.
+   */
+  fetcher?: ConfigurationFetcher;
+
+  /**
+   * The maximum number of references followed to find a primary
+   * configuration. Default: 3.
+   */
+  maxReferenceDepth?: number;
+
+  /**
+   * The duration, in milliseconds, for which a found configuration is cached.
+   * Default: 1 hour.
+   */
+  cacheTtlMs?: number;
+
+  /**
+   * The duration, in milliseconds, for which the absence of a valid
+   * configuration is cached. Default: 5 minutes.
+   */
+  negativeCacheTtlMs?: number;
+}
+
+const DEFAULT_MAX_REFERENCE_DEPTH = 3;
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_NEGATIVE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface CacheEntry {
+  configuration: PrimaryClientConfiguration|null;
+  expiresAt: number;
+}
+
+/**
+ * Client configuration provider that retrieves the configuration from the
+ * `.well-known/openyolo.json` file of the client's domain.
+ *
+ * Referencing configurations are followed to the referenced domain, as long
+ * as that domain is affiliated with the referencing one, no domain is visited
+ * twice, and the maximum reference depth is not exceeded. Any failure results
+ * in the absence of configuration, which is cached for a shorter duration
+ * than found configurations.
+ */
+export class WellKnownClientConfigurationProvider implements
+    ClientConfigurationProvider {
+  private affiliationProvider: AffiliationProvider;
+  private fetcher: ConfigurationFetcher;
+  private maxReferenceDepth: number;
+  private cacheTtlMs: number;
+  private negativeCacheTtlMs: number;
+  private cache: {[authDomain: string]: CacheEntry} = {};
+
+  constructor(options: WellKnownClientConfigurationOptions) {
+    this.affiliationProvider = options.affiliationProvider;
+    this.fetcher = options.fetcher || fetchPublicResource;
+    this.maxReferenceDepth = options.maxReferenceDepth === undefined ?
+        DEFAULT_MAX_REFERENCE_DEPTH :
+        options.maxReferenceDepth;
+    this.cacheTtlMs = options.cacheTtlMs === undefined ? DEFAULT_CACHE_TTL_MS :
+                                                         options.cacheTtlMs;
+    this.negativeCacheTtlMs = options.negativeCacheTtlMs === undefined ?
+        DEFAULT_NEGATIVE_CACHE_TTL_MS :
+        options.negativeCacheTtlMs;
+  }
+
+  async getConfiguration(authDomain: string):
+      Promise<PrimaryClientConfiguration|null> {
+    const cached = this.cache[authDomain];
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.configuration;
+    }
+
+    const configuration = await this.resolveConfiguration(authDomain);
+    const ttl = configuration ? this.cacheTtlMs : this.negativeCacheTtlMs;
+    this.cache[authDomain] = {configuration, expiresAt: Date.now() + ttl};
+    return configuration;
+  }
+
+  /**
+   * Follows the chain of configurations starting at the provided domain,
+   * until a primary configuration is found.
+   */
+  private async resolveConfiguration(authDomain: string):
+      Promise<PrimaryClientConfiguration|null> {
+    const visited: string[] = [];
+    let domain = authDomain;
+    while (true) {
+      visited.push(domain);
+      const configuration = await this.fetchConfiguration(domain);
+      if (!configuration) {
+        return null;
+      }
+
+      if (configuration.type === 'primary') {
+        return configuration;
+      }
+
+      const referencedDomain = configuration.domain;
+      if (visited.indexOf(referencedDomain) !== -1 ||
+          visited.length > this.maxReferenceDepth) {
+        return null;
+      }
+
+      if (!await this.isAffiliated(domain, referencedDomain)) {
+        return null;
+      }
+
+      domain = referencedDomain;
+    }
+  }
+
+  /**
+   * Fetches and validates the configuration file of the provided domain.
+   */
+  private async fetchConfiguration(authDomain: string):
+      Promise<ClientConfiguration|null> {
+    if (!isSchemeAndAuthorityOnlyUrl(authDomain) ||
+        !authDomain.startsWith('http')) {
+      return null;
+    }
+
+    let configuration: any;
+    try {
+      const response =
+          await this.fetcher(authDomain + CLIENT_CONFIGURATION_PATH);
+      if (response.statusCode !== 200) {
+        return null;
+      }
+      configuration = JSON.parse(response.responseText);
+    } catch (err) {
+      // network failure, or malformed JSON.
+      return null;
+    }
+
+    return isValidClientConfiguration(configuration) ? configuration : null;
+  }
+
+  private async isAffiliated(authDomain: string, referencedDomain: string):
+      Promise<boolean> {
+    try {
+      const equivalentDomains =
+          await this.affiliationProvider.getEquivalentDomains(authDomain);
+      return equivalentDomains.indexOf(referencedDomain) !== -1;
+    } catch (err) {
+      return false;
+    }
+  }
+}
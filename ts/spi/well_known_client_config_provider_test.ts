@@ -0,0 +1,193 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {PrimaryClientConfiguration} from '../protocol/client_config';
+
+import {AffiliationProvider, HttpResponse} from './provider_config';
+import {WellKnownClientConfigurationProvider} from './well_known_client_config_provider';
+
+describe('WellKnownClientConfigurationProvider', () => {
+  const CLIENT = 'https://www.example.com';
+  const REFERENCED = 'https://login.example.com';
+  const OTHER = 'https://other.example.com';
+
+  const primaryConfig: PrimaryClientConfiguration = {
+    type: 'primary',
+    apiEnabled: true,
+    authenticationEndpoint: 'https://login.example.com/auth'
+  };
+
+  let files: {[url: string]: HttpResponse};
+  let equivalentDomains: {[authDomain: string]: string[]};
+  let fetcher: jasmine.Spy;
+  let affiliationProvider: AffiliationProvider;
+  let provider: WellKnownClientConfigurationProvider;
+
+  function serve(domain: string, content: any) {
+    files[`${domain}/.well-known/openyolo.json`] = {
+      statusCode: 200,
+      responseText: JSON.stringify(content)
+    };
+  }
+
+  beforeEach(() => {
+    files = {};
+    equivalentDomains = {};
+    fetcher = jasmine.createSpy('fetcher').and.callFake((url: string) => {
+      return Promise.resolve(files[url] || {statusCode: 404, responseText: ''});
+    });
+    affiliationProvider = {
+      getEquivalentDomains: (authDomain: string) =>
+          Promise.resolve(equivalentDomains[authDomain] || [authDomain])
+    };
+    provider = new WellKnownClientConfigurationProvider({
+      affiliationProvider,
+      fetcher,
+      cacheTtlMs: 1000,
+      negativeCacheTtlMs: 100
+    });
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2017, 0, 1));
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('returns the primary configuration of the client', async function(done) {
+    serve(CLIENT, primaryConfig);
+    expect(await provider.getConfiguration(CLIENT)).toEqual(primaryConfig);
+    expect(fetcher).toHaveBeenCalledWith(
+        'https://www.example.com/.well-known/openyolo.json');
+    done();
+  });
+
+  it('returns null when the configuration is missing', async function(done) {
+    expect(await provider.getConfiguration(CLIENT)).toBeNull();
+    done();
+  });
+
+  it('returns null when the configuration is malformed', async function(done) {
+    files[`${CLIENT}/.well-known/openyolo.json`] = {
+      statusCode: 200,
+      responseText: '{"type": "primary",'
+    };
+    expect(await provider.getConfiguration(CLIENT)).toBeNull();
+    done();
+  });
+
+  it('returns null when the configuration does not match the schema',
+     async function(done) {
+       serve(CLIENT, {type: 'primary', apiEnabled: 'yes'});
+       expect(await provider.getConfiguration(CLIENT)).toBeNull();
+       done();
+     });
+
+  it('returns null when the configuration cannot be fetched',
+     async function(done) {
+       fetcher.and.returnValue(Promise.reject(new Error('network failure')));
+       expect(await provider.getConfiguration(CLIENT)).toBeNull();
+       done();
+     });
+
+  it('does not fetch configurations of non-web domains', async function(done) {
+    expect(await provider.getConfiguration('android://hash@com.example'))
+        .toBeNull();
+    expect(fetcher).not.toHaveBeenCalled();
+    done();
+  });
+
+  describe('references', () => {
+    it('follows a reference to an affiliated domain', async function(done) {
+      serve(CLIENT, {type: 'reference', domain: REFERENCED});
+      serve(REFERENCED, primaryConfig);
+      equivalentDomains[CLIENT] = [CLIENT, REFERENCED];
+      expect(await provider.getConfiguration(CLIENT)).toEqual(primaryConfig);
+      done();
+    });
+
+    it('does not follow a reference to an unaffiliated domain',
+       async function(done) {
+         serve(CLIENT, {type: 'reference', domain: REFERENCED});
+         serve(REFERENCED, primaryConfig);
+         expect(await provider.getConfiguration(CLIENT)).toBeNull();
+         expect(fetcher).toHaveBeenCalledTimes(1);
+         done();
+       });
+
+    it('does not follow a reference if affiliation fails',
+       async function(done) {
+         serve(CLIENT, {type: 'reference', domain: REFERENCED});
+         serve(REFERENCED, primaryConfig);
+         affiliationProvider.getEquivalentDomains = () =>
+             Promise.reject(new Error('affiliation failure'));
+         expect(await provider.getConfiguration(CLIENT)).toBeNull();
+         done();
+       });
+
+    it('detects reference loops', async function(done) {
+      serve(CLIENT, {type: 'reference', domain: REFERENCED});
+      serve(REFERENCED, {type: 'reference', domain: CLIENT});
+      equivalentDomains[CLIENT] = [CLIENT, REFERENCED];
+      equivalentDomains[REFERENCED] = [CLIENT, REFERENCED];
+      expect(await provider.getConfiguration(CLIENT)).toBeNull();
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      done();
+    });
+
+    it('limits the depth of references', async function(done) {
+      provider = new WellKnownClientConfigurationProvider(
+          {affiliationProvider, fetcher, maxReferenceDepth: 1});
+      serve(CLIENT, {type: 'reference', domain: REFERENCED});
+      serve(REFERENCED, {type: 'reference', domain: OTHER});
+      serve(OTHER, primaryConfig);
+      equivalentDomains[CLIENT] = [CLIENT, REFERENCED, OTHER];
+      equivalentDomains[REFERENCED] = [CLIENT, REFERENCED, OTHER];
+      expect(await provider.getConfiguration(CLIENT)).toBeNull();
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      done();
+    });
+  });
+
+  describe('caching', () => {
+    it('caches found configurations until they expire', async function(done) {
+      serve(CLIENT, primaryConfig);
+      await provider.getConfiguration(CLIENT);
+      jasmine.clock().tick(999);
+      expect(await provider.getConfiguration(CLIENT)).toEqual(primaryConfig);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      jasmine.clock().tick(1);
+      await provider.getConfiguration(CLIENT);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      done();
+    });
+
+    it('caches missing configurations for a shorter duration',
+       async function(done) {
+         expect(await provider.getConfiguration(CLIENT)).toBeNull();
+         serve(CLIENT, primaryConfig);
+         jasmine.clock().tick(99);
+         expect(await provider.getConfiguration(CLIENT)).toBeNull();
+         expect(fetcher).toHaveBeenCalledTimes(1);
+
+         jasmine.clock().tick(1);
+         expect(await provider.getConfiguration(CLIENT)).toEqual(primaryConfig);
+         expect(fetcher).toHaveBeenCalledTimes(2);
+         done();
+       });
+  });
+});
@@ -0,0 +1,50 @@
+/*
+ * Copyright 2017 The OpenYOLO for Web Authors. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *  http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AbortSignalLike} from '../api/base_request';
+
+/**
+ * Minimal implementation of an AbortSignal, as the DOM one is not available in
+ * every test environment.
+ */
+export class FakeAbortSignal implements AbortSignalLike {
+  aborted = false;
+  listeners: Array<() => void> = [];
+
+  addEventListener(type: 'abort', listener: () => void) {
+    this.listeners.push(listener);
+  }
+
+  removeEventListener(type: 'abort', listener: () => void) {
+    this.listeners = this.listeners.filter((l) => l !== listener);
+  }
+}
+
+/**
+ * Minimal implementation of an AbortController, controlling a
+ * {@link FakeAbortSignal}.
+ */
+export class FakeAbortController {
+  readonly signal = new FakeAbortSignal();
+
+  abort() {
+    if (this.signal.aborted) {
+      return;
+    }
+    this.signal.aborted = true;
+    this.signal.listeners.slice().forEach((listener) => listener());
+  }
+}
@@ -69,8 +69,17 @@ export class MockWindow implements WindowLike {
  * Create a mocked SmartLock frame to be injected in tests.
  */
 export function createSpyFrame(id: string) {
-  let frame = jasmine.createSpyObj(
-      'frame', ['load', 'display', 'sendMessage', 'hide', 'dispose']);
+  let frame = jasmine.createSpyObj('frame', [
+    'load',
+    'display',
+    'sendMessage',
+    'hide',
+    'dispose',
+    'addCloseListener',
+    'removeCloseListener',
+    'addDismissListener',
+    'removeDismissListener'
+  ]);
   frame.id = id;
   return frame;
 }